@@ -1,4 +1,6 @@
 import React, { useState, useRef, useEffect } from 'react';
+import { readSseStream } from './lib/sseParser';
+import { parseStreamEvent } from './lib/protocol';
 
 function App() {
   const [prompt, setPrompt] = useState('');
@@ -30,67 +32,45 @@ function App() {
     let isFirstToken = true;
 
     try {
-      const res = await fetch('http://localhost:5001/api/chat', {
+      const res = await fetch('http://localhost:5001/api/stream', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
           'Accept': 'text/event-stream', 
         },
-        body: JSON.stringify({ prompt }),
+        body: JSON.stringify({ messages: [{ role: 'user', content: prompt }] }),
       });
 
       if (!res.ok) throw new Error('Network response was not ok');
 
-      const reader = res.body?.getReader();
-      const decoder = new TextDecoder('utf-8');
-      if (!reader) throw new Error('Failed to read stream');
-
-      // THE FIX: We use a buffer to hold incomplete network chunks
-      let buffer = '';
-
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-
-        // Add the new raw bytes to our string buffer
-        buffer += decoder.decode(value, { stream: true });
-        
-        // SSE chunks are separated by double newlines. 
-        const events = buffer.split('\n\n');
-        
-        // The last item in the array might be an incomplete chunk, 
-        // so we pop it off and keep it in the buffer for the next loop.
-        buffer = events.pop() || ''; 
-
-        for (const event of events) {
-          const line = event.trim();
-          
-          if (line.startsWith('data:')) {
-            // Extract the actual JSON string
-            const dataStr = line.substring(5).trim();
-            
-            if (dataStr === '[DONE]') {
-              setTotalTime(Date.now() - startTime);
-              continue; 
-            }
-
-            try {
-              const parsedData = JSON.parse(dataStr);
-              
-              if (isFirstToken && parsedData.text) {
-                setTtft(Date.now() - startTime);
-                isFirstToken = false;
-              }
-
-              // Append the new text safely
-              setResponse((prev) => prev + parsedData.text);
-            } catch (err) {
-              console.error('Ignored incomplete JSON chunk', err);
-            }
-          }
+      if (!res.body) throw new Error('Failed to read stream');
+
+      // The shared parser buffers incomplete network chunks and handles multi-line data.
+      for await (const message of readSseStream(res.body)) {
+        const event = parseStreamEvent(message);
+
+        if (event?.event === 'done') {
+          setTotalTime(Date.now() - startTime);
+          continue;
+        }
+
+        if (event?.event === 'error') {
+          throw new Error(event.data.message);
         }
+
+        if (event?.event !== 'delta') {
+          continue;
+        }
+
+        if (isFirstToken && event.data.text) {
+          setTtft(Date.now() - startTime);
+          isFirstToken = false;
+        }
+
+        // Append the new text safely
+        setResponse((prev) => prev + event.data.text);
       }
-    } catch (err: any) {
+    } catch (err) {
       console.error(err);
     } finally {
       setIsLoading(false);
@@ -1,7 +1,31 @@
+import { useState } from 'react';
 import { BrowserRouter, NavLink, Route, Routes } from 'react-router-dom';
+import { getApiKey, setApiKey } from './lib/auth';
 import SsePage from './pages/SsePage';
 import StandardPage from './pages/StandardPage';
 import NewSolution from './pages/NewSolution';
+import ComparePage from './pages/ComparePage';
+import StructuredPage from './pages/StructuredPage';
+import WatchPage from './pages/WatchPage';
+
+// Only needed when the server has API_KEYS configured.
+function ApiKeyInput() {
+  const [value, setValue] = useState(() => getApiKey() ?? '');
+
+  return (
+    <input
+      type="password"
+      value={value}
+      onChange={(e) => {
+        setValue(e.target.value);
+        setApiKey(e.target.value.trim());
+      }}
+      placeholder="API key"
+      aria-label="API key"
+      style={{ marginLeft: 'auto', padding: '8px 10px', borderRadius: '6px', border: '1px solid #ccc' }}
+    />
+  );
+}
 
 function App() {
   return (
@@ -44,13 +68,43 @@ function App() {
           >
             New Solution
           </NavLink>
+          <NavLink
+            to="/compare"
+            style={({ isActive }) => ({
+              padding: '8px 12px',
+              borderRadius: '6px',
+              textDecoration: 'none',
+              color: 'white',
+              backgroundColor: isActive ? '#007bff' : '#2c2f36',
+            })}
+          >
+            Compare
+          </NavLink>
+          <NavLink
+            to="/structured"
+            style={({ isActive }) => ({
+              padding: '8px 12px',
+              borderRadius: '6px',
+              textDecoration: 'none',
+              color: 'white',
+              backgroundColor: isActive ? '#007bff' : '#2c2f36',
+            })}
+          >
+            JSON
+          </NavLink>
+          <ApiKeyInput />
         </nav>
 
         <Routes>
           <Route path="/" element={<StandardPage />} />
           <Route path="/standard" element={<StandardPage />} />
           <Route path="/sse" element={<SsePage />} />
-          <Route path="/new-solution" element={<NewSolution />} />
+          {/* One optional-segment route, so starting a conversation keeps the page mounted. */}
+          <Route path="/new-solution/:conversationId?" element={<NewSolution />} />
+          <Route path="/compare" element={<ComparePage />} />
+          <Route path="/structured" element={<StructuredPage />} />
+          {/* Reached through a shared live link rather than the nav. */}
+          <Route path="/watch/:generationId" element={<WatchPage />} />
         </Routes>
       </div>
     </BrowserRouter>
@@ -0,0 +1,94 @@
+import { useState } from 'react';
+import Markdown from './Markdown';
+import type { CandidateView } from '../lib/candidates';
+import { formatMs } from '../lib/format';
+
+type CandidateTabsProps = {
+  candidates: CandidateView[];
+  // The reply is still streaming; candidates without a finish reason are still writing.
+  streaming: boolean;
+  // Index of the accepted candidate, if one was picked.
+  accepted?: number;
+  // Offered once the reply has finished and while nothing is accepted yet.
+  onAccept?: (index: number) => void;
+};
+
+const tabStyle = (selected: boolean) => ({
+  padding: '4px 12px',
+  fontSize: '13px',
+  border: '1px solid rgba(255,255,255,0.15)',
+  borderRadius: '6px',
+  backgroundColor: selected ? 'rgba(255,255,255,0.12)' : 'transparent',
+  color: '#d4d4d4',
+  cursor: 'pointer',
+});
+
+const describeMetrics = (candidate: CandidateView) => {
+  const seconds = candidate.totalMs === null ? null : candidate.totalMs / 1000;
+  const charsPerSec = seconds ? `${Math.round(candidate.content.length / seconds)} chars/s` : '—';
+  return [
+    `TTFT ${formatMs(candidate.ttftMs)}`,
+    `total ${formatMs(candidate.totalMs)}`,
+    `${candidate.chunks} chunks`,
+    charsPerSec,
+    `finish: ${candidate.finishReason ?? '—'}`,
+  ].join(' • ');
+};
+
+// Several candidate replies to one prompt, one tab each, every one with its own cursor
+// and timings; the user picks the one that continues the conversation.
+function CandidateTabs({ candidates, streaming, accepted, onAccept }: CandidateTabsProps) {
+  const [selected, setSelected] = useState(accepted ?? 0);
+  const candidate = candidates[selected];
+  const writing = (index: number) => streaming && candidates[index].finishReason === null;
+
+  return (
+    <div>
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: '8px', marginBottom: '12px' }}>
+        {candidates.map((_, index) => (
+          <button key={index} type="button" onClick={() => setSelected(index)} style={tabStyle(index === selected)}>
+            Candidate {index + 1}
+            {writing(index) ? ' ●' : ''}
+            {index === accepted ? ' ✓' : ''}
+          </button>
+        ))}
+      </div>
+
+      <Markdown text={candidate.content} streaming={writing(selected)} />
+      {writing(selected) ? <span style={{ opacity: 0.8 }}>▍</span> : null}
+
+      <div
+        style={{
+          display: 'flex',
+          alignItems: 'center',
+          gap: '12px',
+          marginTop: '12px',
+          fontSize: '12px',
+          color: '#8b949e',
+        }}
+      >
+        <span style={{ flex: 1 }}>{describeMetrics(candidate)}</span>
+        {selected === accepted && <span style={{ color: '#a5d6a7' }}>Accepted answer</span>}
+        {onAccept && accepted === undefined && candidate.content && (
+          <button
+            type="button"
+            onClick={() => onAccept(selected)}
+            style={{
+              padding: '4px 12px',
+              fontSize: '13px',
+              border: 'none',
+              borderRadius: '6px',
+              backgroundColor: '#28a745',
+              color: 'white',
+              cursor: 'pointer',
+            }}
+          >
+            Use this answer
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default CandidateTabs;
@@ -0,0 +1,136 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import type { ConversationSummary } from '../lib/protocol';
+
+type ConversationSidebarProps = {
+  conversations: ConversationSummary[];
+  activeId: string | null;
+  error: string | null;
+  onRename: (id: string, title: string) => void;
+  onDelete: (id: string) => void;
+};
+
+const smallButtonStyle = {
+  padding: '2px 6px',
+  fontSize: '12px',
+  border: 'none',
+  borderRadius: '4px',
+  backgroundColor: 'transparent',
+  color: '#666',
+  cursor: 'pointer',
+};
+
+// Saved conversations, most recent first. Each links to /new-solution/:id; titles are
+// renamed inline and deletion asks for confirmation.
+function ConversationSidebar({ conversations, activeId, error, onRename, onDelete }: ConversationSidebarProps) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState('');
+
+  const startEditing = (conversation: ConversationSummary) => {
+    setEditingId(conversation.id);
+    setDraftTitle(conversation.title);
+  };
+
+  const commitEditing = () => {
+    if (editingId && draftTitle.trim()) {
+      onRename(editingId, draftTitle.trim());
+    }
+    setEditingId(null);
+  };
+
+  return (
+    <aside style={{ width: '220px', flexShrink: 0, fontSize: '14px' }}>
+      <Link
+        to="/new-solution"
+        style={{
+          display: 'block',
+          padding: '8px 10px',
+          marginBottom: '12px',
+          borderRadius: '6px',
+          textAlign: 'center',
+          textDecoration: 'none',
+          color: 'white',
+          backgroundColor: '#2c2f36',
+        }}
+      >
+        + New chat
+      </Link>
+
+      {error && <div style={{ color: '#b00020', marginBottom: '8px' }}>{error}</div>}
+
+      {conversations.length === 0 && !error && <div style={{ color: '#888' }}>No saved conversations yet.</div>}
+
+      <ul style={{ listStyle: 'none', margin: 0, padding: 0, display: 'flex', flexDirection: 'column', gap: '4px' }}>
+        {conversations.map((conversation) => {
+          const isActive = conversation.id === activeId;
+
+          return (
+            <li
+              key={conversation.id}
+              style={{
+                display: 'flex',
+                alignItems: 'center',
+                gap: '4px',
+                padding: '6px 8px',
+                borderRadius: '6px',
+                backgroundColor: isActive ? '#e7f1ff' : undefined,
+              }}
+            >
+              {editingId === conversation.id ? (
+                <input
+                  value={draftTitle}
+                  onChange={(e) => setDraftTitle(e.target.value)}
+                  onBlur={commitEditing}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') {
+                      commitEditing();
+                    } else if (e.key === 'Escape') {
+                      setEditingId(null);
+                    }
+                  }}
+                  autoFocus
+                  aria-label="Conversation title"
+                  style={{ flex: 1, minWidth: 0, padding: '2px 4px', fontSize: '14px' }}
+                />
+              ) : (
+                <Link
+                  to={`/new-solution/${conversation.id}`}
+                  title={conversation.title}
+                  style={{
+                    flex: 1,
+                    minWidth: 0,
+                    overflow: 'hidden',
+                    textOverflow: 'ellipsis',
+                    whiteSpace: 'nowrap',
+                    textDecoration: 'none',
+                    color: isActive ? '#007bff' : '#222',
+                  }}
+                >
+                  {conversation.title || 'Untitled'}
+                </Link>
+              )}
+
+              <button type="button" onClick={() => startEditing(conversation)} style={smallButtonStyle} title="Rename">
+                ✎
+              </button>
+              <button
+                type="button"
+                onClick={() => {
+                  if (window.confirm(`Delete "${conversation.title || 'Untitled'}"?`)) {
+                    onDelete(conversation.id);
+                  }
+                }}
+                style={smallButtonStyle}
+                title="Delete"
+              >
+                ✕
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+    </aside>
+  );
+}
+
+export default ConversationSidebar;
@@ -0,0 +1,85 @@
+import { childPath } from '../lib/jsonSchema';
+
+const MONOSPACE = 'ui-monospace, SFMono-Regular, Menlo, Consolas, monospace';
+
+// Strings green, numbers blue, booleans and null purple.
+const leafColor = (value: unknown) =>
+  typeof value === 'string' ? '#a5d6a7' : typeof value === 'number' ? '#6cb6ff' : '#d2a8ff';
+
+type JsonTreeProps = {
+  value: unknown;
+  // Schema problems by path (see lib/jsonSchema); those nodes are flagged.
+  problems?: Map<string, string[]>;
+};
+
+type JsonNodeProps = {
+  label: string | null;
+  value: unknown;
+  path: string;
+  problems: Map<string, string[]>;
+};
+
+function Problems({ messages }: { messages: string[] | undefined }) {
+  if (!messages) {
+    return null;
+  }
+  return (
+    <span style={{ marginLeft: '8px', color: '#f28b82', fontFamily: 'sans-serif' }}>⚠ {messages.join('; ')}</span>
+  );
+}
+
+function Label({ label }: { label: string | null }) {
+  return label === null ? null : <span style={{ color: '#d4d4d4' }}>{label}: </span>;
+}
+
+function JsonNode({ label, value, path, problems }: JsonNodeProps) {
+  if (typeof value !== 'object' || value === null) {
+    return (
+      <div style={{ whiteSpace: 'pre-wrap', wordBreak: 'break-word' }}>
+        <Label label={label} />
+        <span style={{ color: leafColor(value) }}>{JSON.stringify(value)}</span>
+        <Problems messages={problems.get(path)} />
+      </div>
+    );
+  }
+
+  const entries: [string | number, unknown][] = Array.isArray(value)
+    ? value.map((item, index) => [index, item])
+    : Object.entries(value);
+  const [open, close] = Array.isArray(value) ? ['[', ']'] : ['{', '}'];
+
+  return (
+    <details open>
+      <summary style={{ cursor: 'pointer' }}>
+        <Label label={label} />
+        <span style={{ color: '#8b949e' }}>
+          {open} {entries.length} {Array.isArray(value) ? 'items' : 'keys'} {close}
+        </span>
+        <Problems messages={problems.get(path)} />
+      </summary>
+      <div style={{ marginLeft: '10px', paddingLeft: '12px', borderLeft: '1px solid rgba(255,255,255,0.1)' }}>
+        {entries.map(([key, item]) => (
+          <JsonNode
+            key={key}
+            label={typeof key === 'number' ? String(key) : JSON.stringify(key)}
+            value={item}
+            path={childPath(path, key)}
+            problems={problems}
+          />
+        ))}
+      </div>
+    </details>
+  );
+}
+
+// A JSON value as a collapsible tree; re-rendering with a bigger value (a reply still
+// streaming) keeps what the user has collapsed.
+function JsonTree({ value, problems = new Map() }: JsonTreeProps) {
+  return (
+    <div style={{ fontFamily: MONOSPACE, fontSize: '13px', lineHeight: 1.6 }}>
+      <JsonNode label={null} value={value} path="$" problems={problems} />
+    </div>
+  );
+}
+
+export default JsonTree;
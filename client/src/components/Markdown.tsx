@@ -0,0 +1,271 @@
+import { memo, useEffect, useMemo, useRef, useState } from 'react';
+import type { CSSProperties, ReactNode } from 'react';
+import { highlight } from '../lib/highlight';
+import type { TokenKind } from '../lib/highlight';
+import { createStreamingParser, parseInline } from '../lib/markdown';
+import type { BlockNode, InlineNode } from '../lib/markdown';
+
+type MarkdownProps = {
+  text: string;
+  // The text is still streaming in: the last block is rendered as unfinished.
+  streaming?: boolean;
+};
+
+// Tuned for the dark reply panels the pages use.
+const TOKEN_COLORS: Record<TokenKind, string> = {
+  comment: '#6a9955',
+  string: '#ce9178',
+  keyword: '#c586c0',
+  literal: '#569cd6',
+  number: '#b5cea8',
+  function: '#dcdcaa',
+  type: '#4ec9b0',
+  property: '#9cdcfe',
+};
+
+const MONOSPACE = 'ui-monospace, SFMono-Regular, Menlo, Consolas, monospace';
+
+const HEADING_SIZES = ['1.5em', '1.3em', '1.15em', '1.05em', '1em', '1em'];
+
+const tableCellStyle: CSSProperties = {
+  border: '1px solid rgba(255,255,255,0.2)',
+  padding: '4px 10px',
+};
+
+// React escapes every string, so raw HTML in a reply shows up as text; link targets
+// were already limited to http(s) and mailto by the parser.
+const renderInline = (nodes: InlineNode[]): ReactNode[] =>
+  nodes.map((node, index) => {
+    switch (node.type) {
+      case 'text':
+        return node.text;
+      case 'break':
+        return <br key={index} />;
+      case 'code':
+        return (
+          <code
+            key={index}
+            style={{
+              fontFamily: MONOSPACE,
+              fontSize: '0.9em',
+              padding: '0.1em 0.35em',
+              borderRadius: '4px',
+              backgroundColor: 'rgba(255,255,255,0.1)',
+            }}
+          >
+            {node.text}
+          </code>
+        );
+      case 'strong':
+        return <strong key={index}>{renderInline(node.children)}</strong>;
+      case 'em':
+        return <em key={index}>{renderInline(node.children)}</em>;
+      case 'del':
+        return <del key={index}>{renderInline(node.children)}</del>;
+      case 'link':
+        return (
+          <a key={index} href={node.href} target="_blank" rel="noopener noreferrer" style={{ color: '#6cb6ff' }}>
+            {renderInline(node.children)}
+          </a>
+        );
+    }
+  });
+
+function InlineText({ text, open }: { text: string; open: boolean }) {
+  const nodes = useMemo(() => parseInline(text, { open }), [text, open]);
+  return <>{renderInline(nodes)}</>;
+}
+
+function CodeBlock({ lang, code }: { lang: string; code: string }) {
+  const tokens = useMemo(() => highlight(code, lang), [code, lang]);
+  const [copied, setCopied] = useState(false);
+  const resetTimerRef = useRef<number | null>(null);
+
+  useEffect(
+    () => () => {
+      if (resetTimerRef.current !== null) {
+        window.clearTimeout(resetTimerRef.current);
+      }
+    },
+    []
+  );
+
+  const copy = async () => {
+    try {
+      await navigator.clipboard.writeText(code);
+    } catch {
+      // Clipboard access needs a secure context and focus; nothing useful to report.
+      return;
+    }
+
+    setCopied(true);
+    if (resetTimerRef.current !== null) {
+      window.clearTimeout(resetTimerRef.current);
+    }
+    resetTimerRef.current = window.setTimeout(() => setCopied(false), 1500);
+  };
+
+  return (
+    <div
+      style={{
+        margin: '0 0 0.8em',
+        borderRadius: '6px',
+        border: '1px solid rgba(255,255,255,0.1)',
+        backgroundColor: '#0d1117',
+        overflow: 'hidden',
+      }}
+    >
+      <div
+        style={{
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'space-between',
+          padding: '4px 8px 4px 12px',
+          fontSize: '12px',
+          color: '#8b949e',
+          backgroundColor: 'rgba(255,255,255,0.04)',
+        }}
+      >
+        <span>{lang || 'text'}</span>
+        <button
+          type="button"
+          onClick={copy}
+          style={{
+            padding: '2px 8px',
+            fontSize: '12px',
+            color: '#c9d1d9',
+            backgroundColor: 'transparent',
+            border: '1px solid rgba(255,255,255,0.2)',
+            borderRadius: '4px',
+            cursor: 'pointer',
+          }}
+        >
+          {copied ? 'Copied' : 'Copy'}
+        </button>
+      </div>
+      <pre
+        style={{
+          margin: 0,
+          padding: '12px',
+          overflowX: 'auto',
+          fontFamily: MONOSPACE,
+          fontSize: '14px',
+          lineHeight: 1.5,
+          color: '#d4d4d4',
+          whiteSpace: 'pre',
+        }}
+      >
+        <code>
+          {tokens.map((token, index) =>
+            token.kind ? (
+              <span key={index} style={{ color: TOKEN_COLORS[token.kind] }}>
+                {token.text}
+              </span>
+            ) : (
+              token.text
+            )
+          )}
+        </code>
+      </pre>
+    </div>
+  );
+}
+
+const renderBlocks = (blocks: BlockNode[], open: boolean) =>
+  blocks.map((block, index) => <Block key={index} block={block} open={open && index === blocks.length - 1} />);
+
+type BlockProps = {
+  block: BlockNode;
+  // The block is the unfinished tail of a streaming reply.
+  open: boolean;
+};
+
+// Blocks only re-render when their own source changes, so while a reply streams only
+// the last one is parsed and rendered again.
+const Block = memo(
+  function Block({ block, open }: BlockProps) {
+    switch (block.type) {
+      case 'heading': {
+        const Tag = `h${block.level}` as 'h1';
+        return (
+          <Tag style={{ margin: '1em 0 0.5em', fontSize: HEADING_SIZES[block.level - 1], lineHeight: 1.3 }}>
+            <InlineText text={block.text} open={open} />
+          </Tag>
+        );
+      }
+      case 'paragraph':
+        return (
+          <p style={{ margin: '0 0 0.8em' }}>
+            <InlineText text={block.text} open={open} />
+          </p>
+        );
+      case 'code':
+        return <CodeBlock lang={block.lang} code={block.code} />;
+      case 'quote':
+        return (
+          <blockquote
+            style={{ margin: '0 0 0.8em', paddingLeft: '12px', borderLeft: '3px solid rgba(255,255,255,0.25)', color: '#aaa' }}
+          >
+            {renderBlocks(block.children, open)}
+          </blockquote>
+        );
+      case 'list': {
+        const Tag = block.ordered ? 'ol' : 'ul';
+        return (
+          <Tag start={block.ordered ? block.start : undefined} style={{ margin: '0 0 0.8em', paddingLeft: '1.5em' }}>
+            {block.items.map((item, index) => (
+              <li key={index} style={{ margin: '0.2em 0' }}>
+                {/* Tight items hold a single paragraph; render it without the paragraph margin. */}
+                {item.length === 1 && item[0].type === 'paragraph' ? (
+                  <InlineText text={item[0].text} open={open && index === block.items.length - 1} />
+                ) : (
+                  renderBlocks(item, open && index === block.items.length - 1)
+                )}
+              </li>
+            ))}
+          </Tag>
+        );
+      }
+      case 'table':
+        return (
+          <div style={{ margin: '0 0 0.8em', overflowX: 'auto' }}>
+            <table style={{ borderCollapse: 'collapse' }}>
+              <thead>
+                <tr>
+                  {block.header.map((cell, column) => (
+                    <th key={column} style={{ ...tableCellStyle, textAlign: block.align[column] ?? 'left' }}>
+                      <InlineText text={cell} open={false} />
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {block.rows.map((row, rowIndex) => (
+                  <tr key={rowIndex}>
+                    {row.map((cell, column) => (
+                      <td key={column} style={{ ...tableCellStyle, textAlign: block.align[column] ?? undefined }}>
+                        <InlineText text={cell} open={open && rowIndex === block.rows.length - 1} />
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        );
+      case 'rule':
+        return <hr style={{ margin: '1em 0', border: 'none', borderTop: '1px solid rgba(255,255,255,0.2)' }} />;
+    }
+  },
+  (prev, next) => prev.block.source === next.block.source && prev.open === next.open
+);
+
+// Renders a model reply as Markdown. Safe to call on every streaming tick: blocks that
+// can no longer change are neither parsed nor rendered again, only the ones after them.
+function Markdown({ text, streaming = false }: MarkdownProps) {
+  const [parse] = useState(createStreamingParser);
+  const blocks = useMemo(() => parse(text, { streaming }), [parse, text, streaming]);
+  return <div style={{ overflowWrap: 'anywhere' }}>{renderBlocks(blocks, streaming)}</div>;
+}
+
+export default Markdown;
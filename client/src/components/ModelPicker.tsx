@@ -0,0 +1,146 @@
+import { useModels } from '../hooks/useModels';
+import type { ModelSettings } from '../lib/modelSettings';
+
+type ModelPickerProps = {
+  value: ModelSettings;
+  onChange: (value: ModelSettings) => void;
+  disabled?: boolean;
+  // Also offer the server's tools; only for pages that stream.
+  withTools?: boolean;
+  // Also offer several candidate replies (`n`); only for pages that stream and show them.
+  withCandidates?: boolean;
+};
+
+const fieldStyle = { padding: '6px 8px', fontSize: '14px', borderRadius: '4px' };
+
+const readOptionalNumber = (raw: string) => (raw === '' ? undefined : Number(raw));
+
+// 1 is the server's default, so it is left unset.
+const readCandidates = (raw: string, max: number) => {
+  const n = Math.min(Math.floor(Number(raw)), max);
+  return n > 1 ? n : undefined;
+};
+
+// Provider/model select plus the tuning knobs the chosen provider supports,
+// populated from GET /api/models.
+function ModelPicker({ value, onChange, disabled, withTools = false, withCandidates = false }: ModelPickerProps) {
+  const { catalog, error } = useModels();
+
+  const provider = catalog?.providers.find((entry) => entry.name === (value.provider ?? catalog.defaultProvider));
+  const temperatureBounds = provider?.params.temperature;
+  const maxTokensBounds = provider?.params.max_tokens;
+
+  const selectModel = (key: string) => {
+    const [nextProvider, nextModel] = key ? key.split('/') : [];
+    // Bounds differ per provider, so tuning is reset along with the model; tools and
+    // candidates are not.
+    onChange({ provider: nextProvider, model: nextModel, tools: value.tools, n: value.n });
+  };
+
+  // The server only writes several candidates when no tools are enabled.
+  const toggleTool = (name: string, enabled: boolean) => {
+    const tools = (value.tools ?? []).filter((tool) => tool !== name);
+    onChange({ ...value, tools: enabled ? [...tools, name] : tools, n: enabled ? undefined : value.n });
+  };
+  const hasTools = (value.tools ?? []).length > 0;
+
+  return (
+    <div style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: '10px', fontSize: '14px' }}>
+      <label style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+        Model
+        <select
+          value={value.provider && value.model ? `${value.provider}/${value.model}` : ''}
+          onChange={(e) => selectModel(e.target.value)}
+          disabled={disabled || !catalog}
+          style={fieldStyle}
+        >
+          <option value="">Server default</option>
+          {catalog?.providers.map((entry) => (
+            <optgroup key={entry.name} label={entry.name}>
+              {entry.models.map((model) => (
+                <option key={model.id} value={`${entry.name}/${model.id}`}>
+                  {model.id}
+                  {model.price ? ` ($${model.price.input} / $${model.price.output} per 1M)` : ''}
+                </option>
+              ))}
+            </optgroup>
+          ))}
+        </select>
+      </label>
+
+      {temperatureBounds && (
+        <label style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+          Temperature
+          <input
+            type="number"
+            min={temperatureBounds.min}
+            max={temperatureBounds.max}
+            step={0.1}
+            value={value.temperature ?? ''}
+            placeholder="default"
+            onChange={(e) => onChange({ ...value, temperature: readOptionalNumber(e.target.value) })}
+            disabled={disabled}
+            style={{ ...fieldStyle, width: '80px' }}
+          />
+        </label>
+      )}
+
+      {maxTokensBounds && (
+        <label style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+          Max tokens
+          <input
+            type="number"
+            min={maxTokensBounds.min}
+            max={maxTokensBounds.max}
+            step={1}
+            value={value.max_tokens ?? ''}
+            placeholder="default"
+            onChange={(e) => onChange({ ...value, max_tokens: readOptionalNumber(e.target.value) })}
+            disabled={disabled}
+            style={{ ...fieldStyle, width: '90px' }}
+          />
+        </label>
+      )}
+
+      {withTools && catalog && catalog.tools.length > 0 && (
+        <span style={{ display: 'flex', alignItems: 'center', gap: '10px' }}>
+          Tools
+          {catalog.tools.map((tool) => (
+            <label key={tool.name} title={tool.description} style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
+              <input
+                type="checkbox"
+                checked={value.tools?.includes(tool.name) ?? false}
+                onChange={(e) => toggleTool(tool.name, e.target.checked)}
+                disabled={disabled}
+              />
+              <code>{tool.name}</code>
+            </label>
+          ))}
+        </span>
+      )}
+
+      {withCandidates && catalog && catalog.maxCandidates > 1 && (
+        <label
+          title={hasTools ? 'Several candidates cannot be combined with tools' : undefined}
+          style={{ display: 'flex', alignItems: 'center', gap: '6px' }}
+        >
+          Candidates
+          <input
+            type="number"
+            min={1}
+            max={catalog.maxCandidates}
+            step={1}
+            value={value.n ?? 1}
+            onChange={(e) => onChange({ ...value, n: readCandidates(e.target.value, catalog.maxCandidates) })}
+            disabled={disabled || hasTools}
+            style={{ ...fieldStyle, width: '60px' }}
+          />
+        </label>
+      )}
+
+      {error && <span style={{ color: '#b00020' }}>{error}</span>}
+    </div>
+  );
+}
+
+export default ModelPicker;
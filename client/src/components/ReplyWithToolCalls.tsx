@@ -0,0 +1,32 @@
+import React from 'react';
+import Markdown from './Markdown';
+import ToolCallCard from './ToolCallCard';
+import type { ToolCallView } from '../lib/toolCalls';
+
+type ReplyWithToolCallsProps = {
+  content: string;
+  toolCalls?: ToolCallView[];
+  streaming: boolean;
+};
+
+// Splits a reply at its tool calls, each shown once the text before it has rendered.
+function ReplyWithToolCalls({ content, toolCalls = [], streaming }: ReplyWithToolCallsProps) {
+  const calls = toolCalls.filter((call) => call.offset <= content.length);
+  if (calls.length === 0) {
+    return <Markdown text={content} streaming={streaming} />;
+  }
+
+  const boundaries = [0, ...calls.map((call) => call.offset), content.length];
+  return boundaries.slice(1).map((end, index) => {
+    const text = content.slice(boundaries[index], end);
+    const call = calls[index];
+    return (
+      <React.Fragment key={call?.id ?? 'tail'}>
+        {text && <Markdown text={text} streaming={streaming && !call} />}
+        {call && <ToolCallCard call={call} active={streaming} />}
+      </React.Fragment>
+    );
+  });
+}
+
+export default ReplyWithToolCalls;
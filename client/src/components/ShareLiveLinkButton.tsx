@@ -0,0 +1,56 @@
+import { useState } from 'react';
+
+const COPIED_NOTICE_MS = 2000;
+
+type ShareLiveLinkButtonProps = {
+  generationId: string;
+};
+
+// Copies a link to the read-only viewer (/watch/:generationId), where teammates see the
+// reply so far and then follow it live. Without clipboard access the link is shown instead.
+function ShareLiveLinkButton({ generationId }: ShareLiveLinkButtonProps) {
+  const [copied, setCopied] = useState(false);
+  const [shownLink, setShownLink] = useState<string | null>(null);
+  const link = `${window.location.origin}/watch/${generationId}`;
+
+  const share = async () => {
+    try {
+      await navigator.clipboard.writeText(link);
+      setCopied(true);
+      window.setTimeout(() => setCopied(false), COPIED_NOTICE_MS);
+    } catch {
+      setShownLink(link);
+    }
+  };
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={share}
+        style={{
+          padding: '10px 20px',
+          fontSize: '16px',
+          backgroundColor: '#2c2f36',
+          color: 'white',
+          border: 'none',
+          borderRadius: '4px',
+          cursor: 'pointer',
+        }}
+      >
+        {copied ? 'Link copied' : 'Share live link'}
+      </button>
+      {shownLink && (
+        <input
+          readOnly
+          value={shownLink}
+          onFocus={(e) => e.target.select()}
+          aria-label="Live link"
+          style={{ flex: 1, padding: '10px', fontSize: '14px', borderRadius: '4px', border: '1px solid #ccc' }}
+        />
+      )}
+    </>
+  );
+}
+
+export default ShareLiveLinkButton;
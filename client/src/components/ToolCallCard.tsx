@@ -0,0 +1,68 @@
+import { formatJson } from '../lib/toolCalls';
+import type { ToolCallView } from '../lib/toolCalls';
+
+const MONOSPACE = 'ui-monospace, SFMono-Regular, Menlo, Consolas, monospace';
+
+const STATUS_LABELS: Record<ToolCallView['status'], string> = {
+  running: 'running…',
+  done: 'done',
+  failed: 'failed',
+};
+
+const preStyle = {
+  margin: 0,
+  padding: '8px 12px',
+  overflowX: 'auto' as const,
+  fontFamily: MONOSPACE,
+  fontSize: '13px',
+  lineHeight: 1.5,
+  whiteSpace: 'pre-wrap' as const,
+};
+
+type ToolCallCardProps = {
+  call: ToolCallView;
+  // False once the reply has ended: a call still without a result was never run (the
+  // stream stopped, or the server's tool-round limit was reached).
+  active: boolean;
+};
+
+// One tool call inside a reply: its arguments as they stream in, then what it returned.
+function ToolCallCard({ call, active }: ToolCallCardProps) {
+  return (
+    <div
+      style={{
+        margin: '0 0 0.8em',
+        borderRadius: '6px',
+        border: `1px solid ${call.status === 'failed' ? 'rgba(242,139,130,0.5)' : 'rgba(108,182,255,0.35)'}`,
+        backgroundColor: '#0d1117',
+        overflow: 'hidden',
+      }}
+    >
+      <div
+        style={{
+          display: 'flex',
+          justifyContent: 'space-between',
+          padding: '4px 12px',
+          fontSize: '12px',
+          color: '#8b949e',
+          backgroundColor: 'rgba(255,255,255,0.04)',
+        }}
+      >
+        <span>
+          Tool call · <code style={{ fontFamily: MONOSPACE, color: '#6cb6ff' }}>{call.name}</code>
+        </span>
+        <span style={{ color: call.status === 'failed' ? '#f28b82' : undefined }}>
+          {call.status === 'running' && !active ? 'not run' : STATUS_LABELS[call.status]}
+        </span>
+      </div>
+      <pre style={{ ...preStyle, color: '#d4d4d4' }}>{formatJson(call.arguments || '{}')}</pre>
+      {call.status !== 'running' && (
+        <pre style={{ ...preStyle, borderTop: '1px solid rgba(255,255,255,0.08)', color: call.error ? '#f28b82' : '#a5d6a7' }}>
+          {call.error ?? formatJson(call.result)}
+        </pre>
+      )}
+    </div>
+  );
+}
+
+export default ToolCallCard;
@@ -0,0 +1,57 @@
+import { useCallback, useEffect, useState } from 'react';
+import { deleteConversation, listConversations, renameConversation } from '../lib/conversations';
+import type { ConversationSummary } from '../lib/protocol';
+
+type ConversationsState = {
+  conversations: ConversationSummary[];
+  error: string | null;
+};
+
+// The sidebar's list of saved conversations. `refresh()` reloads it, e.g. after a
+// reply was saved; rename and remove update the list once the server confirms.
+export const useConversations = () => {
+  const [state, setState] = useState<ConversationsState>({ conversations: [], error: null });
+  const [version, setVersion] = useState(0);
+
+  useEffect(() => {
+    const controller = new AbortController();
+
+    listConversations(controller.signal)
+      .then((conversations) => setState({ conversations, error: null }))
+      .catch((error: unknown) => {
+        if ((error as Error).name !== 'AbortError') {
+          setState((prev) => ({ ...prev, error: 'Could not load conversations' }));
+        }
+      });
+
+    return () => controller.abort();
+  }, [version]);
+
+  const refresh = useCallback(() => setVersion((prev) => prev + 1), []);
+
+  const rename = useCallback(async (id: string, title: string) => {
+    try {
+      const updated = await renameConversation(id, title);
+      setState((prev) => ({
+        error: null,
+        conversations: prev.conversations.map((conversation) => (conversation.id === id ? updated : conversation)),
+      }));
+    } catch (error) {
+      setState((prev) => ({ ...prev, error: (error as Error).message }));
+    }
+  }, []);
+
+  const remove = useCallback(async (id: string) => {
+    try {
+      await deleteConversation(id);
+      setState((prev) => ({
+        error: null,
+        conversations: prev.conversations.filter((conversation) => conversation.id !== id),
+      }));
+    } catch (error) {
+      setState((prev) => ({ ...prev, error: (error as Error).message }));
+    }
+  }, []);
+
+  return { ...state, refresh, rename, remove };
+};
@@ -0,0 +1,34 @@
+import { useEffect, useState } from 'react';
+import { authHeaders } from '../lib/auth';
+import type { ModelsResponse } from '../lib/protocol';
+
+type ModelsState = {
+  catalog: ModelsResponse | null;
+  error: string | null;
+};
+
+// Loads GET /api/models once per mounted picker; the list is small and rarely changes.
+export const useModels = () => {
+  const [state, setState] = useState<ModelsState>({ catalog: null, error: null });
+
+  useEffect(() => {
+    const controller = new AbortController();
+
+    fetch('/api/models', { headers: authHeaders(), signal: controller.signal })
+      .then(async (res) => {
+        if (!res.ok) {
+          throw new Error(`HTTP ${res.status}`);
+        }
+        setState({ catalog: (await res.json()) as ModelsResponse, error: null });
+      })
+      .catch((error: unknown) => {
+        if ((error as Error).name !== 'AbortError') {
+          setState({ catalog: null, error: 'Could not load models' });
+        }
+      });
+
+    return () => controller.abort();
+  }, []);
+
+  return state;
+};
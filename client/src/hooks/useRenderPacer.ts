@@ -0,0 +1,15 @@
+import { useEffect, useState } from 'react';
+import { createRenderPacer } from '../lib/renderPacer';
+import type { PacingMode, RenderPacer } from '../lib/renderPacer';
+
+// One pacer (see lib/renderPacer) per component, revealing through the latest
+// `onReveal`. Changing `mode` re-paces whatever is still queued; unmounting drops it.
+export const useRenderPacer = (mode: PacingMode, onReveal: (parts: string[]) => void): RenderPacer => {
+  const [pacer] = useState(() => createRenderPacer({ mode, onReveal }));
+
+  useEffect(() => pacer.setOnReveal(onReveal), [pacer, onReveal]);
+  useEffect(() => pacer.setMode(mode), [pacer, mode]);
+  useEffect(() => () => pacer.reset(), [pacer]);
+
+  return pacer;
+};
@@ -1,89 +1,288 @@
-import { useEffect, useSyncExternalStore } from 'react';
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  isAbortError,
+  StreamDisconnected,
+  StreamFailedError,
+  streamViaEventSource,
+  streamViaFetch,
+  withStreamTicket,
+} from '../lib/streamClient';
+import { streamViaWebSocket } from '../lib/wsClient';
+import type { WebSocketStreamMessage } from '../lib/wsClient';
+import type { ErrorPayload, FinishReason, MetaPayload, StreamEvent, UsagePayload } from '../lib/protocol';
 
-type StreamCallbacks = {
-  onFirstToken?: () => void;
-  onDone?: () => void;
-  onError?: () => void;
-};
+export type StreamStatus = 'idle' | 'connecting' | 'streaming' | 'done' | 'error' | 'aborted';
 
-const subscribers = new Set<() => void>();
-let responseText = '';
-let eventSource: EventSource | null = null;
+// GET over native EventSource (the URL carries the prompt), POST over fetch (JSON body),
+// or a message on the shared WebSocket (see lib/wsClient). `watch` marks an EventSource
+// stream of someone else's generation (a shared live link): stopping only disconnects.
+export type StreamRequest =
+  | { transport: 'eventsource'; url: string; watch?: boolean }
+  | { transport: 'fetch'; url: string; body: unknown }
+  | { transport: 'websocket'; message: WebSocketStreamMessage };
 
-const notify = () => {
-  subscribers.forEach((callback) => callback());
+export type StreamMetrics = {
+  ttftMs: number | null;
+  totalMs: number | null;
+  // Completion tokens over the time spent generating them (first token to done).
+  tokensPerSec: number | null;
+  // Non-empty delta frames received.
+  chunks: number;
+  // Bytes received, heartbeats and resumed connections included (see StreamHandlers.onBytes).
+  bytes: number;
 };
 
-const subscribe = (callback: () => void) => {
-  subscribers.add(callback);
-  return () => subscribers.delete(callback);
+export type StreamOutcome = {
+  status: Extract<StreamStatus, 'done' | 'error' | 'aborted'>;
+  finishReason: FinishReason | null;
+  error: string | null;
+  // Server request id for correlating a failure with the server logs, when known.
+  requestId: string | null;
+  // Final metrics; `totalMs` is the time until the stream ended, however it ended.
+  metrics: StreamMetrics;
 };
 
-const getSnapshot = () => responseText;
+// A stream counts as stalled after this many heartbeat intervals with nothing received.
+const STALL_AFTER_HEARTBEATS = 2.5;
+const STALL_CHECK_INTERVAL_MS = 1000;
 
-const setResponse = (next: string) => {
-  responseText = next;
-  notify();
+type StreamState = {
+  status: StreamStatus;
+  // Milliseconds since anything (heartbeats included) arrived, once past the stall
+  // threshold; null while the connection looks healthy.
+  stalledForMs: number | null;
+  response: string;
+  metrics: StreamMetrics;
+  meta: MetaPayload | null;
+  usage: UsagePayload | null;
+  finishReason: FinishReason | null;
+  error: string | null;
+  errorDetails: ErrorPayload | null;
 };
 
-const appendResponse = (next: string) => {
-  responseText += next;
-  notify();
+type UseSseStreamOptions = {
+  // Receives each text delta as it arrives, e.g. to feed a render queue, with the index
+  // of the candidate it belongs to (always 0 unless the request asked for several).
+  onDelta?: (text: string, candidate: number) => void;
+  // Receives every protocol frame.
+  onEvent?: (event: StreamEvent) => void;
 };
 
-const stopStream = () => {
-  if (eventSource) {
-    eventSource.close();
-    eventSource = null;
-  }
+const initialState: StreamState = {
+  status: 'idle',
+  stalledForMs: null,
+  response: '',
+  metrics: { ttftMs: null, totalMs: null, tokensPerSec: null, chunks: 0, bytes: 0 },
+  meta: null,
+  usage: null,
+  finishReason: null,
+  error: null,
+  errorDetails: null,
 };
 
-const startStream = (prompt: string, callbacks: StreamCallbacks = {}) => {
-  stopStream();
-  setResponse('');
+const getTokensPerSec = (usage: UsagePayload | null, generatingMs: number) =>
+  usage && usage.completionTokens > 0 && generatingMs > 0 ? usage.completionTokens / (generatingMs / 1000) : null;
+
+export const isStreamActive = (status: StreamStatus) => status === 'connecting' || status === 'streaming';
+
+// Each component calling the hook owns its own stream, so several can run side by side.
+export const useSseStream = (options: UseSseStreamOptions = {}) => {
+  const [state, setState] = useState<StreamState>(initialState);
+  const abortRef = useRef<AbortController | null>(null);
+  // Bumped by every start/reset so a superseded stream can no longer touch state.
+  const runIdRef = useRef(0);
+
+  // Latest callbacks, read from inside the running stream without restarting it.
+  const optionsRef = useRef(options);
+  useEffect(() => {
+    optionsRef.current = options;
+  });
+
+  const stopStream = useCallback(() => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+  }, []);
+
+  // Leaving the page only disconnects: the generation stays resumable and keeps
+  // running for anyone watching it. Only stopStream (the user's Stop) cancels it.
+  useEffect(
+    () => () => {
+      abortRef.current?.abort(new StreamDisconnected());
+      abortRef.current = null;
+    },
+    []
+  );
+
+  const setResponse = useCallback((response: string) => {
+    setState((prev) => ({ ...prev, response }));
+  }, []);
+
+  const appendResponse = useCallback((text: string) => {
+    setState((prev) => ({ ...prev, response: prev.response + text }));
+  }, []);
 
-  let sawFirstToken = false;
-  const url = `/api/events?prompt=${encodeURIComponent(prompt)}`;
-  eventSource = new EventSource(url);
+  const reset = useCallback(() => {
+    stopStream();
+    runIdRef.current += 1;
+    setState(initialState);
+  }, [stopStream]);
 
-  eventSource.onmessage = (event) => {
-    const dataStr = event.data;
-    if (dataStr === '[DONE]') {
+  const startStream = useCallback(
+    async (request: StreamRequest): Promise<StreamOutcome> => {
       stopStream();
-      callbacks.onDone?.();
-      return;
-    }
-
-    try {
-      const { text } = JSON.parse(dataStr) as { text: string };
-      if (text) {
-        if (!sawFirstToken) {
-          sawFirstToken = true;
-          callbacks.onFirstToken?.();
+
+      const runId = ++runIdRef.current;
+      const isCurrent = () => runIdRef.current === runId;
+      const controller = new AbortController();
+      abortRef.current = controller;
+
+      const startedAt = Date.now();
+      let requestId: string | null = null;
+      let usage: UsagePayload | null = null;
+      let ttftMs: number | null = null;
+      let chunks = 0;
+      let bytes = 0;
+      const metricsAt = (totalMs: number | null): StreamMetrics => ({
+        ttftMs,
+        totalMs,
+        tokensPerSec: totalMs === null ? null : getTokensPerSec(usage, totalMs - (ttftMs ?? 0)),
+        chunks,
+        bytes,
+      });
+      setState({ ...initialState, status: 'connecting' });
+
+      // Missed-heartbeat watchdog; the interval comes from the server's meta frame.
+      let lastActivityAt = Date.now();
+      let heartbeatMs = 0;
+      const stallTimer = window.setInterval(() => {
+        if (!isCurrent() || heartbeatMs <= 0) {
+          return;
         }
-        appendResponse(text);
-      }
-    } catch {
-      // Ignore malformed JSON chunk
-    }
-  };
 
-  eventSource.onerror = () => {
-    stopStream();
-    callbacks.onError?.();
-  };
-};
+        const silentForMs = Date.now() - lastActivityAt;
+        const stalledForMs = silentForMs > heartbeatMs * STALL_AFTER_HEARTBEATS ? silentForMs : null;
+        setState((prev) => (prev.stalledForMs === stalledForMs ? prev : { ...prev, stalledForMs }));
+      }, STALL_CHECK_INTERVAL_MS);
+
+      const handlers = {
+        onBytes: (byteLength: number) => {
+          bytes += byteLength;
+        },
+        onActivity: () => {
+          lastActivityAt = Date.now();
+          if (isCurrent()) {
+            setState((prev) => (prev.stalledForMs === null ? prev : { ...prev, stalledForMs: null }));
+          }
+        },
+        onEvent: (event: StreamEvent) => {
+          if (!isCurrent()) {
+            return;
+          }
+
+          optionsRef.current.onEvent?.(event);
+
+          switch (event.event) {
+            case 'meta':
+              heartbeatMs = event.data.heartbeatMs ?? 0;
+              requestId = event.data.requestId ?? null;
+              setState((prev) => ({ ...prev, meta: event.data }));
+              break;
+            case 'delta': {
+              const { text, candidate = 0 } = event.data;
+              if (!text) {
+                break;
+              }
 
-export const useSseStream = () => {
-  const response = useSyncExternalStore(subscribe, getSnapshot);
+              ttftMs ??= Date.now() - startedAt;
+              chunks += 1;
+              optionsRef.current.onDelta?.(text, candidate);
+              // Byte counts only reach the UI with deltas, to avoid a render per network read.
+              const metrics = metricsAt(null);
+              setState((prev) => ({ ...prev, status: 'streaming', response: prev.response + text, metrics }));
+              break;
+            }
+            case 'snapshot':
+              // A viewer joining late: everything so far in one frame, instead of deltas.
+              heartbeatMs = event.data.meta.heartbeatMs ?? 0;
+              requestId = event.data.meta.requestId ?? null;
+              ttftMs ??= Date.now() - startedAt;
+              setState((prev) => ({ ...prev, status: 'streaming', meta: event.data.meta, response: event.data.text }));
+              break;
+            case 'usage':
+              usage = event.data;
+              setState((prev) => ({ ...prev, usage: event.data }));
+              break;
+            default:
+              // done/error settle the transport promise and are handled below;
+              // heartbeats only count as activity.
+              break;
+          }
+        },
+      };
+
+      let outcome: StreamOutcome;
+      try {
+        const { finishReason } =
+          request.transport === 'eventsource'
+            ? await streamViaEventSource(
+                await withStreamTicket(request.url, controller.signal),
+                handlers,
+                controller.signal,
+                { cancelOnAbort: !request.watch }
+              )
+            : request.transport === 'websocket'
+              ? await streamViaWebSocket(request.message, handlers, controller.signal)
+              : await streamViaFetch(request.url, request.body, handlers, controller.signal);
+
+        outcome = {
+          status: finishReason === 'cancelled' ? 'aborted' : 'done',
+          finishReason,
+          error: null,
+          requestId,
+          metrics: metricsAt(Date.now() - startedAt),
+        };
+        if (isCurrent()) {
+          setState((prev) => ({ ...prev, status: outcome.status, finishReason, metrics: outcome.metrics }));
+        }
+      } catch (error) {
+        if (error instanceof StreamFailedError && error.requestId) {
+          requestId = error.requestId;
+        }
+
+        const metrics = metricsAt(Date.now() - startedAt);
+        if (isAbortError(error)) {
+          outcome = { status: 'aborted', finishReason: null, error: null, requestId, metrics };
+        } else {
+          const message = error instanceof Error ? error.message : 'Connection interrupted';
+          outcome = { status: 'error', finishReason: null, error: message, requestId, metrics };
+        }
+
+        if (isCurrent()) {
+          const details = error instanceof StreamFailedError ? error.details : null;
+          setState((prev) => ({ ...prev, status: outcome.status, error: outcome.error, errorDetails: details }));
+        }
+      } finally {
+        window.clearInterval(stallTimer);
+        if (isCurrent()) {
+          setState((prev) => (prev.stalledForMs === null ? prev : { ...prev, stalledForMs: null }));
+        }
+        if (abortRef.current === controller) {
+          abortRef.current = null;
+        }
+      }
 
-  useEffect(() => () => stopStream(), []);
+      return outcome;
+    },
+    [stopStream]
+  );
 
   return {
-    response,
+    ...state,
+    isActive: isStreamActive(state.status),
     startStream,
     stopStream,
     appendResponse,
     setResponse,
+    reset,
   };
 };
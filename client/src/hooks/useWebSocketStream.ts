@@ -0,0 +1,33 @@
+import { useCallback } from 'react';
+import { useSseStream } from './useSseStream';
+import type { StreamOutcome, StreamRequest } from './useSseStream';
+
+type UseWebSocketStreamOptions = Parameters<typeof useSseStream>[0];
+
+// Same interface as useSseStream, over the shared WebSocket: `startStream` takes the
+// request a page would POST to /api/stream, so a page can swap hooks behind a toggle.
+// Adds `steer`, which interrupts the current reply with a follow-up message.
+export const useWebSocketStream = (options: UseWebSocketStreamOptions = {}) => {
+  const stream = useSseStream(options);
+  const { startStream: startSocketStream, meta } = stream;
+  const generationId = meta?.generationId ?? null;
+
+  const startStream = useCallback(
+    (request: Extract<StreamRequest, { transport: 'fetch' }>) =>
+      startSocketStream({ transport: 'websocket', message: { type: 'start', request: request.body as Record<string, unknown> } }),
+    [startSocketStream]
+  );
+
+  // The server cancels the current generation and continues the same history with
+  // the reply so far plus `content` as the next user turn. Null when nothing has
+  // started yet to steer.
+  const steer = useCallback(
+    (content: string): Promise<StreamOutcome> | null =>
+      generationId
+        ? startSocketStream({ transport: 'websocket', message: { type: 'steer', generationId, content } })
+        : null,
+    [generationId, startSocketStream]
+  );
+
+  return { ...stream, startStream, steer };
+};
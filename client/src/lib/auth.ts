@@ -0,0 +1,21 @@
+// API key for the chat endpoints. Entered in the nav bar and kept in localStorage;
+// VITE_API_KEY is a fallback for local setups. Requests go out unauthenticated when
+// neither is set, which works while the server has no keys configured.
+
+const STORAGE_KEY = 'apiKey';
+
+export const getApiKey = (): string | null =>
+  window.localStorage.getItem(STORAGE_KEY) || (import.meta.env.VITE_API_KEY as string | undefined) || null;
+
+export const setApiKey = (key: string) => {
+  if (key) {
+    window.localStorage.setItem(STORAGE_KEY, key);
+  } else {
+    window.localStorage.removeItem(STORAGE_KEY);
+  }
+};
+
+export const authHeaders = (): Record<string, string> => {
+  const key = getApiKey();
+  return key ? { Authorization: `Bearer ${key}` } : {};
+};
@@ -0,0 +1,22 @@
+import type { FinishReason } from './protocol';
+
+// One of several candidate replies to the same prompt (requests with n > 1), as the
+// page shows it. Timings are from sending the request to the candidate's first delta
+// and to its candidate_done frame.
+export type CandidateView = {
+  content: string;
+  finishReason: FinishReason | null;
+  ttftMs: number | null;
+  totalMs: number | null;
+  // Delta frames received.
+  chunks: number;
+};
+
+export const emptyCandidates = (n: number): CandidateView[] =>
+  Array.from({ length: n }, () => ({ content: '', finishReason: null, ttftMs: null, totalMs: null, chunks: 0 }));
+
+export const updateCandidate = (
+  candidates: CandidateView[],
+  index: number,
+  update: (candidate: CandidateView) => Partial<CandidateView>
+) => candidates.map((candidate, i) => (i === index ? { ...candidate, ...update(candidate) } : candidate));
@@ -0,0 +1,45 @@
+import { authHeaders } from './auth';
+import type { Conversation, ConversationListResponse, ConversationMessage, ConversationSummary } from './protocol';
+
+// Client for the saved-conversation routes. Every call throws an Error carrying the
+// server's message when the request fails.
+
+const request = async <T>(url: string, init: RequestInit = {}): Promise<T> => {
+  const res = await fetch(url, {
+    ...init,
+    headers: { ...authHeaders(), ...(init.body ? { 'Content-Type': 'application/json' } : {}), ...init.headers },
+  });
+
+  if (!res.ok) {
+    const body = (await res.json().catch(() => null)) as { error?: string; message?: string } | null;
+    throw new Error(body?.message ?? body?.error ?? `HTTP ${res.status}`);
+  }
+
+  return (res.status === 204 ? undefined : await res.json()) as T;
+};
+
+export const listConversations = async (signal?: AbortSignal) =>
+  (await request<ConversationListResponse>('/api/conversations', { signal })).conversations;
+
+export const getConversation = (id: string, signal?: AbortSignal) =>
+  request<Conversation>(`/api/conversations/${encodeURIComponent(id)}`, { signal });
+
+export const createConversation = (title = '') =>
+  request<Conversation>('/api/conversations', { method: 'POST', body: JSON.stringify({ title }) });
+
+export const renameConversation = (id: string, title: string) =>
+  request<ConversationSummary>(`/api/conversations/${encodeURIComponent(id)}`, {
+    method: 'PATCH',
+    body: JSON.stringify({ title }),
+  });
+
+export const deleteConversation = (id: string) =>
+  request<void>(`/api/conversations/${encodeURIComponent(id)}`, { method: 'DELETE' });
+
+// For turns the chat endpoints do not save themselves, such as the accepted one of
+// several candidate replies.
+export const appendMessage = (id: string, message: Pick<ConversationMessage, 'role' | 'content'>) =>
+  request<ConversationMessage>(`/api/conversations/${encodeURIComponent(id)}/messages`, {
+    method: 'POST',
+    body: JSON.stringify(message),
+  });
@@ -0,0 +1,21 @@
+// CSV export for tables shown in the pages (RFC 4180 quoting, CRLF line endings).
+
+export type CsvValue = string | number | boolean | null | undefined;
+
+const escapeCell = (value: CsvValue) => {
+  const text = value == null ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (header: string[], rows: CsvValue[][]) =>
+  [header, ...rows].map((row) => row.map(escapeCell).join(',')).join('\r\n');
+
+// Saves `csv` through a temporary download link.
+export const downloadCsv = (filename: string, csv: string) => {
+  const url = URL.createObjectURL(new Blob([csv], { type: 'text/csv;charset=utf-8' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
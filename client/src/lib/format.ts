@@ -0,0 +1,27 @@
+import type { UsagePayload } from './protocol';
+
+// Display helpers for the metrics panels; '—' stands in for values not known yet.
+
+export const formatTokens = (usage: UsagePayload | null) =>
+  usage ? `${usage.totalTokens} (${usage.promptTokens} in / ${usage.completionTokens} out)` : '—';
+
+export const formatTokensPerSec = (tokensPerSec: number | null) =>
+  tokensPerSec == null ? '—' : `${tokensPerSec.toFixed(1)} tok/s`;
+
+// Sub-cent costs are common, so small amounts keep more digits.
+export const formatCost = (usage: UsagePayload | null) => {
+  if (!usage || usage.costUsd == null) {
+    return '—';
+  }
+
+  return usage.costUsd < 0.01 ? `$${usage.costUsd.toFixed(5)}` : `$${usage.costUsd.toFixed(4)}`;
+};
+
+export const formatMs = (ms: number | null) => (ms == null ? '—' : `${ms} ms`);
+
+export const formatBytes = (bytes: number | null) => {
+  if (bytes == null) {
+    return '—';
+  }
+  return bytes < 1024 ? `${bytes} B` : `${(bytes / 1024).toFixed(1)} KB`;
+};
@@ -0,0 +1,214 @@
+// Lightweight syntax highlighting for fenced code in replies: a handful of regex
+// grammars, tried in order at each position. It only has to look right, not parse
+// correctly, and it must cope with code that is cut off mid-token while streaming
+// (unterminated strings and comments run to the end of the line or text).
+
+export type TokenKind = 'comment' | 'string' | 'keyword' | 'literal' | 'number' | 'function' | 'type' | 'property';
+
+export type HighlightToken = {
+  kind: TokenKind | null;
+  text: string;
+};
+
+type Rule = [TokenKind, RegExp];
+
+const words = (list: string, flags = 'y') => new RegExp(`\\b(?:${list.split(' ').join('|')})\\b`, flags);
+
+const NUMBER: Rule = ['number', /\b(?:0x[\da-f]+|\d[\d_]*(?:\.\d+)?(?:e[+-]?\d+)?)\b/iy];
+const DOUBLE_QUOTED: Rule = ['string', /"(?:\\.|[^"\\\n])*"?/y];
+const SINGLE_QUOTED: Rule = ['string', /'(?:\\.|[^'\\\n])*'?/y];
+const SLASH_COMMENT: Rule = ['comment', /\/\/.*/y];
+const BLOCK_COMMENT: Rule = ['comment', /\/\*[\s\S]*?(?:\*\/|$)/y];
+const HASH_COMMENT: Rule = ['comment', /#.*/y];
+const CALL: Rule = ['function', /\b[A-Za-z_$][\w$]*(?=\s*\()/y];
+const PASCAL_CASE: Rule = ['type', /\b[A-Z][A-Za-z0-9_]*\b/y];
+
+const javascript: Rule[] = [
+  SLASH_COMMENT,
+  BLOCK_COMMENT,
+  DOUBLE_QUOTED,
+  SINGLE_QUOTED,
+  ['string', /`(?:\\.|[^`\\])*`?/y],
+  [
+    'keyword',
+    words(
+      'as async await break case catch class const continue default delete do else export extends finally for from function if import in instanceof interface let new of return static switch throw try type typeof var void while yield'
+    ),
+  ],
+  ['literal', words('true false null undefined this NaN Infinity')],
+  NUMBER,
+  CALL,
+  PASCAL_CASE,
+];
+
+const python: Rule[] = [
+  HASH_COMMENT,
+  ['string', /(?:[rbfu]{0,2})("""|''')[\s\S]*?(?:\1|$)/iy],
+  DOUBLE_QUOTED,
+  SINGLE_QUOTED,
+  [
+    'keyword',
+    words(
+      'and as assert async await break class continue def del elif else except finally for from global if import in is lambda nonlocal not or pass raise return try while with yield match case'
+    ),
+  ],
+  ['literal', words('True False None self')],
+  NUMBER,
+  ['function', /@[\w.]+/y],
+  CALL,
+  PASCAL_CASE,
+];
+
+const json: Rule[] = [
+  ['property', /"(?:\\.|[^"\\\n])*"(?=\s*:)/y],
+  DOUBLE_QUOTED,
+  ['literal', words('true false null')],
+  ['number', /-?\d+(?:\.\d+)?(?:e[+-]?\d+)?/iy],
+];
+
+const shell: Rule[] = [
+  HASH_COMMENT,
+  DOUBLE_QUOTED,
+  SINGLE_QUOTED,
+  ['property', /\$\{?[\w@#?*!-]+\}?/y],
+  [
+    'keyword',
+    words('if then else elif fi for while until do done case esac function in return export local sudo'),
+  ],
+  ['function', /(?<=^|[|;&]\s*|\$\(\s*)[\w./-]+/my],
+  ['literal', /\s--?[\w-]+/y],
+];
+
+const css: Rule[] = [
+  BLOCK_COMMENT,
+  DOUBLE_QUOTED,
+  SINGLE_QUOTED,
+  ['property', /[\w-]+(?=\s*:)/y],
+  ['number', /-?\d*\.?\d+(?:px|em|rem|%|vh|vw|s|ms|deg|fr)?/y],
+  ['literal', /#[\da-f]{3,8}\b/iy],
+  ['keyword', /@[\w-]+|!important/y],
+  ['type', /[.#][\w-]+/y],
+];
+
+const sql: Rule[] = [
+  ['comment', /--.*/y],
+  BLOCK_COMMENT,
+  SINGLE_QUOTED,
+  [
+    'keyword',
+    words(
+      'select from where and or not insert into values update set delete create table index view drop alter add join left right inner outer full on as group by order having limit offset distinct union all case when then else end primary key foreign references default null is in like between exists returning with',
+      'iy'
+    ),
+  ],
+  NUMBER,
+  CALL,
+];
+
+const markup: Rule[] = [
+  ['comment', /<!--[\s\S]*?(?:-->|$)/y],
+  ['keyword', /<\/?[\w:-]+|\/?>/y],
+  ['property', /\b[\w:-]+(?==)/y],
+  DOUBLE_QUOTED,
+  SINGLE_QUOTED,
+];
+
+// C, Java, Go, Rust and friends look alike enough to share one grammar.
+const clike: Rule[] = [
+  SLASH_COMMENT,
+  BLOCK_COMMENT,
+  DOUBLE_QUOTED,
+  ['string', /'(?:\\.|[^'\\\n])'?/y],
+  ['keyword', /#\w+/y],
+  [
+    'keyword',
+    words(
+      'auto break case catch char class const continue default do double else enum extends final float fn for func go if impl implements import int interface let long match mod mut namespace new package private protected pub public return short static struct super switch template this throw throws try typedef union unsigned use var void volatile where while'
+    ),
+  ],
+  ['literal', words('true false null nil None Some Ok Err self')],
+  NUMBER,
+  CALL,
+  PASCAL_CASE,
+];
+
+const GRAMMARS: Record<string, Rule[]> = {
+  js: javascript,
+  jsx: javascript,
+  ts: javascript,
+  tsx: javascript,
+  javascript,
+  typescript: javascript,
+  py: python,
+  python,
+  json,
+  jsonc: json,
+  sh: shell,
+  bash: shell,
+  zsh: shell,
+  shell,
+  console: shell,
+  css,
+  scss: css,
+  sql,
+  html: markup,
+  xml: markup,
+  svg: markup,
+  vue: markup,
+  c: clike,
+  cpp: clike,
+  'c++': clike,
+  cs: clike,
+  csharp: clike,
+  java: clike,
+  kotlin: clike,
+  go: clike,
+  rust: clike,
+  rs: clike,
+  swift: clike,
+  php: clike,
+};
+
+// Splits `code` into tokens; unknown languages come back as one plain token.
+export const highlight = (code: string, lang: string): HighlightToken[] => {
+  const rules = Object.hasOwn(GRAMMARS, lang) ? GRAMMARS[lang] : null;
+  if (!rules) {
+    return [{ kind: null, text: code }];
+  }
+
+  const tokens: HighlightToken[] = [];
+  let plain = '';
+  let index = 0;
+
+  while (index < code.length) {
+    let matched: HighlightToken | null = null;
+    for (const [kind, pattern] of rules) {
+      pattern.lastIndex = index;
+      const match = pattern.exec(code);
+      if (match && match[0].length > 0) {
+        matched = { kind, text: match[0] };
+        break;
+      }
+    }
+
+    if (!matched) {
+      // Identifiers are consumed whole so keywords never match inside them.
+      const word = /^[\w$]+/.exec(code.slice(index, index + 64));
+      plain += word ? word[0] : code[index];
+      index += word ? word[0].length : 1;
+      continue;
+    }
+
+    if (plain) {
+      tokens.push({ kind: null, text: plain });
+      plain = '';
+    }
+    tokens.push(matched);
+    index += matched.text.length;
+  }
+
+  if (plain) {
+    tokens.push({ kind: null, text: plain });
+  }
+  return tokens;
+};
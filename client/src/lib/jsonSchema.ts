@@ -0,0 +1,129 @@
+export type JsonSchema = {
+  type?: string | string[];
+  enum?: unknown[];
+  const?: unknown;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  minimum?: number;
+  maximum?: number;
+};
+
+// A value that does not fit its schema; `path` is `$` for the root, then `.key` and `[n]`.
+export type SchemaProblem = {
+  path: string;
+  message: string;
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const TYPE_CHECKS: Record<string, (value: unknown) => boolean> = {
+  object: isObject,
+  array: Array.isArray,
+  string: (value) => typeof value === 'string',
+  number: (value) => typeof value === 'number' && Number.isFinite(value),
+  integer: (value) => Number.isInteger(value),
+  boolean: (value) => typeof value === 'boolean',
+  null: (value) => value === null,
+};
+
+export const childPath = (path: string, key: string | number) => {
+  if (typeof key === 'number') {
+    return `${path}[${key}]`;
+  }
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? `${path}.${key}` : `${path}[${JSON.stringify(key)}]`;
+};
+
+// A pattern that is not a valid regular expression matches everything, like an
+// unknown keyword.
+const matches = (pattern: string, value: string) => {
+  try {
+    return new RegExp(pattern, 'u').test(value);
+  } catch {
+    return true;
+  }
+};
+
+const isEqual = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+// Checks `value` against the keywords above, the ones structured output schemas use;
+// anything else in the schema is ignored. Returns every problem found, not just the first.
+export const validateJson = (schema: JsonSchema, value: unknown, path = '$'): SchemaProblem[] => {
+  const problems: SchemaProblem[] = [];
+  const report = (message: string) => problems.push({ path, message });
+
+  const types = schema.type === undefined ? [] : [schema.type].flat();
+  if (types.length > 0 && !types.some((type) => TYPE_CHECKS[type]?.(value))) {
+    report(`must be ${types.join(' or ')}`);
+    return problems;
+  }
+
+  if (schema.enum && !schema.enum.some((option) => isEqual(option, value))) {
+    report(`must be one of ${schema.enum.map((option) => JSON.stringify(option)).join(', ')}`);
+  }
+  if (schema.const !== undefined && !isEqual(schema.const, value)) {
+    report(`must be ${JSON.stringify(schema.const)}`);
+  }
+
+  if (typeof value === 'string') {
+    const length = Array.from(value).length;
+    if (schema.minLength !== undefined && length < schema.minLength) {
+      report(`must be at least ${schema.minLength} characters`);
+    }
+    if (schema.maxLength !== undefined && length > schema.maxLength) {
+      report(`must be at most ${schema.maxLength} characters`);
+    }
+    if (schema.pattern !== undefined && !matches(schema.pattern, value)) {
+      report(`must match ${schema.pattern}`);
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      report(`must be at least ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      report(`must be at most ${schema.maximum}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      report(`must have at least ${schema.minItems} items`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      report(`must have at most ${schema.maxItems} items`);
+    }
+    const { items } = schema;
+    if (items) {
+      value.forEach((item, index) => problems.push(...validateJson(items, item, childPath(path, index))));
+    }
+  }
+
+  if (isObject(value)) {
+    const properties = schema.properties ?? {};
+    for (const name of schema.required ?? []) {
+      if (!Object.hasOwn(value, name)) {
+        problems.push({ path: childPath(path, name), message: 'is required' });
+      }
+    }
+
+    for (const [name, property] of Object.entries(value)) {
+      const propertySchema = Object.hasOwn(properties, name) ? properties[name] : schema.additionalProperties;
+      if (propertySchema === false) {
+        problems.push({ path: childPath(path, name), message: 'is not allowed' });
+      } else if (isObject(propertySchema)) {
+        problems.push(...validateJson(propertySchema, property, childPath(path, name)));
+      }
+    }
+  }
+
+  return problems;
+};
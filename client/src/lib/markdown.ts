@@ -0,0 +1,536 @@
+// A small Markdown parser for model replies, built to be re-run on every render tick
+// while text streams in. It covers what models actually write: ATX headings, fenced
+// code, block quotes, (nested) lists, GFM tables, rules, emphasis, strikethrough,
+// inline code and links.
+//
+// Parsing is split in two so streaming stays cheap:
+//   - `parseMarkdown` finds block boundaries with a line scan. Every block keeps its
+//     `source`, so blocks that are already complete compare equal from tick to tick
+//     and the renderer can skip them.
+//   - `parseInline` runs per block, when the block's text changed.
+//   - `createStreamingParser` keeps the blocks that appending more text can no longer
+//     change, so each tick only scans the text from the last of those onward.
+// With `streaming` set, the unfinished tail is read the way it will most likely end:
+// an unclosed fence is code, a table header waiting for its delimiter row is a table,
+// and unclosed `**`/`` ` `` markers run to the end. That keeps the layout from
+// jumping when the closing characters arrive.
+//
+// There is no raw HTML: tags in the text stay text, and links are limited to
+// http(s) and mailto URLs (see `safeHref`).
+
+export type InlineNode =
+  | { type: 'text'; text: string }
+  | { type: 'code'; text: string }
+  | { type: 'strong' | 'em' | 'del'; children: InlineNode[] }
+  | { type: 'link'; href: string; children: InlineNode[] }
+  | { type: 'break' };
+
+export type TableAlign = 'left' | 'center' | 'right' | null;
+
+export type BlockNode = { source: string } & (
+  | { type: 'heading'; level: number; text: string }
+  | { type: 'paragraph'; text: string }
+  // `closed` is false while the closing fence has not arrived yet.
+  | { type: 'code'; lang: string; code: string; closed: boolean }
+  | { type: 'quote'; children: BlockNode[] }
+  | { type: 'list'; ordered: boolean; start: number; items: BlockNode[][] }
+  | { type: 'table'; align: TableAlign[]; header: string[]; rows: string[][] }
+  | { type: 'rule' }
+);
+
+type ParseOptions = {
+  // The text is still arriving; the last block may be cut off anywhere.
+  streaming?: boolean;
+};
+
+const FENCE = /^ {0,3}(`{3,}|~{3,})\s*([^`\s]*)/;
+// While streaming, a line that could still grow into a fence is held back.
+const PARTIAL_FENCE = /^ {0,3}(`{1,2}|~{1,2})$/;
+const HEADING = /^ {0,3}(#{1,6})(?:\s+(.*?))?(?:\s+#+)?\s*$/;
+const RULE = /^ {0,3}([-*_])(?:\s*\1){2,}\s*$/;
+const QUOTE = /^ {0,3}>\s?(.*)$/;
+const LIST_ITEM = /^( *)([-*+]|\d{1,9}[.)])(?:(\s+)(.*))?$/;
+const TABLE_DELIMITER = /^\s*\|?\s*:?-+:?\s*(?:\|\s*:?-+:?\s*)*\|?\s*$/;
+// A delimiter row that is still being written, e.g. `| --- | :-`.
+const PARTIAL_TABLE_DELIMITER = /^\s*\|?[\s:|-]*$/;
+
+const isBlank = (line: string) => line.trim() === '';
+
+// Cells of a table row, without the optional outer pipes; `\|` is a literal pipe.
+export const splitTableRow = (line: string) => {
+  const cells = line
+    .trim()
+    .replace(/^\|/, '')
+    .replace(/(?<!\\)\|$/, '')
+    .split(/(?<!\\)\|/);
+  return cells.map((cell) => cell.trim().replace(/\\\|/g, '|'));
+};
+
+const readAlign = (cell: string): TableAlign => {
+  const left = cell.startsWith(':');
+  const right = cell.endsWith(':');
+  return left && right ? 'center' : right ? 'right' : left ? 'left' : null;
+};
+
+// GFM: the delimiter row must have as many cells as the header.
+const isDelimiterRow = (header: string, line: string | undefined) =>
+  line !== undefined && TABLE_DELIMITER.test(line) && splitTableRow(line).length === splitTableRow(header).length;
+
+const isTableStart = (lines: string[], index: number, streaming: boolean) => {
+  const line = lines[index];
+  if (!line.includes('|')) {
+    return false;
+  }
+
+  const next = lines[index + 1];
+  if (isDelimiterRow(line, next)) {
+    return true;
+  }
+
+  // The header row is in but its delimiter row is not (or only partly): render the
+  // table now rather than flash the header as a paragraph.
+  const isLast = next === undefined || index + 2 === lines.length;
+  return (
+    streaming && isLast && line.trim().startsWith('|') && (next === undefined || PARTIAL_TABLE_DELIMITER.test(next))
+  );
+};
+
+// Lines that end a paragraph because they start a block of their own.
+const startsBlock = (lines: string[], index: number, streaming: boolean) => {
+  const line = lines[index];
+  return (
+    FENCE.test(line) ||
+    HEADING.test(line) ||
+    RULE.test(line) ||
+    QUOTE.test(line) ||
+    LIST_ITEM.test(line) ||
+    isTableStart(lines, index, streaming)
+  );
+};
+
+const indentOf = (line: string) => line.length - line.trimStart().length;
+
+// `starts`, when given, receives the line each block starts at.
+const parseBlocks = (lines: string[], streaming: boolean, starts?: number[]): BlockNode[] => {
+  const blocks: BlockNode[] = [];
+  let index = 0;
+
+  const take = (start: number) => {
+    starts?.push(start);
+    return lines.slice(start, index).join('\n');
+  };
+
+  while (index < lines.length) {
+    const start = index;
+    const line = lines[index];
+
+    if (isBlank(line)) {
+      index += 1;
+      continue;
+    }
+
+    if (streaming && index === lines.length - 1 && PARTIAL_FENCE.test(line)) {
+      break;
+    }
+
+    const fence = FENCE.exec(line);
+    if (fence) {
+      const [, marker, lang] = fence;
+      const closing = new RegExp(`^ {0,3}${marker[0] === '`' ? '`' : '~'}{${marker.length},}\\s*$`);
+      const code: string[] = [];
+      let closed = false;
+      index += 1;
+      while (index < lines.length) {
+        const current = lines[index];
+        index += 1;
+        if (closing.test(current)) {
+          closed = true;
+          break;
+        }
+        code.push(current);
+      }
+      blocks.push({ type: 'code', lang: lang.toLowerCase(), code: code.join('\n'), closed, source: take(start) });
+      continue;
+    }
+
+    const heading = HEADING.exec(line);
+    if (heading) {
+      index += 1;
+      blocks.push({ type: 'heading', level: heading[1].length, text: heading[2] ?? '', source: take(start) });
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      index += 1;
+      blocks.push({ type: 'rule', source: take(start) });
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const quoted: string[] = [];
+      while (index < lines.length && QUOTE.test(lines[index])) {
+        quoted.push(QUOTE.exec(lines[index])![1]);
+        index += 1;
+      }
+      blocks.push({ type: 'quote', children: parseBlocks(quoted, streaming), source: take(start) });
+      continue;
+    }
+
+    if (LIST_ITEM.test(line)) {
+      const { list, end } = parseList(lines, index, streaming);
+      index = end;
+      blocks.push({ ...list, source: take(start) });
+      continue;
+    }
+
+    if (isTableStart(lines, index, streaming)) {
+      const header = splitTableRow(line);
+      const delimiter = lines[index + 1];
+      const hasDelimiter = isDelimiterRow(line, delimiter);
+      const align = hasDelimiter ? splitTableRow(delimiter).map(readAlign) : header.map(() => null);
+      index += hasDelimiter ? 2 : Math.min(2, lines.length - index);
+
+      const rows: string[][] = [];
+      while (index < lines.length && !isBlank(lines[index]) && lines[index].includes('|')) {
+        // Missing cells are padded and extra ones dropped, so a half-written row
+        // already has the table's shape.
+        const cells = splitTableRow(lines[index]);
+        rows.push(header.map((_, column) => cells[column] ?? ''));
+        index += 1;
+      }
+      blocks.push({ type: 'table', align, header, rows, source: take(start) });
+      continue;
+    }
+
+    const paragraph = [line];
+    index += 1;
+    while (index < lines.length && !isBlank(lines[index]) && !startsBlock(lines, index, streaming)) {
+      paragraph.push(lines[index]);
+      index += 1;
+    }
+    blocks.push({ type: 'paragraph', text: paragraph.map((text) => text.trim()).join('\n'), source: take(start) });
+  }
+
+  return blocks;
+};
+
+// One list starting at `start`: items of the same kind at the same indent. Lines
+// indented past an item's marker belong to that item and are parsed as blocks of their
+// own, which is how nested lists come about.
+const parseList = (lines: string[], start: number, streaming: boolean) => {
+  const first = LIST_ITEM.exec(lines[start])!;
+  const baseIndent = first[1].length;
+  const ordered = /\d/.test(first[2]);
+  const items: string[][] = [];
+  // Column where the current item's text starts; deeper lines are cut back to it.
+  let contentIndent = 0;
+  let index = start;
+
+  while (index < lines.length) {
+    const line = lines[index];
+    const item = LIST_ITEM.exec(line);
+
+    if (item && item[1].length === baseIndent && /\d/.test(item[2]) === ordered) {
+      items.push([item[4] ?? '']);
+      contentIndent = baseIndent + item[2].length + (item[3]?.length ?? 1);
+      index += 1;
+      continue;
+    }
+
+    if (isBlank(line)) {
+      // A blank line only continues the list when the next line is still part of it.
+      const next = lines.slice(index + 1).find((candidate) => !isBlank(candidate));
+      const nextItem = next === undefined ? null : LIST_ITEM.exec(next);
+      const continues =
+        next !== undefined &&
+        (indentOf(next) > baseIndent ||
+          (nextItem !== null && nextItem[1].length === baseIndent && /\d/.test(nextItem[2]) === ordered));
+      if (!continues) {
+        break;
+      }
+      items[items.length - 1].push('');
+      index += 1;
+      continue;
+    }
+
+    if (indentOf(line) > baseIndent) {
+      // Continuation or nested content.
+      items[items.length - 1].push(line.slice(Math.min(indentOf(line), contentIndent)));
+      index += 1;
+      continue;
+    }
+
+    // Lazy continuation of the item's paragraph.
+    if (!startsBlock(lines, index, streaming) && !isBlank(items[items.length - 1].at(-1) ?? '')) {
+      items[items.length - 1].push(line);
+      index += 1;
+      continue;
+    }
+
+    break;
+  }
+
+  const list = {
+    type: 'list' as const,
+    ordered,
+    start: ordered ? Number.parseInt(first[2], 10) : 1,
+    items: items.map((content) => parseBlocks(content, streaming)),
+  };
+  return { list, end: index };
+};
+
+export const parseMarkdown = (source: string, { streaming = false }: ParseOptions = {}): BlockNode[] =>
+  parseBlocks(source.replace(/\r\n?/g, '\n').split('\n'), streaming);
+
+/*
+ * `parseMarkdown` for a text that keeps growing, as a streamed reply does: returns the
+ * same blocks, but only parses the text from the first block that could still change.
+ *
+ * How a block ends depends on the lines up to the next block's first line and the one
+ * after it (a table needs its delimiter row), so once both of those are complete lines
+ * the block is settled. Settled blocks are kept with the text they came from; a text
+ * that no longer starts with it, or a change of `streaming`, starts over.
+ */
+export const createStreamingParser = () => {
+  let settled: BlockNode[] = [];
+  // Normalized text of the settled blocks, through the line break before the next one.
+  let settledText = '';
+  let settledStreaming = false;
+
+  return (source: string, { streaming = false }: ParseOptions = {}): BlockNode[] => {
+    const text = source.replace(/\r\n?/g, '\n');
+    if (streaming !== settledStreaming || !text.startsWith(settledText)) {
+      settled = [];
+      settledText = '';
+      settledStreaming = streaming;
+    }
+
+    // The last line may still grow; every line before it is final.
+    const lines = text.slice(settledText.length).split('\n');
+    const starts: number[] = [];
+    const blocks = parseBlocks(lines, streaming, starts);
+
+    const result = [...settled, ...blocks];
+    let count = 0;
+    while (count + 1 < blocks.length && starts[count + 1] + 1 < lines.length - 1) {
+      count += 1;
+    }
+    if (count > 0) {
+      settled = [...settled, ...blocks.slice(0, count)];
+      settledText += lines
+        .slice(0, starts[count])
+        .map((line) => `${line}\n`)
+        .join('');
+    }
+    return result;
+  };
+};
+
+// Only links that cannot run script or point into the app are rendered as links.
+export const safeHref = (url: string) => {
+  const trimmed = url.trim();
+  return /^(https?:\/\/|mailto:)/i.test(trimmed) ? trimmed : null;
+};
+
+const ESCAPABLE = /[\\`*_{}[\]()#+\-.!|~<>]/;
+
+// Finds `delimiter` closing a span opened before `from`, skipping escapes and code
+// spans. Single `*`/`_` never match half of a `**`/`__`.
+const findCloser = (text: string, delimiter: string, from: number) => {
+  for (let index = from; index < text.length; index += 1) {
+    const char = text[index];
+    if (char === '\\') {
+      index += 1;
+      continue;
+    }
+
+    if (char === '`' && delimiter !== '`') {
+      const run = /^`+/.exec(text.slice(index))![0];
+      const end = text.indexOf(run, index + run.length);
+      if (end === -1) {
+        return -1;
+      }
+      index = end + run.length - 1;
+      continue;
+    }
+
+    if (!text.startsWith(delimiter, index)) {
+      continue;
+    }
+
+    if (delimiter.length === 1 && delimiter !== '`' && (text[index + 1] === char || text[index - 1] === char)) {
+      index += 1;
+      continue;
+    }
+
+    // Closers hug the text they close: `**bold**`, not `** bold **`.
+    if (delimiter !== '`' && /\s/.test(text[index - 1] ?? ' ')) {
+      continue;
+    }
+
+    return index;
+  }
+  return -1;
+};
+
+// Where the `]` matching the `[` at `from` is, or -1.
+const findLabelEnd = (text: string, from: number) => {
+  let depth = 0;
+  for (let index = from; index < text.length; index += 1) {
+    if (text[index] === '\\') {
+      index += 1;
+    } else if (text[index] === '[') {
+      depth += 1;
+    } else if (text[index] === ']') {
+      depth -= 1;
+      if (depth === 0) {
+        return index;
+      }
+    }
+  }
+  return -1;
+};
+
+const EMPHASIS: { delimiter: string; type: 'strong' | 'em' | 'del' }[] = [
+  { delimiter: '**', type: 'strong' },
+  { delimiter: '__', type: 'strong' },
+  { delimiter: '~~', type: 'del' },
+  { delimiter: '*', type: 'em' },
+  { delimiter: '_', type: 'em' },
+];
+
+/**
+ * Parses the inline content of one block. With `open` set (the block is still
+ * streaming), unclosed spans run to the end of the text and a link whose URL is still
+ * arriving shows just its label.
+ */
+export const parseInline = (text: string, { open = false }: { open?: boolean } = {}): InlineNode[] => {
+  const nodes: InlineNode[] = [];
+  let buffer = '';
+  let index = 0;
+
+  const pushText = (value: string) => {
+    buffer += value;
+  };
+  const flush = () => {
+    if (buffer) {
+      nodes.push({ type: 'text', text: buffer });
+      buffer = '';
+    }
+  };
+  const push = (node: InlineNode) => {
+    flush();
+    nodes.push(node);
+  };
+
+  while (index < text.length) {
+    const char = text[index];
+    const rest = text.slice(index);
+
+    if (char === '\\' && ESCAPABLE.test(text[index + 1] ?? '')) {
+      pushText(text[index + 1]);
+      index += 2;
+      continue;
+    }
+
+    if (char === '\n') {
+      push({ type: 'break' });
+      index += 1;
+      continue;
+    }
+
+    if (char === '`') {
+      const run = /^`+/.exec(rest)![0];
+      const end = text.indexOf(run, index + run.length);
+      if (end !== -1 || open) {
+        const code = text.slice(index + run.length, end === -1 ? undefined : end);
+        // One space of padding on both sides is stripped, as in `` `x` ``.
+        const padded = code.length > 2 && code.startsWith(' ') && code.endsWith(' ');
+        push({ type: 'code', text: padded ? code.slice(1, -1) : code });
+        index = end === -1 ? text.length : end + run.length;
+        continue;
+      }
+      pushText(run);
+      index += run.length;
+      continue;
+    }
+
+    if (char === '[' || (char === '!' && text[index + 1] === '[')) {
+      // Images render as links to them, so replies never load remote content.
+      const labelStart = char === '!' ? index + 1 : index;
+      const labelEnd = findLabelEnd(text, labelStart);
+      const label = text.slice(labelStart + 1, labelEnd === -1 ? undefined : labelEnd);
+      const urlMatch = labelEnd === -1 ? null : /^\(\s*([^\s()]*)(?:\s+"[^"]*")?\s*\)/.exec(text.slice(labelEnd + 1));
+
+      if (urlMatch) {
+        const href = safeHref(urlMatch[1]);
+        const children = parseInline(label || urlMatch[1]);
+        if (href) {
+          push({ type: 'link', href, children });
+        } else {
+          flush();
+          nodes.push(...children);
+        }
+        index = labelEnd + 1 + urlMatch[0].length;
+        continue;
+      }
+
+      // `[label` or `[label](https://exa` at the end of a streaming block.
+      const unfinished =
+        labelEnd === -1 || labelEnd === text.length - 1 || /^\([^)]*$/.test(text.slice(labelEnd + 1));
+      if (open && unfinished) {
+        flush();
+        nodes.push(...parseInline(label, { open }));
+        index = text.length;
+        continue;
+      }
+    }
+
+    if (char === '<') {
+      const autolink = /^<((?:https?:\/\/|mailto:)[^\s<>]+)>/i.exec(rest);
+      if (autolink) {
+        const label = autolink[1].replace(/^mailto:/i, '');
+        push({ type: 'link', href: autolink[1], children: [{ type: 'text', text: label }] });
+        index += autolink[0].length;
+        continue;
+      }
+    }
+
+    const emphasis = EMPHASIS.find(({ delimiter }) => rest.startsWith(delimiter));
+    if (emphasis) {
+      const { delimiter, type } = emphasis;
+      const after = text[index + delimiter.length];
+      const before = text[index - 1];
+      // Openers must hug their text, and `_` never opens inside a word (snake_case).
+      const canOpen =
+        after !== undefined &&
+        !/\s/.test(after) &&
+        !(delimiter[0] === '_' && before !== undefined && /\w/.test(before)) &&
+        !(delimiter.length === 1 && after === delimiter);
+      const end = canOpen ? findCloser(text, delimiter, index + delimiter.length + 1) : -1;
+
+      if (end !== -1 || (canOpen && open)) {
+        const inner = text.slice(index + delimiter.length, end === -1 ? undefined : end);
+        push({ type, children: parseInline(inner, { open: end === -1 }) });
+        index = end === -1 ? text.length : end + delimiter.length;
+        continue;
+      }
+
+      // A bare `*`, `**` or `~~` still arriving at the very end is held back.
+      if (open && index + delimiter.length === text.length) {
+        index = text.length;
+        continue;
+      }
+
+      pushText(delimiter);
+      index += delimiter.length;
+      continue;
+    }
+
+    pushText(char);
+    index += 1;
+  }
+
+  flush();
+  return nodes;
+};
@@ -0,0 +1,21 @@
+import type { GenerationParams } from './protocol';
+
+// What the pages send alongside the prompt. Unset fields fall back to the server's
+// defaults, so an empty object is always a valid choice.
+export type ModelSettings = Pick<GenerationParams, 'temperature' | 'max_tokens'> & {
+  provider?: string;
+  model?: string;
+  // Names of server tools the model may call (streaming endpoints only).
+  tools?: string[];
+  // Candidate replies to stream side by side (streaming endpoints only, not with tools).
+  n?: number;
+};
+
+// For GET /api/events, where everything travels on the query string (`tools` as a
+// comma-separated list).
+export const toQueryParams = (settings: ModelSettings): Record<string, string> =>
+  Object.fromEntries(
+    Object.entries(settings)
+      .filter(([, value]) => value !== undefined)
+      .map(([key, value]) => [key, String(value)])
+  );
@@ -0,0 +1,265 @@
+export type PartialJsonResult = {
+  // Best-effort value of the text so far; undefined until a value has started.
+  value: unknown;
+  // The text holds a whole JSON value (surrounding whitespace and code fence aside).
+  complete: boolean;
+  // Set once the text can no longer become valid JSON; `value` then holds what came
+  // before the problem.
+  error: string | null;
+};
+
+// Nothing usable was read, e.g. the text ends right after `[` or inside an object key.
+const MISSING = Symbol('missing');
+
+// Models told to answer in JSON still sometimes wrap it in a Markdown fence.
+const OPENING_FENCE = /^\s*```[\w-]*[ \t]*\n/;
+const CLOSING_FENCE = /^\s*`{1,3}\s*$/;
+
+const ESCAPES: Record<string, string> = { '"': '"', '\\': '\\', '/': '/', b: '\b', f: '\f', n: '\n', r: '\r', t: '\t' };
+
+const LITERALS: [string, unknown][] = [
+  ['true', true],
+  ['false', false],
+  ['null', null],
+];
+
+const NUMBER = /-?\d*(?:\.\d*)?(?:[eE][+-]?\d*)?/y;
+
+/*
+ * Parses JSON that may be cut off anywhere, as it is while a reply streams in: open
+ * strings, arrays and objects are closed, a half-received key or escape is dropped, and
+ * a started literal or number counts as what it is so far (`tr` reads as true, `1.` as
+ * 1). Reparses the whole text on every call, which stays cheap at reply sizes.
+ */
+export const parsePartialJson = (text: string): PartialJsonResult => {
+  const fence = OPENING_FENCE.exec(text);
+  if (!fence && /^\s*`/.test(text)) {
+    // The opening fence itself has not arrived in full.
+    return { value: undefined, complete: false, error: null };
+  }
+
+  let index = fence ? fence[0].length : 0;
+  let truncated = false;
+  let error: string | null = null;
+
+  const atEnd = () => {
+    if (index < text.length) {
+      return false;
+    }
+    truncated = true;
+    return true;
+  };
+
+  // Records the first problem and stops reading; callers return what they have.
+  const fail = (message: string) => {
+    error ??= `${message} at position ${index}`;
+    index = text.length;
+  };
+
+  const skipWhitespace = () => {
+    while (index < text.length && /\s/.test(text[index])) {
+      index += 1;
+    }
+  };
+
+  const parseString = (): { value: string; closed: boolean } => {
+    let value = '';
+    index += 1;
+
+    while (!atEnd()) {
+      const char = text[index];
+      if (char === '"') {
+        index += 1;
+        return { value, closed: true };
+      }
+      if (char !== '\\') {
+        value += char;
+        index += 1;
+        continue;
+      }
+
+      const escape = text[index + 1];
+      const hex = escape === 'u' ? text.slice(index + 2, index + 6) : '';
+      const cutOff = escape === undefined || (escape === 'u' && hex.length < 4 && /^[0-9a-fA-F]*$/.test(hex));
+      if (cutOff) {
+        index = text.length;
+        truncated = true;
+        break;
+      }
+      if (escape === 'u') {
+        if (!/^[0-9a-fA-F]{4}$/.test(hex)) {
+          fail('Invalid \\u escape');
+          break;
+        }
+        value += String.fromCharCode(parseInt(hex, 16));
+        index += 6;
+      } else if (ESCAPES[escape] !== undefined) {
+        value += ESCAPES[escape];
+        index += 2;
+      } else {
+        fail(`Invalid escape \\${escape}`);
+        break;
+      }
+    }
+
+    // Hold back half of a surrogate pair until the other half arrives.
+    return { value: value.replace(/[\uD800-\uDBFF]$/, ''), closed: false };
+  };
+
+  const parseNumber = (): unknown => {
+    NUMBER.lastIndex = index;
+    const token = NUMBER.exec(text)?.[0] ?? '';
+    index += token.length;
+
+    if (index >= text.length) {
+      // `4.` or `1e` is still being written, while `42` may well be the whole value;
+      // an enclosing array or object reports being cut off itself.
+      const digits = token.replace(/[-+.eE]+$/, '');
+      if (digits !== token) {
+        truncated = true;
+      }
+      return digits === '' || digits === '-' ? MISSING : Number(digits);
+    }
+
+    const value = Number(token);
+    if (token === '' || token === '-' || !Number.isFinite(value) || !/\d$/.test(token)) {
+      fail('Invalid number');
+      return MISSING;
+    }
+    return value;
+  };
+
+  const parseLiteral = (): unknown => {
+    const rest = text.slice(index, index + 5);
+    for (const [word, value] of LITERALS) {
+      if (rest.startsWith(word)) {
+        index += word.length;
+        return value;
+      }
+      if (index + rest.length === text.length && word.startsWith(rest)) {
+        index = text.length;
+        truncated = true;
+        return value;
+      }
+    }
+
+    fail(`Unexpected ${JSON.stringify(text[index])}`);
+    return MISSING;
+  };
+
+  const parseArray = (): unknown[] => {
+    const items: unknown[] = [];
+    index += 1;
+
+    for (;;) {
+      skipWhitespace();
+      if (atEnd()) {
+        return items;
+      }
+      if (text[index] === ']') {
+        index += 1;
+        return items;
+      }
+      if (items.length > 0) {
+        if (text[index] !== ',') {
+          fail('Expected , or ]');
+          return items;
+        }
+        index += 1;
+      }
+
+      const item = parseValue();
+      if (item === MISSING) {
+        return items;
+      }
+      items.push(item);
+    }
+  };
+
+  const parseObject = (): Record<string, unknown> => {
+    const object: Record<string, unknown> = {};
+    let first = true;
+    index += 1;
+
+    for (;;) {
+      skipWhitespace();
+      if (atEnd()) {
+        return object;
+      }
+      if (text[index] === '}') {
+        index += 1;
+        return object;
+      }
+      if (!first) {
+        if (text[index] !== ',') {
+          fail('Expected , or }');
+          return object;
+        }
+        index += 1;
+        skipWhitespace();
+        if (atEnd()) {
+          return object;
+        }
+      }
+      first = false;
+
+      if (text[index] !== '"') {
+        fail('Expected a property name');
+        return object;
+      }
+      const key = parseString();
+      skipWhitespace();
+      if (!key.closed || atEnd()) {
+        return object;
+      }
+      if (text[index] !== ':') {
+        fail('Expected :');
+        return object;
+      }
+      index += 1;
+
+      const value = parseValue();
+      if (value === MISSING) {
+        return object;
+      }
+      // Like JSON.parse, an own property even for "__proto__".
+      Object.defineProperty(object, key.value, { value, enumerable: true, writable: true, configurable: true });
+    }
+  };
+
+  const parseValue = (): unknown => {
+    skipWhitespace();
+    if (atEnd()) {
+      return MISSING;
+    }
+
+    const char = text[index];
+    if (char === '{') {
+      return parseObject();
+    }
+    if (char === '[') {
+      return parseArray();
+    }
+    if (char === '"') {
+      return parseString().value;
+    }
+    if (char === '-' || (char >= '0' && char <= '9')) {
+      return parseNumber();
+    }
+    return parseLiteral();
+  };
+
+  const value = parseValue();
+  if (error === null && index < text.length) {
+    const rest = text.slice(index);
+    if (!(fence && CLOSING_FENCE.test(rest)) && rest.trim() !== '') {
+      fail('Unexpected text after the JSON value');
+    }
+  }
+
+  return {
+    value: value === MISSING ? undefined : value,
+    complete: value !== MISSING && !truncated && error === null,
+    error,
+  };
+};
@@ -0,0 +1,67 @@
+import type { StreamEvent, StreamEventName } from '../../../shared/protocol';
+import type { SseMessage } from './sseParser';
+
+// The wire protocol types live in shared/protocol.ts so the server and the client
+// agree on them; re-exported here for the pages.
+export type {
+  CandidateDonePayload,
+  ChatResponse,
+  Conversation,
+  ConversationListResponse,
+  ConversationMessage,
+  ConversationSummary,
+  DeltaPayload,
+  DonePayload,
+  ErrorPayload,
+  FinishReason,
+  GenerationParams,
+  HeartbeatPayload,
+  MetaPayload,
+  ModelInfo,
+  ModelsResponse,
+  ParamBounds,
+  ProviderInfo,
+  ResponseFormat,
+  SnapshotPayload,
+  StreamErrorCode,
+  StreamEvent,
+  StreamEventName,
+  ToolCallDeltaPayload,
+  ToolCallPayload,
+  ToolInfo,
+  ToolResultPayload,
+  UsagePayload,
+  WsClientMessage,
+  WsServerMessage,
+} from '../../../shared/protocol';
+
+export const STREAM_EVENT_NAMES: readonly StreamEventName[] = [
+  'meta',
+  'delta',
+  'tool_call',
+  'tool_call_delta',
+  'tool_result',
+  'candidate_done',
+  'usage',
+  'done',
+  'error',
+  'snapshot',
+  'heartbeat',
+];
+
+const isStreamEventName = (name: string): name is StreamEventName =>
+  (STREAM_EVENT_NAMES as readonly string[]).includes(name);
+
+// Turns a raw SSE message into a typed protocol event. Unknown event names and
+// malformed payloads yield null and should be ignored, as the protocol requires.
+export function parseStreamEvent(message: SseMessage): StreamEvent | null {
+  if (!isStreamEventName(message.event)) {
+    return null;
+  }
+
+  try {
+    return { event: message.event, data: JSON.parse(message.data), id: message.id } as StreamEvent;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,4 @@
+// The pacer lives in shared/renderPacer.js so html-client, which has no build step,
+// runs the same engine; re-exported here for the pages.
+export { createRenderPacer, PACING_MODES } from '../../../shared/renderPacer.js';
+export type { PacingMode, RenderPacer, RenderPacerOptions } from '../../../shared/renderPacer.js';
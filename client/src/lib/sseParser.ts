@@ -0,0 +1,3 @@
+// See shared/sseParser.js; re-exported here for the pages.
+export { createSseParser, readSseStream } from '../../../shared/sseParser.js';
+export type { ReadSseOptions, SseMessage, SseParser, SseParserCallbacks } from '../../../shared/sseParser.js';
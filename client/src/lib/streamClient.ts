@@ -0,0 +1,345 @@
+import { parseStreamEvent, STREAM_EVENT_NAMES } from './protocol';
+import type { ErrorPayload, FinishReason, StreamEvent } from './protocol';
+import { authHeaders, getApiKey } from './auth';
+import { readSseStream } from './sseParser';
+
+// Transport-level plumbing for the streaming endpoints: opens a stream over
+// EventSource (GET) or fetch (POST), resumes it with Last-Event-ID when the
+// connection drops, and reports every protocol frame through `onEvent`.
+
+export type StreamHandlers = {
+  onEvent: (event: StreamEvent) => void;
+  // Called whenever a connection (including a resumed one) is established.
+  onOpen?: () => void;
+  // Called for anything received, heartbeats included; used for stall detection.
+  onActivity?: () => void;
+  // Bytes received. Exact over fetch; EventSource hides the raw stream, so there each
+  // frame's size is rebuilt from its fields (comments and `retry:` lines are missed).
+  onBytes?: (byteLength: number) => void;
+};
+
+export type StreamResult = {
+  finishReason: FinishReason;
+};
+
+// Dropped connections are resumed with Last-Event-ID, backing off between attempts.
+const RECONNECT_CONFIG = {
+  maxAttempts: 5,
+  baseDelayMs: 500,
+};
+
+// Raised for `error` frames, HTTP errors and exhausted reconnects — anything that
+// should be reported rather than silently retried.
+export class StreamFailedError extends Error {
+  name = 'StreamFailedError';
+  readonly details: ErrorPayload | null;
+  // From the X-Request-Id header when the request was rejected before streaming.
+  readonly requestId: string | null;
+
+  constructor(message: string, details: ErrorPayload | null = null, requestId: string | null = null) {
+    super(message);
+    this.details = details;
+    this.requestId = requestId;
+  }
+}
+
+type HttpErrorBody = {
+  error?: string;
+  message?: string;
+  retryAfterMs?: number;
+  fields?: Record<string, string>;
+} | null;
+
+// Rejections arrive as JSON before any stream starts; a 429 becomes a `rate_limited`
+// failure so pages can tell the user when to try again.
+const httpError = async (res: Response) => {
+  const body = (await res.json().catch(() => null)) as HttpErrorBody;
+  const requestId = res.headers.get('X-Request-Id');
+
+  if (res.status === 401 || res.status === 403) {
+    const message = body?.message ?? (res.status === 401 ? 'Not authorized: check the API key' : 'Forbidden');
+    const code = res.status === 401 ? 'unauthorized' : 'model_not_allowed';
+    return new StreamFailedError(message, { code, message, retryable: false }, requestId);
+  }
+
+  if (res.status === 429) {
+    const retryAfterMs = body?.retryAfterMs ?? Number(res.headers.get('Retry-After') ?? 1) * 1000;
+    const message = body?.message ?? `Rate limited, retry in ${Math.ceil(retryAfterMs / 1000)}s`;
+    const code = body?.error === 'quota_exceeded' ? 'quota_exceeded' : 'rate_limited';
+    return new StreamFailedError(message, { code, message, retryable: true, retryAfterMs }, requestId);
+  }
+
+  if (res.status === 400 && body?.error === 'invalid_request') {
+    const message = body.message ?? 'Invalid request';
+    return new StreamFailedError(
+      message,
+      { code: 'invalid_request', message, retryable: false, fields: body.fields },
+      requestId
+    );
+  }
+
+  return new StreamFailedError(body?.message ?? body?.error ?? `HTTP ${res.status}`, null, requestId);
+};
+
+export const isAbortError = (error: unknown) => (error as Error | null)?.name === 'AbortError';
+
+const abortError = () => new DOMException('Aborted', 'AbortError');
+
+const wait = (ms: number, signal: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const timer = window.setTimeout(resolve, ms);
+    signal.addEventListener('abort', () => {
+      window.clearTimeout(timer);
+      reject(abortError());
+    });
+  });
+
+// Aborting a stream with this reason only drops the connection, e.g. when its page
+// unmounts: the server keeps the generation for its viewers and the resume grace period.
+// Any other abort is the user pressing Stop.
+export class StreamDisconnected extends DOMException {
+  constructor() {
+    super('Disconnected', 'AbortError');
+  }
+}
+
+export const isStop = (signal: AbortSignal) => signal.aborted && !(signal.reason instanceof StreamDisconnected);
+
+// Closing a connection only starts the server's resume grace period, so a stop also
+// cancels the generation (the id prefix of `<generationId>:<seq>`).
+const cancelGeneration = (lastEventId: string) => {
+  const generationId = lastEventId.split(':')[0];
+  fetch(`/api/generations/${generationId}`, { method: 'DELETE', headers: authHeaders() }).catch(() => {
+    // Best effort: the server aborts it after the grace period anyway.
+  });
+};
+
+// EventSource cannot send an Authorization header, so when an API key is set the
+// key is traded for a short-lived signed ticket that travels in the URL instead.
+// Reconnects reuse the URL: the server accepts the ticket past its expiry for resumes,
+// which only re-attach to a generation the same key started.
+export async function withStreamTicket(url: string, signal: AbortSignal): Promise<string> {
+  if (!getApiKey()) {
+    return url;
+  }
+
+  const res = await fetch('/api/stream-tickets', { method: 'POST', headers: authHeaders(), signal });
+  if (!res.ok) {
+    throw await httpError(res);
+  }
+
+  const { ticket } = (await res.json()) as { ticket: string };
+  const separator = url.includes('?') ? '&' : '?';
+  return `${url}${separator}ticket=${encodeURIComponent(ticket)}`;
+}
+
+export async function streamViaFetch(
+  url: string,
+  body: unknown,
+  handlers: StreamHandlers,
+  signal: AbortSignal
+): Promise<StreamResult> {
+  let lastEventId: string | null = null;
+  let attempt = 0;
+
+  try {
+    while (true) {
+      const resumeFrom = lastEventId;
+      const headers: Record<string, string> = {
+        ...authHeaders(),
+        'Content-Type': 'application/json',
+        Accept: 'text/event-stream',
+      };
+      if (resumeFrom) {
+        headers['Last-Event-ID'] = resumeFrom;
+      }
+
+      try {
+        // On reconnect the server ignores the body and replays everything after Last-Event-ID.
+        const res = await fetch(url, { method: 'POST', headers, body: JSON.stringify(body), signal });
+
+        if (!res.ok) {
+          throw await httpError(res);
+        }
+
+        if (!res.body) {
+          throw new StreamFailedError('ReadableStream is not available in this browser context.');
+        }
+
+        handlers.onOpen?.();
+
+        // Frames are decoded and parsed incrementally as chunks arrive.
+        const readOptions = { onComment: () => handlers.onActivity?.(), onBytes: handlers.onBytes };
+        for await (const message of readSseStream(res.body, readOptions)) {
+          handlers.onActivity?.();
+          if (message.id) {
+            lastEventId = message.id;
+          }
+
+          const event = parseStreamEvent(message);
+          if (!event) {
+            continue;
+          }
+
+          handlers.onEvent(event);
+
+          if (event.event === 'done') {
+            return { finishReason: event.data.finishReason };
+          }
+
+          if (event.event === 'error') {
+            throw new StreamFailedError(event.data.message, event.data);
+          }
+        }
+      } catch (error) {
+        if (error instanceof StreamFailedError || isAbortError(error)) {
+          throw error;
+        }
+        // Network error: fall through and try to resume.
+      }
+
+      // Nothing to resume from yet, or we keep failing: give up.
+      if (!lastEventId || attempt >= RECONNECT_CONFIG.maxAttempts) {
+        throw new StreamFailedError('Connection interrupted');
+      }
+
+      // Reset the backoff whenever the previous attempt made progress.
+      attempt = lastEventId === resumeFrom ? attempt + 1 : 1;
+      await wait(RECONNECT_CONFIG.baseDelayMs * 2 ** (attempt - 1), signal);
+    }
+  } catch (error) {
+    if (isAbortError(error) && lastEventId && isStop(signal)) {
+      cancelGeneration(lastEventId);
+    }
+    throw error;
+  }
+}
+
+// `cancelOnAbort: false` only disconnects on abort, for watching a generation someone
+// else started.
+export function streamViaEventSource(
+  url: string,
+  handlers: StreamHandlers,
+  signal: AbortSignal,
+  { cancelOnAbort = true }: { cancelOnAbort?: boolean } = {}
+): Promise<StreamResult> {
+  return new Promise((resolve, reject) => {
+    let source: EventSource | null = null;
+    let reconnectTimer: number | null = null;
+    let lastEventId: string | null = null;
+    let attempts = 0;
+    let settled = false;
+
+    const settle = (complete: () => void) => {
+      if (settled) {
+        return;
+      }
+
+      settled = true;
+      if (reconnectTimer !== null) {
+        window.clearTimeout(reconnectTimer);
+      }
+      source?.close();
+      source = null;
+      signal.removeEventListener('abort', onAbort);
+      complete();
+    };
+
+    const onAbort = () => {
+      if (lastEventId && cancelOnAbort && isStop(signal)) {
+        cancelGeneration(lastEventId);
+      }
+      settle(() => reject(abortError()));
+    };
+
+    if (signal.aborted) {
+      reject(abortError());
+      return;
+    }
+    signal.addEventListener('abort', onAbort);
+
+    // Heartbeat frames carry no id; EventSource still reports the previous one.
+    const encoder = new TextEncoder();
+    const frameSize = (event: MessageEvent<string>) => {
+      const dataLines = event.data.split('\n').map((line) => `data: ${line}\n`);
+      const fields = [`event: ${event.type}\n`, ...dataLines, event.lastEventId && event.type !== 'heartbeat' ? `id: ${event.lastEventId}\n` : '', '\n'];
+      return encoder.encode(fields.join('')).byteLength;
+    };
+
+    const handleFrame = (event: MessageEvent<string>) => {
+      handlers.onActivity?.();
+      handlers.onBytes?.(frameSize(event));
+      if (event.lastEventId) {
+        lastEventId = event.lastEventId;
+      }
+      attempts = 0;
+
+      const streamEvent = parseStreamEvent({ event: event.type, data: event.data, id: event.lastEventId });
+      if (!streamEvent) {
+        return;
+      }
+
+      handlers.onEvent(streamEvent);
+
+      if (streamEvent.event === 'done') {
+        const { finishReason } = streamEvent.data;
+        settle(() => resolve({ finishReason }));
+      } else if (streamEvent.event === 'error') {
+        const details = streamEvent.data;
+        settle(() => reject(new StreamFailedError(details.message, details)));
+      }
+    };
+
+    const connect = (resumeFrom: string | null) => {
+      const separator = url.includes('?') ? '&' : '?';
+      const next = new EventSource(
+        resumeFrom ? `${url}${separator}lastEventId=${encodeURIComponent(resumeFrom)}` : url
+      );
+      source = next;
+
+      next.onopen = () => handlers.onOpen?.();
+
+      // Every protocol frame is a named event, so `onmessage` never fires.
+      for (const name of STREAM_EVENT_NAMES) {
+        if (name !== 'error') {
+          next.addEventListener(name, (event) => handleFrame(event as MessageEvent<string>));
+        }
+      }
+
+      next.onerror = (event) => {
+        // The protocol's `event: error` frame arrives here too, as a MessageEvent with data.
+        if (event instanceof MessageEvent && event.data) {
+          handleFrame(event as MessageEvent<string>);
+          return;
+        }
+
+        attempts += 1;
+        if (attempts > RECONNECT_CONFIG.maxAttempts) {
+          settle(() => reject(new StreamFailedError('Connection interrupted')));
+          return;
+        }
+
+        // CONNECTING means the browser is already retrying with Last-Event-ID.
+        if (next.readyState === EventSource.CONNECTING) {
+          return;
+        }
+
+        // CLOSED: the browser gave up, so reopen ourselves and pass the id as a param.
+        next.close();
+        source = null;
+        if (!lastEventId) {
+          settle(() => reject(new StreamFailedError('Connection interrupted')));
+          return;
+        }
+
+        const resumeId = lastEventId;
+        reconnectTimer = window.setTimeout(() => {
+          reconnectTimer = null;
+          connect(resumeId);
+        }, RECONNECT_CONFIG.baseDelayMs * 2 ** (attempts - 1));
+      };
+    };
+
+    connect(null);
+  });
+}
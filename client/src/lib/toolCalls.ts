@@ -0,0 +1,51 @@
+import type { StreamEvent } from './protocol';
+
+// A tool call as the page shows it, built up from tool_call, tool_call_delta and
+// tool_result frames.
+export type ToolCallView = {
+  id: string;
+  name: string;
+  // The arguments' JSON text received so far.
+  arguments: string;
+  status: 'running' | 'done' | 'failed';
+  result?: unknown;
+  error?: string;
+  // Length of the reply text received before the call, i.e. where it sits in the reply.
+  offset: number;
+};
+
+// Folds one frame into `calls`; frames other than the tool ones return `calls` as is.
+// `offset` is the reply length at the time the frame arrived.
+export const applyToolEvent = (calls: ToolCallView[], event: StreamEvent, offset: number): ToolCallView[] => {
+  switch (event.event) {
+    case 'tool_call':
+      return [...calls, { id: event.data.id, name: event.data.name, arguments: '', status: 'running', offset }];
+    case 'tool_call_delta': {
+      const { id, argumentsDelta } = event.data;
+      return calls.map((call) => (call.id === id ? { ...call, arguments: call.arguments + argumentsDelta } : call));
+    }
+    case 'tool_result': {
+      const { id, result, error } = event.data;
+      return calls.map((call) =>
+        call.id === id ? { ...call, status: error === undefined ? 'done' : 'failed', result, error } : call
+      );
+    }
+    default:
+      return calls;
+  }
+};
+
+export const isToolEvent = (event: StreamEvent) =>
+  event.event === 'tool_call' || event.event === 'tool_call_delta' || event.event === 'tool_result';
+
+// Pretty-prints complete JSON; partial JSON (arguments still streaming) is shown as is.
+export const formatJson = (value: unknown) => {
+  if (typeof value !== 'string') {
+    return JSON.stringify(value, null, 2);
+  }
+  try {
+    return JSON.stringify(JSON.parse(value), null, 2);
+  } catch {
+    return value;
+  }
+};
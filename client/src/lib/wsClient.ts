@@ -0,0 +1,212 @@
+import { STREAM_EVENT_NAMES } from './protocol';
+import type { StreamEvent, WsClientMessage, WsServerMessage } from './protocol';
+import { getApiKey } from './auth';
+import { StreamFailedError, isStop, withStreamTicket } from './streamClient';
+import type { StreamHandlers, StreamResult } from './streamClient';
+
+// Streams over `GET /api/ws`. Every stream on the page shares one socket; each is a
+// `ref` on it, and stopping one sends an in-band cancel instead of dropping a
+// connection, while a disconnect only forgets the ref. The socket opens on first use
+// and closes once it has sat idle, which ends the generations nobody is watching.
+
+// What a stream asks of the server: a new generation, or a follow-up that steers an
+// earlier one (see WsClientMessage).
+export type WebSocketStreamMessage =
+  | { type: 'start'; request: Record<string, unknown> }
+  | { type: 'steer'; generationId: string; content: string };
+
+type ActiveStream = {
+  handlers: StreamHandlers;
+  generationId: string | null;
+  // Stopped locally; frames still in flight are dropped until the server confirms.
+  stopped: boolean;
+  settle: (outcome: { result: StreamResult } | { error: Error }) => void;
+};
+
+type Connection = {
+  // Null until the ticket (if any) is fetched and the socket is created.
+  socket: WebSocket | null;
+  ready: Promise<void>;
+  streams: Map<string, ActiveStream>;
+  idleTimer: number | null;
+};
+
+const WS_PATH = '/api/ws';
+const IDLE_CLOSE_MS = 30000;
+
+// The socket authenticates once, at the handshake, so a changed API key needs a new one.
+let shared: { apiKey: string | null; connection: Connection } | null = null;
+let nextRef = 1;
+
+const abortError = () => new DOMException('Aborted', 'AbortError');
+const encoder = new TextEncoder();
+
+const send = (connection: Connection, message: WsClientMessage) => connection.socket?.send(JSON.stringify(message));
+
+const closeWhenIdle = (connection: Connection) => {
+  if (connection.streams.size === 0 && connection.idleTimer === null) {
+    connection.idleTimer = window.setTimeout(() => connection.socket?.close(1000), IDLE_CLOSE_MS);
+  }
+};
+
+const handleMessage = (connection: Connection, raw: string) => {
+  let message: WsServerMessage;
+  try {
+    message = JSON.parse(raw) as WsServerMessage;
+  } catch {
+    return;
+  }
+
+  // Heartbeats belong to the socket, so they keep every stream on it alive.
+  if (message.ref === null) {
+    if (message.event === 'heartbeat') {
+      connection.streams.forEach((stream) => stream.handlers.onActivity?.());
+    }
+    return;
+  }
+
+  const ref = message.ref;
+  const stream = connection.streams.get(ref);
+  if (!stream || !STREAM_EVENT_NAMES.includes(message.event)) {
+    return;
+  }
+
+  stream.handlers.onActivity?.();
+  stream.handlers.onBytes?.(encoder.encode(raw).byteLength);
+  const event = { event: message.event, data: message.data, id: message.id ?? '' } as StreamEvent;
+
+  if (event.event === 'meta') {
+    stream.generationId = event.data.generationId;
+    // Stopped before the server said which generation to cancel.
+    if (stream.stopped) {
+      send(connection, { type: 'cancel', generationId: stream.generationId });
+    }
+  }
+
+  const finished = event.event === 'done' || event.event === 'error';
+  if (finished) {
+    connection.streams.delete(ref);
+    closeWhenIdle(connection);
+  }
+  if (stream.stopped) {
+    return;
+  }
+
+  stream.handlers.onEvent(event);
+  if (event.event === 'done') {
+    stream.settle({ result: { finishReason: event.data.finishReason } });
+  } else if (event.event === 'error') {
+    stream.settle({ error: new StreamFailedError(event.data.message, event.data) });
+  }
+};
+
+const openConnection = (): Connection => {
+  const connection: Connection = {
+    socket: null,
+    ready: Promise.resolve(),
+    streams: new Map(),
+    idleTimer: null,
+  };
+
+  // Browsers cannot set headers on a WebSocket, so the key travels as a stream ticket.
+  connection.ready = withStreamTicket(WS_PATH, new AbortController().signal).then((path) => {
+    const { protocol, host } = window.location;
+    const socket = new WebSocket(`${protocol === 'https:' ? 'wss' : 'ws'}://${host}${path}`);
+    connection.socket = socket;
+
+    socket.onmessage = (event: MessageEvent<string>) => handleMessage(connection, event.data);
+    socket.onclose = () => {
+      if (shared?.connection === connection) {
+        shared = null;
+      }
+      if (connection.idleTimer !== null) {
+        window.clearTimeout(connection.idleTimer);
+      }
+      connection.streams.forEach((stream) => stream.settle({ error: new StreamFailedError('Connection closed') }));
+      connection.streams.clear();
+    };
+
+    return new Promise<void>((resolve, reject) => {
+      socket.onopen = () => resolve();
+      // The browser hides why a handshake failed (bad key, origin, server down).
+      socket.onerror = () => reject(new StreamFailedError('Could not open the WebSocket connection'));
+    });
+  });
+
+  connection.ready.catch(() => {
+    if (shared?.connection === connection) {
+      shared = null;
+    }
+  });
+
+  return connection;
+};
+
+const getConnection = () => {
+  const apiKey = getApiKey();
+  if (!shared || shared.apiKey !== apiKey) {
+    if (shared) {
+      closeWhenIdle(shared.connection);
+    }
+    shared = { apiKey, connection: openConnection() };
+  }
+  return shared.connection;
+};
+
+// Runs one generation over the shared socket, with the same handlers and result as
+// streamViaFetch. Aborting `signal` cancels the generation on the server, unless the
+// reason is StreamDisconnected.
+export async function streamViaWebSocket(
+  message: WebSocketStreamMessage,
+  handlers: StreamHandlers,
+  signal: AbortSignal
+): Promise<StreamResult> {
+  const connection = getConnection();
+  await connection.ready;
+  if (signal.aborted) {
+    throw abortError();
+  }
+
+  return new Promise((resolve, reject) => {
+    const ref = String(nextRef++);
+    let settled = false;
+
+    const stream: ActiveStream = {
+      handlers,
+      generationId: null,
+      stopped: false,
+      settle: (outcome) => {
+        if (settled) {
+          return;
+        }
+        settled = true;
+        signal.removeEventListener('abort', onAbort);
+        if ('result' in outcome) {
+          resolve(outcome.result);
+        } else {
+          reject(outcome.error);
+        }
+      },
+    };
+
+    const onAbort = () => {
+      stream.stopped = true;
+      if (!isStop(signal)) {
+        connection.streams.delete(ref);
+        closeWhenIdle(connection);
+      } else if (stream.generationId) {
+        send(connection, { type: 'cancel', generationId: stream.generationId });
+      }
+      stream.settle({ error: abortError() });
+    };
+    signal.addEventListener('abort', onAbort);
+
+    if (connection.idleTimer !== null) {
+      window.clearTimeout(connection.idleTimer);
+      connection.idleTimer = null;
+    }
+    connection.streams.set(ref, stream);
+    send(connection, { ...message, ref });
+    handlers.onOpen?.();
+  });
+}
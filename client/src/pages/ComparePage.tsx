@@ -0,0 +1,359 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { useSseStream } from '../hooks/useSseStream';
+import type { StreamOutcome } from '../hooks/useSseStream';
+import Markdown from '../components/Markdown';
+import ModelPicker from '../components/ModelPicker';
+import { authHeaders } from '../lib/auth';
+import { downloadCsv, toCsv } from '../lib/csv';
+import { formatBytes, formatMs } from '../lib/format';
+import { toQueryParams } from '../lib/modelSettings';
+import type { ModelSettings } from '../lib/modelSettings';
+import type { ChatResponse } from '../lib/protocol';
+
+type TransportId = 'standard' | 'eventsource' | 'fetch';
+
+type TransportResult = {
+  status: 'done' | 'error' | 'aborted';
+  ttftMs: number | null;
+  totalMs: number | null;
+  chunks: number;
+  bytes: number;
+  error: string | null;
+};
+
+type RunRecord = {
+  id: number;
+  startedAt: string;
+  prompt: string;
+  model: string;
+  results: Record<TransportId, TransportResult>;
+};
+
+type StandardState = {
+  status: 'idle' | 'waiting' | TransportResult['status'];
+  response: string;
+  result: TransportResult | null;
+};
+
+const TRANSPORTS: { id: TransportId; label: string; endpoint: string }[] = [
+  { id: 'standard', label: 'Standard', endpoint: 'POST /api/chat' },
+  { id: 'eventsource', label: 'EventSource', endpoint: 'GET /api/events' },
+  { id: 'fetch', label: 'fetch POST', endpoint: 'POST /api/stream' },
+];
+
+// Run history survives reloads; only the latest runs are kept.
+const HISTORY_STORAGE_KEY = 'compareRuns';
+const MAX_HISTORY = 50;
+
+const loadHistory = (): RunRecord[] => {
+  try {
+    return JSON.parse(window.localStorage.getItem(HISTORY_STORAGE_KEY) ?? '[]') as RunRecord[];
+  } catch {
+    return [];
+  }
+};
+
+const toResult = (outcome: StreamOutcome): TransportResult => ({
+  status: outcome.status,
+  ttftMs: outcome.metrics.ttftMs,
+  totalMs: outcome.metrics.totalMs,
+  chunks: outcome.metrics.chunks,
+  bytes: outcome.metrics.bytes,
+  error: outcome.error,
+});
+
+// The non-streaming endpoint delivers the whole answer at once, so its first token
+// arrives with the last one: TTFT equals the total time and there is a single chunk.
+const fetchStandard = async (body: unknown, signal: AbortSignal) => {
+  const startedAt = performance.now();
+  try {
+    const res = await fetch('/api/chat', {
+      method: 'POST',
+      headers: { ...authHeaders(), 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+      signal,
+    });
+    const text = await res.text();
+    const totalMs = Math.round(performance.now() - startedAt);
+    const bytes = new TextEncoder().encode(text).byteLength;
+    const data = JSON.parse(text) as Partial<ChatResponse> & { error?: string; message?: string };
+
+    if (!res.ok) {
+      const error = data.message ?? data.error ?? `HTTP ${res.status}`;
+      return { response: '', result: { status: 'error', ttftMs: null, totalMs, chunks: 0, bytes, error } as const };
+    }
+
+    const response = data.response ?? '';
+    return { response, result: { status: 'done', ttftMs: totalMs, totalMs, chunks: 1, bytes, error: null } as const };
+  } catch (error) {
+    const totalMs = Math.round(performance.now() - startedAt);
+    const status = (error as Error).name === 'AbortError' ? 'aborted' : 'error';
+    const message = status === 'error' ? (error as Error).message || 'Request failed' : null;
+    return { response: '', result: { status, ttftMs: null, totalMs, chunks: 0, bytes: 0, error: message } as const };
+  }
+};
+
+const HISTORY_COLUMNS = ['run', 'startedAt', 'model', 'transport', 'status', 'ttftMs', 'totalMs', 'chunks', 'bytes', 'prompt'];
+
+const historyRows = (runs: RunRecord[]) =>
+  runs.flatMap((run) =>
+    TRANSPORTS.map(({ id }) => {
+      const result = run.results[id];
+      return [
+        run.id,
+        run.startedAt,
+        run.model,
+        id,
+        result.status,
+        result.ttftMs,
+        result.totalMs,
+        result.chunks,
+        result.bytes,
+        run.prompt,
+      ] as const;
+    })
+  );
+
+const cellStyle: React.CSSProperties = { padding: '4px 8px', borderBottom: '1px solid #ddd', textAlign: 'left' };
+
+function ComparePage() {
+  const [prompt, setPrompt] = useState('Explain SSE streaming in one paragraph.');
+  const [settings, setSettings] = useState<ModelSettings>({});
+  const [standard, setStandard] = useState<StandardState>({ status: 'idle', response: '', result: null });
+  const [history, setHistory] = useState<RunRecord[]>(loadHistory);
+  const standardAbortRef = useRef<AbortController | null>(null);
+
+  const eventSource = useSseStream();
+  const fetchStream = useSseStream();
+  const isRunning = standard.status === 'waiting' || eventSource.isActive || fetchStream.isActive;
+
+  useEffect(() => {
+    window.localStorage.setItem(HISTORY_STORAGE_KEY, JSON.stringify(history));
+  }, [history]);
+
+  useEffect(() => () => standardAbortRef.current?.abort(), []);
+
+  const runStandard = useCallback(async (body: unknown) => {
+    const controller = new AbortController();
+    standardAbortRef.current = controller;
+    setStandard({ status: 'waiting', response: '', result: null });
+
+    const { response, result } = await fetchStandard(body, controller.signal);
+    setStandard({ status: result.status, response: response || (result.error ? `[Error: ${result.error}]` : ''), result });
+    return result;
+  }, []);
+
+  const runAll = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!prompt.trim() || isRunning) {
+      return;
+    }
+
+    const startedAt = new Date().toISOString();
+    const body = { prompt, ...settings };
+
+    // All three start together; each column fills in at its own pace.
+    const [standardResult, eventSourceOutcome, fetchOutcome] = await Promise.all([
+      runStandard(body),
+      eventSource.startStream({
+        transport: 'eventsource',
+        url: `/api/events?${new URLSearchParams({ prompt, ...toQueryParams(settings) })}`,
+      }),
+      fetchStream.startStream({ transport: 'fetch', url: '/api/stream', body: { ...body, stream: true } }),
+    ]);
+
+    const run: RunRecord = {
+      id: (history[0]?.id ?? 0) + 1,
+      startedAt,
+      prompt,
+      model: settings.provider && settings.model ? `${settings.provider}/${settings.model}` : 'server default',
+      results: { standard: standardResult, eventsource: toResult(eventSourceOutcome), fetch: toResult(fetchOutcome) },
+    };
+    setHistory((prev) => [run, ...prev].slice(0, MAX_HISTORY));
+  };
+
+  const stopAll = () => {
+    standardAbortRef.current?.abort();
+    eventSource.stopStream();
+    fetchStream.stopStream();
+  };
+
+  const exportHistory = () => {
+    const csv = toCsv(HISTORY_COLUMNS, historyRows(history).map((row) => [...row]));
+    downloadCsv(`transport-comparison-${new Date().toISOString().slice(0, 19).replace(/:/g, '-')}.csv`, csv);
+  };
+
+  // Live view of each column: the standard request's own state, or a stream hook's.
+  const columns = TRANSPORTS.map((transport) => {
+    if (transport.id === 'standard') {
+      const { result } = standard;
+      return {
+        ...transport,
+        status: standard.status,
+        response: standard.response,
+        streaming: false,
+        metrics: { ttftMs: result?.ttftMs ?? null, totalMs: result?.totalMs ?? null, chunks: result?.chunks, bytes: result?.bytes },
+        error: null,
+      };
+    }
+
+    const stream = transport.id === 'eventsource' ? eventSource : fetchStream;
+    return {
+      ...transport,
+      status: stream.status,
+      response: stream.response,
+      streaming: stream.isActive,
+      metrics: stream.metrics,
+      error: stream.error,
+    };
+  });
+
+  return (
+    <div style={{ maxWidth: '1200px', margin: '30px auto', fontFamily: 'sans-serif', paddingBottom: '80px' }}>
+      <h1>Transport comparison</h1>
+      <p style={{ color: '#555' }}>
+        Sends one prompt to the non-streaming endpoint, EventSource and fetch POST streaming at the same time. Bytes
+        count everything received, heartbeats included; EventSource sizes are rebuilt from its frames.
+      </p>
+
+      <form onSubmit={runAll} style={{ display: 'flex', flexDirection: 'column', gap: '10px' }}>
+        <ModelPicker value={settings} onChange={setSettings} disabled={isRunning} />
+
+        <textarea
+          value={prompt}
+          onChange={(e) => setPrompt(e.target.value)}
+          placeholder="Prompt to send to all three transports"
+          rows={3}
+          style={{ padding: '10px', fontSize: '16px', borderRadius: '4px' }}
+        />
+
+        <div style={{ display: 'flex', gap: '10px' }}>
+          <button
+            type="submit"
+            disabled={isRunning}
+            style={{
+              flex: 1,
+              padding: '10px',
+              fontSize: '16px',
+              backgroundColor: isRunning ? '#ccc' : '#007bff',
+              color: 'white',
+              border: 'none',
+              borderRadius: '4px',
+              cursor: isRunning ? 'not-allowed' : 'pointer',
+            }}
+          >
+            {isRunning ? 'Running...' : 'Run all three'}
+          </button>
+
+          {isRunning && (
+            <button
+              type="button"
+              onClick={stopAll}
+              style={{
+                padding: '10px 20px',
+                fontSize: '16px',
+                backgroundColor: '#dc3545',
+                color: 'white',
+                border: 'none',
+                borderRadius: '4px',
+                cursor: 'pointer',
+              }}
+            >
+              Stop
+            </button>
+          )}
+        </div>
+      </form>
+
+      <div style={{ display: 'grid', gridTemplateColumns: 'repeat(3, minmax(0, 1fr))', gap: '16px', marginTop: '20px' }}>
+        {columns.map((column) => (
+          <section key={column.id} style={{ display: 'flex', flexDirection: 'column', minWidth: 0 }}>
+            <h2 style={{ margin: '0 0 4px', fontSize: '18px' }}>{column.label}</h2>
+            <div style={{ fontSize: '13px', color: '#666', marginBottom: '8px' }}>
+              <code>{column.endpoint}</code> • {column.status}
+            </div>
+            <div style={{ fontSize: '13px', color: '#444', marginBottom: '8px' }}>
+              TTFT: {formatMs(column.metrics.ttftMs)} • Total: {formatMs(column.metrics.totalMs)} • Chunks:{' '}
+              {column.metrics.chunks ?? '—'} • Bytes: {formatBytes(column.metrics.bytes ?? null)}
+            </div>
+            <div
+              style={{
+                flex: 1,
+                minHeight: '120px',
+                maxHeight: '50vh',
+                overflowY: 'auto',
+                padding: '16px',
+                backgroundColor: '#1e1e1e',
+                color: column.error ? '#f28b82' : '#d4d4d4',
+                borderRadius: '8px',
+                lineHeight: '1.6',
+                fontSize: '15px',
+              }}
+            >
+              <Markdown text={column.response} streaming={column.streaming} />
+              {column.error && <div>[Error: {column.error}]</div>}
+            </div>
+          </section>
+        ))}
+      </div>
+
+      <div style={{ display: 'flex', alignItems: 'center', gap: '10px', marginTop: '32px' }}>
+        <h2 style={{ margin: 0, fontSize: '18px', flex: 1 }}>Run history</h2>
+        <button type="button" onClick={exportHistory} disabled={history.length === 0}>
+          Export CSV
+        </button>
+        <button type="button" onClick={() => setHistory([])} disabled={history.length === 0 || isRunning}>
+          Clear
+        </button>
+      </div>
+
+      {history.length === 0 ? (
+        <p style={{ color: '#888' }}>No runs yet.</p>
+      ) : (
+        <div style={{ overflowX: 'auto', marginTop: '10px' }}>
+          <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '14px' }}>
+            <thead>
+              <tr>
+                {['#', 'Time', 'Model', 'Transport', 'Status', 'TTFT', 'Total', 'Chunks', 'Bytes', 'Prompt'].map((label) => (
+                  <th key={label} style={cellStyle}>
+                    {label}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {history.map((run) =>
+                TRANSPORTS.map(({ id, label }) => {
+                  const result = run.results[id];
+                  return (
+                    <tr key={`${run.id}-${id}`}>
+                      <td style={cellStyle}>{run.id}</td>
+                      <td style={cellStyle}>{new Date(run.startedAt).toLocaleTimeString()}</td>
+                      <td style={cellStyle}>{run.model}</td>
+                      <td style={cellStyle}>{label}</td>
+                      <td style={cellStyle} title={result.error ?? undefined}>
+                        {result.status}
+                      </td>
+                      <td style={cellStyle}>{formatMs(result.ttftMs)}</td>
+                      <td style={cellStyle}>{formatMs(result.totalMs)}</td>
+                      <td style={cellStyle}>{result.chunks}</td>
+                      <td style={cellStyle}>{formatBytes(result.bytes)}</td>
+                      <td
+                        style={{ ...cellStyle, maxWidth: '240px', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}
+                        title={run.prompt}
+                      >
+                        {run.prompt}
+                      </td>
+                    </tr>
+                  );
+                })
+              )}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default ComparePage;
@@ -1,123 +1,248 @@
 import React, { useCallback, useEffect, useRef, useState } from 'react';
-
-type StreamMetrics = {
-  ttftMs: number | null;
-  totalMs: number | null;
+import { useNavigate, useParams } from 'react-router-dom';
+import { useConversations } from '../hooks/useConversations';
+import { useRenderPacer } from '../hooks/useRenderPacer';
+import { useSseStream } from '../hooks/useSseStream';
+import type { StreamOutcome } from '../hooks/useSseStream';
+import { useWebSocketStream } from '../hooks/useWebSocketStream';
+import CandidateTabs from '../components/CandidateTabs';
+import ConversationSidebar from '../components/ConversationSidebar';
+import Markdown from '../components/Markdown';
+import ModelPicker from '../components/ModelPicker';
+import ReplyWithToolCalls from '../components/ReplyWithToolCalls';
+import ShareLiveLinkButton from '../components/ShareLiveLinkButton';
+import { emptyCandidates, updateCandidate } from '../lib/candidates';
+import type { CandidateView } from '../lib/candidates';
+import { appendMessage, createConversation, getConversation } from '../lib/conversations';
+import { formatCost, formatTokens, formatTokensPerSec } from '../lib/format';
+import type { ModelSettings } from '../lib/modelSettings';
+import type { ConversationMessage, StreamEvent } from '../lib/protocol';
+import { PACING_MODES } from '../lib/renderPacer';
+import type { PacingMode } from '../lib/renderPacer';
+import { applyToolEvent, isToolEvent } from '../lib/toolCalls';
+import type { ToolCallView } from '../lib/toolCalls';
+
+type ChatRole = 'system' | 'user' | 'assistant';
+
+type Transport = 'fetch' | 'websocket';
+
+type ChatTurn = {
+  id: number;
+  role: Exclude<ChatRole, 'system'>;
+  content: string;
+  // Failed turns stay visible but are never sent back as history.
+  failed?: boolean;
+  // Tools the model called while writing this reply; only the text is sent back as history.
+  toolCalls?: ToolCallView[];
+  // Replies asked for with several candidates; `content` stays empty (so the turn is
+  // left out of the history) until the user accepts one.
+  candidates?: CandidateView[];
+  accepted?: number;
 };
 
-type ParsedSse = {
-  dataEvents: string[];
-  rest: string;
-};
+let nextTurnId = 1;
 
-// Controls how "smooth" text appears (characters per frame and frame interval).
-const RENDER_CONFIG = {
-  charsPerTick: 3,
-  tickMs: 28,
-};
-
-// Parse complete SSE frames from a growing string buffer.
-function parseSseEvents(buffer: string): ParsedSse {
-  const normalized = buffer.replace(/\r\n/g, '\n');
-  const frames = normalized.split('\n\n');
-  const rest = frames.pop() ?? '';
-  const dataEvents: string[] = [];
-
-  for (const frame of frames) {
-    // Skip heartbeats/comments/empty frames.
-    if (!frame.trim() || frame.startsWith(':')) {
-      continue;
-    }
+// Saved system messages are not shown; the system prompt is a page setting.
+const toTurns = (messages: ConversationMessage[]): ChatTurn[] =>
+  messages.flatMap((message) =>
+    message.role === 'system'
+      ? []
+      : [{ id: nextTurnId++, role: message.role, content: message.content, failed: message.status === 'error' }]
+  );
 
-    // Collect multiline `data:` payloads into one logical event string.
-    const data = frame
-      .split('\n')
-      .filter((line) => line.startsWith('data:'))
-      .map((line) => line.slice(5).trimStart())
-      .join('\n');
+function NewSolution() {
+  const { conversationId = null } = useParams();
+  const navigate = useNavigate();
+  const sidebar = useConversations();
 
-    if (data) {
-      dataEvents.push(data);
+  const [message, setMessage] = useState('Explain SSE streaming in one paragraph.');
+  const [systemPrompt, setSystemPrompt] = useState('');
+  const [settings, setSettings] = useState<ModelSettings>({});
+  const [transport, setTransport] = useState<Transport>('fetch');
+  const [pacing, setPacing] = useState<PacingMode>('character');
+  const [turns, setTurns] = useState<ChatTurn[]>([]);
+  const [conversationError, setConversationError] = useState<string | null>(null);
+
+  // A conversation created by this page for the thread on screen: navigating to it
+  // must keep the turns (and the stream writing into them) rather than reload.
+  const [createdId, setCreatedId] = useState<string | null>(null);
+  const [shownId, setShownId] = useState(conversationId);
+  if (conversationId !== shownId) {
+    setShownId(conversationId);
+    if (conversationId !== createdId) {
+      setCreatedId(null);
+      setTurns([]);
+      setConversationError(null);
     }
   }
 
-  return { dataEvents, rest };
-}
+  useEffect(() => {
+    if (!conversationId || conversationId === createdId) {
+      return;
+    }
 
-function NewSolution() {
-  const [message, setMessage] = useState('Explain SSE streaming in one paragraph.');
-  const [response, setResponse] = useState('');
-  const [isLoading, setIsLoading] = useState(false);
-  const [metrics, setMetrics] = useState<StreamMetrics>({ ttftMs: null, totalMs: null });
+    const controller = new AbortController();
+    getConversation(conversationId, controller.signal)
+      .then((conversation) => setTurns(toTurns(conversation.messages)))
+      .catch((error: unknown) => {
+        if ((error as Error).name !== 'AbortError') {
+          setConversationError(`Could not open this conversation: ${(error as Error).message}`);
+        }
+      });
+
+    return () => controller.abort();
+  }, [conversationId, createdId]);
 
   const responseEndRef = useRef<HTMLDivElement>(null);
-  const abortRef = useRef<AbortController | null>(null);
 
-  // Queue stores raw streamed text before it is rendered smoothly.
-  const renderQueueRef = useRef('');
-  const renderTimerRef = useRef<number | null>(null);
+  // Assistant turn that the render loop is currently writing into.
+  const activeTurnIdRef = useRef<number | null>(null);
+  // When the current request was sent, for per-candidate timings.
+  const streamStartedAtRef = useRef(0);
 
   useEffect(() => {
     responseEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [response]);
-
-  useEffect(() => () => abortRef.current?.abort(), []);
-
-  // Stops the incremental render loop.
-  const stopRenderLoop = useCallback(() => {
-    if (renderTimerRef.current !== null) {
-      window.clearInterval(renderTimerRef.current);
-      renderTimerRef.current = null;
-    }
+  }, [turns]);
+
+  // Appends rendered text to the assistant turn being streamed: `parts[i]` to candidate
+  // i, or `parts[0]` to the reply itself when it has no candidates.
+  const appendToActiveTurn = useCallback((parts: string[]) => {
+    const turnId = activeTurnIdRef.current;
+    setTurns((prev) =>
+      prev.map((turn) => {
+        if (turn.id !== turnId) {
+          return turn;
+        }
+        if (!turn.candidates) {
+          return { ...turn, content: turn.content + (parts[0] ?? '') };
+        }
+        const candidates = turn.candidates.map((candidate, index) =>
+          parts[index] ? { ...candidate, content: candidate.content + parts[index] } : candidate
+        );
+        return { ...turn, candidates };
+      })
+    );
   }, []);
 
-  // Adds new streamed text into the rendering queue.
-  const enqueueForRender = useCallback((nextChunk: string) => {
-    renderQueueRef.current += nextChunk;
-  }, []);
+  // Streamed text waits in the pacer and is revealed smoothly, each candidate in its
+  // own lane (just one unless the reply has several).
+  const pacer = useRenderPacer(pacing, appendToActiveTurn);
+
+  // Tool calls go straight onto the active turn, placed after the text received so far
+  // (rendered or still queued), so they show up inline once the text before them has.
+  // Candidates get their timings and chunk counts as their frames arrive.
+  const recordStreamEvent = useCallback((event: StreamEvent) => {
+    const turnId = activeTurnIdRef.current;
+    const updateActiveTurn = (update: (turn: ChatTurn) => Partial<ChatTurn>) =>
+      setTurns((prev) => prev.map((turn) => (turn.id === turnId ? { ...turn, ...update(turn) } : turn)));
+    const elapsedMs = Math.round(performance.now() - streamStartedAtRef.current);
+
+    if (isToolEvent(event)) {
+      const queued = pacer.queuedLength();
+      updateActiveTurn((turn) => ({
+        toolCalls: applyToolEvent(turn.toolCalls ?? [], event, turn.content.length + queued),
+      }));
+    } else if (event.event === 'delta' && event.data.candidate !== undefined) {
+      const { candidate } = event.data;
+      updateActiveTurn(({ candidates }) => ({
+        candidates:
+          candidates &&
+          updateCandidate(candidates, candidate, ({ ttftMs, chunks }) => ({
+            ttftMs: ttftMs ?? elapsedMs,
+            chunks: chunks + 1,
+          })),
+      }));
+    } else if (event.event === 'candidate_done') {
+      const { candidate, finishReason } = event.data;
+      updateActiveTurn(({ candidates }) => ({
+        candidates: candidates && updateCandidate(candidates, candidate, () => ({ finishReason, totalMs: elapsedMs })),
+      }));
+    }
+  }, [pacer]);
+
+  // Deltas skip the hooks' own `response` and go through the pacer instead.
+  // Both hooks share an interface; the toggle picks which one sends the next turn.
+  const sse = useSseStream({ onDelta: pacer.push, onEvent: recordStreamEvent });
+  const ws = useWebSocketStream({ onDelta: pacer.push, onEvent: recordStreamEvent });
+  const stream = transport === 'websocket' ? ws : sse;
+  const { metrics, usage, isActive: isLoading } = stream;
+  // Over the WebSocket a follow-up can interrupt the reply, once its generation is known
+  // and as long as it is a single reply.
+  const canSteer = transport === 'websocket' && isLoading && ws.meta !== null && !ws.meta.candidates;
+
+  const { stopStream: stopNetworkStream } = stream;
+  const stopStream = useCallback(() => {
+    // Abort pending network stream (the hook also cancels the generation server-side).
+    stopNetworkStream();
+
+    // Finish rendering already buffered text.
+    pacer.flush();
+  }, [stopNetworkStream, pacer]);
+
+  // Renders the rest of a finished reply, marking it failed if the stream failed.
+  const finishTurn = (assistantTurnId: number, outcome: StreamOutcome, targetId: string | null) => {
+    // Titles and ordering change once the exchange is saved.
+    if (targetId) {
+      sidebar.refresh();
+    }
 
-  // Starts smooth UI rendering from queue -> response state in small steps.
-  const startRenderLoop = useCallback(() => {
-    if (renderTimerRef.current !== null) {
+    // The thread was cleared, replaced or steered while this stream was running.
+    if (activeTurnIdRef.current !== assistantTurnId) {
       return;
     }
 
-    renderTimerRef.current = window.setInterval(() => {
-      const queue = renderQueueRef.current;
-      if (!queue) {
-        return;
-      }
+    // Ensure final characters are rendered.
+    pacer.flush();
+
+    if (outcome.status === 'error') {
+      const reference = outcome.requestId ? ` (request ${outcome.requestId})` : '';
+      setTurns((prev) =>
+        prev.map((turn) =>
+          turn.id === assistantTurnId
+            ? {
+                ...turn,
+                content: `${turn.content}${turn.content ? '\n\n' : ''}[Error: ${outcome.error ?? 'stream interrupted'}${reference}]`,
+                failed: true,
+              }
+            : turn
+        )
+      );
+    }
+  };
 
-      const nextPart = queue.slice(0, RENDER_CONFIG.charsPerTick);
-      renderQueueRef.current = queue.slice(RENDER_CONFIG.charsPerTick);
-      setResponse((prev) => prev + nextPart);
-    }, RENDER_CONFIG.tickMs);
-  }, []);
+  // The accepted candidate becomes the reply: sent as history from now on, and saved,
+  // since the server does not save replies with several candidates itself.
+  const acceptCandidate = (turnId: number, index: number) => {
+    const turn = turns.find((entry) => entry.id === turnId);
+    const content = turn?.candidates?.[index]?.content;
+    if (!content) {
+      return;
+    }
 
-  // Flushes remaining queued text instantly (used on finish/error/stop).
-  const flushRenderQueue = useCallback(() => {
-    const pending = renderQueueRef.current;
-    if (pending) {
-      setResponse((prev) => prev + pending);
-      renderQueueRef.current = '';
+    setTurns((prev) => prev.map((entry) => (entry.id === turnId ? { ...entry, content, accepted: index } : entry)));
+    if (conversationId) {
+      appendMessage(conversationId, { role: 'assistant', content })
+        .then(() => sidebar.refresh())
+        .catch((error: Error) => setConversationError(`The accepted answer was not saved: ${error.message}`));
     }
-  }, []);
+  };
 
-  const resetRenderState = useCallback(() => {
-    stopRenderLoop();
-    renderQueueRef.current = '';
-  }, [stopRenderLoop]);
+  // The server stops the current reply where it is and answers the follow-up with the
+  // same history, so the partial reply stays in the thread as its own turn.
+  const steerStream = async () => {
+    pacer.flush();
 
-  const stopStream = useCallback(() => {
-    // Abort pending network stream.
-    abortRef.current?.abort();
-    abortRef.current = null;
+    const userTurn: ChatTurn = { id: nextTurnId++, role: 'user', content: message };
+    const assistantTurn: ChatTurn = { id: nextTurnId++, role: 'assistant', content: '' };
+    activeTurnIdRef.current = assistantTurn.id;
+    setTurns((prev) => [...prev, userTurn, assistantTurn]);
+    setMessage('');
 
-    // Finish rendering already buffered text and stop loading state.
-    flushRenderQueue();
-    stopRenderLoop();
-    setIsLoading(false);
-  }, [flushRenderQueue, stopRenderLoop]);
+    const outcome = await ws.steer(message);
+    if (outcome) {
+      finishTurn(assistantTurn.id, outcome, conversationId);
+    }
+  };
 
   const startStream = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -125,194 +250,297 @@ function NewSolution() {
       return;
     }
 
+    if (canSteer) {
+      await steerStream();
+      return;
+    }
+
     // Stop any previous stream and reset render pipeline.
     stopStream();
-    resetRenderState();
-
-    const controller = new AbortController();
-    abortRef.current = controller;
-
-    setIsLoading(true);
-    setResponse('');
-    setMetrics({ ttftMs: null, totalMs: null });
-    startRenderLoop();
-
-    const startedAt = Date.now();
-    let hasFirstToken = false;
-
-    try {
-      // Start POST request and ask server for SSE response.
-      const res = await fetch('/api/stream', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          Accept: 'text/event-stream',
-        },
-        body: JSON.stringify({
-          model: 'gpt-4o-mini',
-          message,
-          stream: true,
-        }),
-        signal: controller.signal,
-      });
-
-      if (!res.ok) {
-        throw new Error(`HTTP ${res.status}`);
-      }
-
-      if (!res.body) {
-        throw new Error('ReadableStream is not available in this browser context.');
+    pacer.reset();
+
+    // History = optional system prompt + every successful turn so far + the new user turn.
+    const userTurn: ChatTurn = { id: nextTurnId++, role: 'user', content: message };
+    const assistantTurn: ChatTurn = {
+      id: nextTurnId++,
+      role: 'assistant',
+      content: '',
+      ...(settings.n ? { candidates: emptyCandidates(settings.n) } : {}),
+    };
+    const history: { role: ChatRole; content: string }[] = [
+      ...(systemPrompt.trim() ? [{ role: 'system' as const, content: systemPrompt }] : []),
+      ...turns
+        .filter((turn) => !turn.failed && turn.content.trim())
+        .map(({ role, content }) => ({ role, content })),
+      { role: 'user', content: message },
+    ];
+
+    activeTurnIdRef.current = assistantTurn.id;
+    setTurns((prev) => [...prev, userTurn, assistantTurn]);
+    setMessage('');
+
+    // The first turn of a new thread creates its conversation; the server then saves
+    // this turn and the reply (partial ones too, if the user stops it).
+    let targetId = conversationId;
+    if (!targetId) {
+      try {
+        targetId = (await createConversation()).id;
+        setCreatedId(targetId);
+        navigate(`/new-solution/${targetId}`);
+        sidebar.refresh();
+      } catch (error) {
+        setConversationError(`This conversation is not being saved: ${(error as Error).message}`);
       }
+    }
 
-      // Read chunks from fetch stream and decode UTF-8 bytes incrementally.
-      const reader = res.body.getReader();
-      const decoder = new TextDecoder();
-      let buffer = '';
-      let done = false;
-
-      while (!done) {
-        const part = await reader.read();
-        done = part.done;
-
-        if (!part.value) {
-          continue;
-        }
-
-        // Append decoded text to parser buffer and extract full SSE events.
-        buffer += decoder.decode(part.value, { stream: true });
-        const { dataEvents, rest } = parseSseEvents(buffer);
-        buffer = rest;
-
-        for (const eventData of dataEvents) {
-          if (eventData === '[DONE]') {
-            done = true;
-            break;
-          }
-
-          try {
-            const parsed = JSON.parse(eventData) as { value?: string; error?: string };
-            if (parsed.error) {
-              throw new Error(parsed.error);
-            }
-
-            if (!parsed.value) {
-              continue;
-            }
-
-            // Capture time-to-first-token once.
-            if (!hasFirstToken) {
-              hasFirstToken = true;
-              setMetrics((prev) => ({ ...prev, ttftMs: Date.now() - startedAt }));
-            }
-
-            // Enqueue new text; UI loop renders it smoothly.
-            enqueueForRender(parsed.value);
-          } catch (parseError) {
-            console.error('Malformed SSE payload', parseError);
-          }
-        }
-      }
+    streamStartedAtRef.current = performance.now();
+    const outcome = await stream.startStream({
+      transport: 'fetch',
+      url: '/api/stream',
+      body: {
+        ...settings,
+        messages: history,
+        stream: true,
+        ...(targetId ? { conversationId: targetId } : {}),
+      },
+    });
+
+    finishTurn(assistantTurn.id, outcome, targetId);
+  };
 
-      // Ensure final characters are rendered and finalize timing.
-      flushRenderQueue();
-      setMetrics((prev) => ({ ...prev, totalMs: Date.now() - startedAt }));
-    } catch (error) {
-      if ((error as Error).name !== 'AbortError') {
-        console.error(error);
-        setResponse('[Error: stream interrupted]');
-      }
-    } finally {
-      if (abortRef.current === controller) {
-        abortRef.current = null;
-      }
+  // Saved conversations stay in the sidebar; clearing just starts a new thread.
+  const clearThread = () => {
+    stopStream();
+    pacer.reset();
+    activeTurnIdRef.current = null;
+    setTurns([]);
+    sse.reset();
+    ws.reset();
+    if (conversationId) {
+      navigate('/new-solution');
+    }
+  };
 
-      stopRenderLoop();
-      setIsLoading(false);
+  const deleteConversation = async (id: string) => {
+    await sidebar.remove(id);
+    if (id === conversationId) {
+      clearThread();
     }
   };
 
   return (
-    <div style={{ maxWidth: '760px', margin: '30px auto', fontFamily: 'sans-serif', paddingBottom: '80px' }}>
-      <h1>OpenAI fetch() + POST + SSE</h1>
-      <p style={{ color: '#555' }}>
-        Uses fetch POST with JSON body and reads <code>text/event-stream</code> incrementally from
-        <code>ReadableStream</code> with smooth token rendering.
-      </p>
-
-      <form onSubmit={startStream} style={{ display: 'flex', flexDirection: 'column', gap: '10px' }}>
-        <textarea
-          value={message}
-          onChange={(e) => setMessage(e.target.value)}
-          placeholder="Type your prompt"
-          rows={4}
-          style={{ padding: '10px', fontSize: '16px', borderRadius: '4px' }}
+    <div style={{ display: 'flex', gap: '32px', maxWidth: '1020px', margin: '30px auto', fontFamily: 'sans-serif' }}>
+      <ConversationSidebar
+        conversations={sidebar.conversations}
+        activeId={conversationId}
+        error={sidebar.error}
+        onRename={sidebar.rename}
+        onDelete={deleteConversation}
+      />
+
+      <div style={{ flex: 1, minWidth: 0, paddingBottom: '80px' }}>
+        <h1>{transport === 'websocket' ? 'OpenAI WebSocket streaming' : 'OpenAI fetch() + POST + SSE'}</h1>
+        <p style={{ color: '#555' }}>
+          {transport === 'websocket' ? (
+            <>
+              Sends each turn over one shared WebSocket to <code>/api/ws</code>, which answers with the same events as
+              SSE. Stop cancels the generation in-band, and a follow-up sent mid-reply steers it.
+            </>
+          ) : (
+            <>
+              Uses fetch POST with JSON body and reads <code>text/event-stream</code> incrementally from
+              <code>ReadableStream</code>.
+            </>
+          )}{' '}
+          Tokens render smoothly, the whole thread is sent as history on every turn, and every exchange is saved to a
+          conversation listed on the left. Enabled tools run on the server; their calls and results appear inline.
+          With several candidates, each streams into its own tab and the one you accept continues the thread.
+        </p>
+
+        {conversationError && (
+          <div style={{ marginBottom: '12px', fontSize: '14px', color: '#b00020' }}>{conversationError}</div>
+        )}
+
+        <div style={{ display: 'flex', gap: '16px', marginBottom: '12px', fontSize: '14px' }}>
+          {(['fetch', 'websocket'] as const).map((option) => (
+            <label key={option} style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+              <input
+                type="radio"
+                name="transport"
+                checked={transport === option}
+                onChange={() => setTransport(option)}
+                disabled={isLoading}
+              />
+              {option === 'fetch' ? 'SSE (fetch POST)' : 'WebSocket'}
+            </label>
+          ))}
+          <label style={{ display: 'flex', alignItems: 'center', gap: '6px', marginLeft: 'auto' }}>
+            Rendering
+            <select value={pacing} onChange={(e) => setPacing(e.target.value as PacingMode)}>
+              {PACING_MODES.map(({ value, label }) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        <div style={{ marginBottom: '12px' }}>
+          <ModelPicker value={settings} onChange={setSettings} disabled={isLoading} withTools withCandidates />
+        </div>
+
+        <input
+          value={systemPrompt}
+          onChange={(e) => setSystemPrompt(e.target.value)}
+          placeholder="Optional system prompt"
+          disabled={isLoading}
+          style={{ width: '100%', boxSizing: 'border-box', padding: '8px 10px', fontSize: '14px', borderRadius: '4px', marginBottom: '12px' }}
         />
 
-        <div style={{ display: 'flex', gap: '10px' }}>
-          <button
-            type="submit"
-            disabled={isLoading}
+        {turns.length > 0 && (
+          <div
             style={{
-              flex: 1,
-              padding: '10px',
-              fontSize: '16px',
-              backgroundColor: isLoading ? '#ccc' : '#007bff',
-              color: 'white',
-              border: 'none',
-              borderRadius: '4px',
-              cursor: isLoading ? 'not-allowed' : 'pointer',
+              maxHeight: '60vh',
+              overflowY: 'auto',
+              display: 'flex',
+              flexDirection: 'column',
+              gap: '12px',
+              marginBottom: '16px',
             }}
           >
-            {isLoading ? 'Streaming...' : 'Start stream'}
-          </button>
-
-          {isLoading && (
+            {turns.map((turn) => {
+              const isStreamingTurn = isLoading && turn.id === activeTurnIdRef.current;
+              const isUser = turn.role === 'user';
+
+              return (
+                <div
+                  key={turn.id}
+                  style={{
+                    alignSelf: isUser ? 'flex-end' : 'stretch',
+                    maxWidth: isUser ? '80%' : undefined,
+                    padding: isUser ? '10px 14px' : '20px',
+                    backgroundColor: isUser ? '#007bff' : '#1e1e1e',
+                    color: isUser ? 'white' : turn.failed ? '#f28b82' : '#d4d4d4',
+                    borderRadius: '8px',
+                    // Replies are Markdown; the user's own text is shown as typed.
+                    whiteSpace: isUser ? 'pre-wrap' : undefined,
+                    lineHeight: '1.7',
+                    fontSize: '16px',
+                    letterSpacing: '0.1px',
+                    boxShadow: isUser ? undefined : '0 8px 24px rgba(0,0,0,0.18)',
+                    border: isUser ? undefined : '1px solid rgba(255,255,255,0.06)',
+                    transition: 'all 180ms ease',
+                  }}
+                >
+                  {isUser ? (
+                    turn.content
+                  ) : turn.candidates ? (
+                    <>
+                      <CandidateTabs
+                        candidates={turn.candidates}
+                        streaming={isStreamingTurn}
+                        accepted={turn.accepted}
+                        onAccept={
+                          isStreamingTurn || turn.failed ? undefined : (index) => acceptCandidate(turn.id, index)
+                        }
+                      />
+                      {turn.failed && <Markdown text={turn.content} />}
+                    </>
+                  ) : (
+                    <ReplyWithToolCalls
+                      content={turn.content}
+                      toolCalls={turn.toolCalls}
+                      streaming={isStreamingTurn}
+                    />
+                  )}
+                  {isStreamingTurn && !turn.candidates ? <span style={{ opacity: 0.8 }}>▍</span> : null}
+                </div>
+              );
+            })}
+            <div ref={responseEndRef} />
+          </div>
+        )}
+
+        <form onSubmit={startStream} style={{ display: 'flex', flexDirection: 'column', gap: '10px' }}>
+          <textarea
+            value={message}
+            onChange={(e) => setMessage(e.target.value)}
+            placeholder={canSteer ? 'Interrupt with a follow-up' : turns.length ? 'Send a follow-up' : 'Type your prompt'}
+            rows={4}
+            style={{ padding: '10px', fontSize: '16px', borderRadius: '4px' }}
+          />
+
+          <div style={{ display: 'flex', gap: '10px' }}>
             <button
-              type="button"
-              onClick={stopStream}
+              type="submit"
+              disabled={isLoading && !canSteer}
               style={{
-                padding: '10px 20px',
+                flex: 1,
+                padding: '10px',
                 fontSize: '16px',
-                backgroundColor: '#dc3545',
+                backgroundColor: isLoading && !canSteer ? '#ccc' : '#007bff',
                 color: 'white',
                 border: 'none',
                 borderRadius: '4px',
-                cursor: 'pointer',
+                cursor: isLoading && !canSteer ? 'not-allowed' : 'pointer',
               }}
             >
-              Stop
+              {canSteer ? 'Steer' : isLoading ? 'Streaming...' : turns.length ? 'Send' : 'Start stream'}
             </button>
-          )}
+
+            {isLoading && (
+              <button
+                type="button"
+                onClick={stopStream}
+                style={{
+                  padding: '10px 20px',
+                  fontSize: '16px',
+                  backgroundColor: '#dc3545',
+                  color: 'white',
+                  border: 'none',
+                  borderRadius: '4px',
+                  cursor: 'pointer',
+                }}
+              >
+                Stop
+              </button>
+            )}
+
+            {isLoading && stream.meta && <ShareLiveLinkButton generationId={stream.meta.generationId} />}
+
+            {!isLoading && turns.length > 0 && (
+              <button
+                type="button"
+                onClick={clearThread}
+                style={{
+                  padding: '10px 20px',
+                  fontSize: '16px',
+                  backgroundColor: '#2c2f36',
+                  color: 'white',
+                  border: 'none',
+                  borderRadius: '4px',
+                  cursor: 'pointer',
+                }}
+              >
+                Clear
+              </button>
+            )}
+          </div>
+        </form>
+
+        <div style={{ marginTop: '12px', fontSize: '14px', color: '#444' }}>
+          TTFT: {metrics.ttftMs == null ? '—' : `${metrics.ttftMs} ms`} • Total:{' '}
+          {metrics.totalMs == null ? '—' : `${metrics.totalMs} ms`} • Tokens: {formatTokens(usage)} • Speed:{' '}
+          {formatTokensPerSec(metrics.tokensPerSec)} • Cost: {formatCost(usage)} • Status: {stream.status}
         </div>
-      </form>
 
-      <div style={{ marginTop: '12px', fontSize: '14px', color: '#444' }}>
-        TTFT: {metrics.ttftMs == null ? '—' : `${metrics.ttftMs} ms`} • Total:{' '}
-        {metrics.totalMs == null ? '—' : `${metrics.totalMs} ms`}
+        {stream.stalledForMs != null && (
+          <div style={{ marginTop: '8px', fontSize: '14px', color: '#b36b00' }}>
+            ⚠ Connection stalled — no heartbeat for {Math.round(stream.stalledForMs / 1000)}s
+          </div>
+        )}
       </div>
-
-      {response && (
-        <div
-          style={{
-            marginTop: '20px',
-            padding: '20px',
-            backgroundColor: '#1e1e1e',
-            color: '#d4d4d4',
-            borderRadius: '8px',
-            whiteSpace: 'pre-wrap',
-            lineHeight: '1.7',
-            fontSize: '16px',
-            letterSpacing: '0.1px',
-            boxShadow: '0 8px 24px rgba(0,0,0,0.18)',
-            border: '1px solid rgba(255,255,255,0.06)',
-            transition: 'all 180ms ease',
-          }}
-        >
-          {response}
-          {isLoading ? <span style={{ opacity: 0.8 }}>▍</span> : null}
-          <div ref={responseEndRef} />
-        </div>
-      )}
     </div>
   );
 }
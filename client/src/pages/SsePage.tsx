@@ -1,12 +1,18 @@
 import React, { useEffect, useRef, useState } from 'react';
 import { useSseStream } from '../hooks/useSseStream';
+import Markdown from '../components/Markdown';
+import ModelPicker from '../components/ModelPicker';
+import { formatCost, formatTokens, formatTokensPerSec } from '../lib/format';
+import { toQueryParams } from '../lib/modelSettings';
+import type { ModelSettings } from '../lib/modelSettings';
 
 function SsePage() {
   const [prompt, setPrompt] = useState('');
-  const { response, startStream, stopStream, appendResponse } = useSseStream();
-  const [isLoading, setIsLoading] = useState(false);
-  const [ttft, setTtft] = useState<number | null>(null);
-  const [totalTime, setTotalTime] = useState<number | null>(null);
+  const [settings, setSettings] = useState<ModelSettings>({});
+  const { response, status, metrics, usage, stalledForMs, isActive, startStream, stopStream, appendResponse } = useSseStream();
+  const isLoading = isActive;
+  const ttft = metrics.ttftMs;
+  const totalTime = metrics.totalMs;
   const responseEndRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
@@ -15,7 +21,6 @@ function SsePage() {
 
   const handleAbort = () => {
     stopStream();
-    setIsLoading(false);
     appendResponse('\n\n[Generation stopped by user]');
   };
 
@@ -23,25 +28,17 @@ function SsePage() {
     e.preventDefault();
     if (!prompt.trim()) return;
 
-    setIsLoading(true);
-    setTtft(null);
-    setTotalTime(null);
-
-    const startTime = Date.now();
-
-    startStream(prompt, {
-      onFirstToken: () => {
-        setTtft(Date.now() - startTime);
-      },
-      onDone: () => {
-        setTotalTime(Date.now() - startTime);
-        setIsLoading(false);
-      },
-      onError: () => {
-        setIsLoading(false);
-        appendResponse('\n\n[Error: Connection interrupted]');
-      },
+    const outcome = await startStream({
+      transport: 'eventsource',
+      url: `/api/events?${new URLSearchParams({ prompt, ...toQueryParams(settings) })}`,
     });
+
+    if (outcome.status === 'error') {
+      const reference = outcome.requestId ? ` (request ${outcome.requestId})` : '';
+      appendResponse(`\n\n[Error: ${outcome.error ?? 'Connection interrupted'}${reference}]`);
+    } else if (outcome.finishReason === 'length') {
+      appendResponse('\n\n[Stopped: max tokens reached]');
+    }
   };
 
   return (
@@ -49,6 +46,8 @@ function SsePage() {
       <h1>SSE Streaming Chat</h1>
 
       <form onSubmit={handleSubmit} style={{ display: 'flex', flexDirection: 'column', gap: '10px' }}>
+        <ModelPicker value={settings} onChange={setSettings} disabled={isLoading} />
+
         <textarea
           value={prompt}
           onChange={(e) => setPrompt(e.target.value)}
@@ -95,11 +94,12 @@ function SsePage() {
         </div>
       </form>
 
-      {(ttft !== null || totalTime !== null) && (
+      {status !== 'idle' && (
         <div
           style={{
             marginTop: '20px',
             display: 'flex',
+            flexWrap: 'wrap',
             gap: '20px',
             padding: '15px',
             backgroundColor: '#e9ecef',
@@ -118,6 +118,30 @@ function SsePage() {
               {totalTime != null ? `${(totalTime / 1000).toFixed(2)}s` : '...'}
             </div>
           </div>
+          <div>
+            <div style={{ fontSize: '12px', color: '#555', textTransform: 'uppercase' }}>Tokens</div>
+            <div style={{ fontSize: '24px', fontWeight: 'bold', color: '#555' }}>{formatTokens(usage)}</div>
+          </div>
+          <div>
+            <div style={{ fontSize: '12px', color: '#555', textTransform: 'uppercase' }}>Speed</div>
+            <div style={{ fontSize: '24px', fontWeight: 'bold', color: '#555' }}>
+              {formatTokensPerSec(metrics.tokensPerSec)}
+            </div>
+          </div>
+          <div>
+            <div style={{ fontSize: '12px', color: '#555', textTransform: 'uppercase' }}>Est. Cost</div>
+            <div style={{ fontSize: '24px', fontWeight: 'bold', color: '#555' }}>{formatCost(usage)}</div>
+          </div>
+          <div>
+            <div style={{ fontSize: '12px', color: '#555', textTransform: 'uppercase' }}>Status</div>
+            <div style={{ fontSize: '24px', fontWeight: 'bold', color: '#555' }}>{status}</div>
+          </div>
+        </div>
+      )}
+
+      {stalledForMs != null && (
+        <div style={{ marginTop: '10px', fontSize: '14px', color: '#b36b00' }}>
+          ⚠ Connection stalled — no heartbeat for {Math.round(stalledForMs / 1000)}s
         </div>
       )}
 
@@ -129,13 +153,12 @@ function SsePage() {
             backgroundColor: '#1e1e1e',
             color: '#d4d4d4',
             borderRadius: '8px',
-            whiteSpace: 'pre-wrap',
             lineHeight: '1.6',
             fontSize: '16px',
             boxShadow: '0 4px 6px rgba(0,0,0,0.1)',
           }}
         >
-          {response}
+          <Markdown text={response} streaming={isLoading} />
           {isLoading && (
             <span
               style={{
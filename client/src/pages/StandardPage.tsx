@@ -1,7 +1,13 @@
 import React, { useEffect, useRef, useState } from 'react';
+import Markdown from '../components/Markdown';
+import ModelPicker from '../components/ModelPicker';
+import { authHeaders } from '../lib/auth';
+import type { ModelSettings } from '../lib/modelSettings';
+import type { ChatResponse } from '../lib/protocol';
 
 function StandardPage() {
   const [prompt, setPrompt] = useState('');
+  const [settings, setSettings] = useState<ModelSettings>({});
   const [response, setResponse] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const responseEndRef = useRef<HTMLDivElement>(null);
@@ -20,13 +26,23 @@ function StandardPage() {
     try {
       const res = await fetch('/api/chat', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ prompt }),
+        headers: { ...authHeaders(), 'Content-Type': 'application/json' },
+        body: JSON.stringify({ prompt, ...settings }),
       });
 
+      if (res.status === 429) {
+        const retryAfter = res.headers.get('Retry-After') ?? '?';
+        setResponse(`[Rate limited, retry in ${retryAfter}s]`);
+        return;
+      }
+      if (res.status === 400 || res.status === 401 || res.status === 403) {
+        const body = (await res.json().catch(() => null)) as { message?: string } | null;
+        setResponse(`[Error: ${body?.message ?? 'Not authorized'}]`);
+        return;
+      }
       if (!res.ok) throw new Error(`HTTP error: ${res.status}`);
 
-      const data = (await res.json()) as { response?: string };
+      const data = (await res.json()) as Partial<ChatResponse>;
       setResponse(data.response ?? '');
     } catch (err) {
       console.error(err);
@@ -41,6 +57,8 @@ function StandardPage() {
       <h1>Standard Response Chat</h1>
 
       <form onSubmit={handleSubmit} style={{ display: 'flex', flexDirection: 'column', gap: '10px' }}>
+        <ModelPicker value={settings} onChange={setSettings} disabled={isLoading} />
+
         <textarea
           value={prompt}
           onChange={(e) => setPrompt(e.target.value)}
@@ -74,13 +92,12 @@ function StandardPage() {
             backgroundColor: '#1e1e1e',
             color: '#d4d4d4',
             borderRadius: '8px',
-            whiteSpace: 'pre-wrap',
             lineHeight: '1.6',
             fontSize: '16px',
             boxShadow: '0 4px 6px rgba(0,0,0,0.1)',
           }}
         >
-          {response}
+          <Markdown text={response} />
           <div ref={responseEndRef} />
         </div>
       )}
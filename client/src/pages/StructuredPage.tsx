@@ -0,0 +1,275 @@
+import React, { useMemo, useState } from 'react';
+import { useSseStream } from '../hooks/useSseStream';
+import JsonTree from '../components/JsonTree';
+import ModelPicker from '../components/ModelPicker';
+import { validateJson } from '../lib/jsonSchema';
+import type { JsonSchema, SchemaProblem } from '../lib/jsonSchema';
+import type { ModelSettings } from '../lib/modelSettings';
+import { parsePartialJson } from '../lib/partialJson';
+import type { ResponseFormat } from '../lib/protocol';
+
+type Mode = 'json_object' | 'json_schema';
+
+const EXAMPLE_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    name: { type: 'string' },
+    cuisine: { type: 'string', enum: ['italian', 'japanese', 'mexican', 'indian', 'other'] },
+    servings: { type: 'integer', minimum: 1, maximum: 12 },
+    ingredients: {
+      type: 'array',
+      minItems: 1,
+      items: {
+        type: 'object',
+        properties: { item: { type: 'string' }, quantity: { type: 'string' } },
+        required: ['item', 'quantity'],
+        additionalProperties: false,
+      },
+    },
+    steps: { type: 'array', items: { type: 'string' } },
+    vegetarian: { type: 'boolean' },
+  },
+  required: ['name', 'cuisine', 'servings', 'ingredients', 'steps', 'vegetarian'],
+  additionalProperties: false,
+};
+
+// How the finished reply held up: strict JSON.parse first, then the schema.
+type Verdict = { parseError: string } | { problems: SchemaProblem[] };
+
+const readSchema = (text: string): { schema: JsonSchema } | { error: string } => {
+  try {
+    const schema: unknown = JSON.parse(text);
+    return typeof schema === 'object' && schema !== null && !Array.isArray(schema)
+      ? { schema }
+      : { error: 'The schema must be a JSON object' };
+  } catch (error) {
+    return { error: `The schema is not valid JSON: ${(error as Error).message}` };
+  }
+};
+
+const judge = (text: string, schema: JsonSchema | null): Verdict => {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch (error) {
+    return { parseError: (error as Error).message };
+  }
+  return { problems: schema ? validateJson(schema, value) : [] };
+};
+
+const groupByPath = (problems: SchemaProblem[]) => {
+  const byPath = new Map<string, string[]>();
+  for (const { path, message } of problems) {
+    byPath.set(path, [...(byPath.get(path) ?? []), message]);
+  }
+  return byPath;
+};
+
+const panelStyle = {
+  marginTop: '20px',
+  padding: '20px',
+  backgroundColor: '#1e1e1e',
+  color: '#d4d4d4',
+  borderRadius: '8px',
+  boxShadow: '0 4px 6px rgba(0,0,0,0.1)',
+};
+
+// Streams a reply in JSON mode and shows it as a tree while it arrives, parsing the
+// partial text on every delta; once done, checks it against the schema.
+function StructuredPage() {
+  const [prompt, setPrompt] = useState('Give me a recipe for a weeknight dinner.');
+  const [settings, setSettings] = useState<ModelSettings>({});
+  const [mode, setMode] = useState<Mode>('json_schema');
+  const [schemaText, setSchemaText] = useState(() => JSON.stringify(EXAMPLE_SCHEMA, null, 2));
+  const [view, setView] = useState<'tree' | 'raw'>('tree');
+  // The schema the current reply was requested with; null in json_object mode.
+  const [requestedSchema, setRequestedSchema] = useState<JsonSchema | null>(null);
+  const { response, status, error, isActive, startStream, stopStream } = useSseStream();
+
+  const schema = useMemo(() => readSchema(schemaText), [schemaText]);
+  const partial = useMemo(() => parsePartialJson(response), [response]);
+  const verdict = useMemo(
+    () => (status === 'done' ? judge(response, requestedSchema) : null),
+    [status, response, requestedSchema]
+  );
+  const problemsByPath = useMemo(
+    () => (verdict && 'problems' in verdict ? groupByPath(verdict.problems) : undefined),
+    [verdict]
+  );
+  const schemaError = mode === 'json_schema' && 'error' in schema ? schema.error : null;
+  const progress = isActive ? 'receiving…' : 'incomplete';
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!prompt.trim() || schemaError) return;
+
+    const usedSchema = mode === 'json_schema' && 'schema' in schema ? schema.schema : null;
+    const responseFormat: ResponseFormat = usedSchema
+      ? { type: 'json_schema', json_schema: { name: 'structured_reply', schema: usedSchema } }
+      : { type: 'json_object' };
+
+    setRequestedSchema(usedSchema);
+    await startStream({
+      transport: 'fetch',
+      url: '/api/stream',
+      body: { ...settings, prompt, stream: true, response_format: responseFormat },
+    });
+  };
+
+  return (
+    <div style={{ maxWidth: '760px', margin: '30px auto', fontFamily: 'sans-serif', paddingBottom: '80px' }}>
+      <h1>Structured Output</h1>
+
+      <form onSubmit={handleSubmit} style={{ display: 'flex', flexDirection: 'column', gap: '10px' }}>
+        <ModelPicker value={settings} onChange={setSettings} disabled={isActive} />
+
+        <div style={{ display: 'flex', gap: '16px', fontSize: '14px' }}>
+          <label style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+            <input
+              type="radio"
+              checked={mode === 'json_schema'}
+              onChange={() => setMode('json_schema')}
+              disabled={isActive}
+            />
+            JSON schema
+          </label>
+          <label style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+            <input
+              type="radio"
+              checked={mode === 'json_object'}
+              onChange={() => setMode('json_object')}
+              disabled={isActive}
+            />
+            Any JSON object
+          </label>
+        </div>
+
+        {mode === 'json_schema' && (
+          <>
+            <textarea
+              value={schemaText}
+              onChange={(e) => setSchemaText(e.target.value)}
+              rows={10}
+              spellCheck={false}
+              aria-label="JSON schema"
+              style={{ padding: '10px', fontSize: '13px', fontFamily: 'monospace', borderRadius: '4px' }}
+            />
+            {schemaError && <div style={{ fontSize: '14px', color: '#b00020' }}>{schemaError}</div>}
+          </>
+        )}
+
+        <textarea
+          value={prompt}
+          onChange={(e) => setPrompt(e.target.value)}
+          placeholder="Describe what the JSON should contain..."
+          rows={3}
+          style={{ padding: '10px', fontSize: '16px', borderRadius: '4px' }}
+        />
+
+        <div style={{ display: 'flex', gap: '10px' }}>
+          <button
+            type="submit"
+            disabled={isActive || schemaError !== null}
+            style={{
+              flex: 1,
+              padding: '10px',
+              fontSize: '16px',
+              backgroundColor: isActive || schemaError ? '#ccc' : '#007bff',
+              color: 'white',
+              border: 'none',
+              borderRadius: '4px',
+              cursor: isActive || schemaError ? 'not-allowed' : 'pointer',
+            }}
+          >
+            {isActive ? 'Streaming...' : 'Generate'}
+          </button>
+
+          {isActive && (
+            <button
+              type="button"
+              onClick={stopStream}
+              style={{
+                padding: '10px 20px',
+                fontSize: '16px',
+                backgroundColor: '#dc3545',
+                color: 'white',
+                border: 'none',
+                borderRadius: '4px',
+                cursor: 'pointer',
+              }}
+            >
+              Stop
+            </button>
+          )}
+        </div>
+      </form>
+
+      {status === 'error' && <div style={{ marginTop: '16px', color: '#b00020' }}>Error: {error}</div>}
+
+      {verdict && (
+        <div
+          style={{
+            marginTop: '16px',
+            padding: '12px 15px',
+            borderRadius: '8px',
+            backgroundColor: 'parseError' in verdict || verdict.problems.length > 0 ? '#fdecea' : '#e6f4ea',
+          }}
+        >
+          {'parseError' in verdict ? (
+            <>The reply is not valid JSON: {verdict.parseError}</>
+          ) : verdict.problems.length === 0 ? (
+            <>✓ Valid JSON{requestedSchema ? ' matching the schema' : ''}</>
+          ) : (
+            <>
+              Valid JSON, but it does not match the schema:
+              <ul style={{ margin: '6px 0 0', paddingLeft: '20px' }}>
+                {verdict.problems.map(({ path, message }) => (
+                  <li key={`${path} ${message}`}>
+                    <code>{path}</code> {message}
+                  </li>
+                ))}
+              </ul>
+            </>
+          )}
+        </div>
+      )}
+
+      {response && (
+        <div style={panelStyle}>
+          <div style={{ display: 'flex', gap: '12px', marginBottom: '12px', fontSize: '13px', color: '#8b949e' }}>
+            {(['tree', 'raw'] as const).map((option) => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => setView(option)}
+                style={{
+                  padding: '2px 10px',
+                  border: '1px solid rgba(255,255,255,0.2)',
+                  borderRadius: '4px',
+                  backgroundColor: view === option ? 'rgba(255,255,255,0.12)' : 'transparent',
+                  color: '#d4d4d4',
+                  cursor: 'pointer',
+                }}
+              >
+                {option === 'tree' ? 'Tree' : 'Raw'}
+              </button>
+            ))}
+            <span style={{ marginLeft: 'auto' }}>
+              {partial.error ? `Unparseable: ${partial.error}` : partial.complete ? 'complete' : progress}
+            </span>
+          </div>
+
+          {view === 'raw' || partial.value === undefined ? (
+            <pre style={{ margin: 0, whiteSpace: 'pre-wrap', wordBreak: 'break-word', fontSize: '13px' }}>
+              {response}
+            </pre>
+          ) : (
+            <JsonTree value={partial.value} problems={problemsByPath} />
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default StructuredPage;
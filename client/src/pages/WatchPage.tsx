@@ -0,0 +1,144 @@
+import { useEffect, useRef, useState } from 'react';
+import { useParams } from 'react-router-dom';
+import { useSseStream } from '../hooks/useSseStream';
+import type { StreamStatus } from '../hooks/useSseStream';
+import CandidateTabs from '../components/CandidateTabs';
+import ReplyWithToolCalls from '../components/ReplyWithToolCalls';
+import { emptyCandidates, updateCandidate } from '../lib/candidates';
+import type { CandidateView } from '../lib/candidates';
+import type { FinishReason, StreamEvent } from '../lib/protocol';
+import { applyToolEvent, isToolEvent } from '../lib/toolCalls';
+import type { ToolCallView } from '../lib/toolCalls';
+
+const describeStatus = (status: StreamStatus, finishReason: FinishReason | null) => {
+  switch (status) {
+    case 'idle':
+    case 'connecting':
+      return 'Connecting…';
+    case 'streaming':
+      return 'Live';
+    case 'done':
+      return finishReason === 'length' ? 'Finished (max tokens reached)' : 'Finished';
+    case 'aborted':
+      return 'Stopped by its owner';
+    case 'error':
+      return 'Failed';
+  }
+};
+
+// Follows one generation; keyed by its id so a new link starts from a clean slate.
+function GenerationViewer({ generationId }: { generationId: string }) {
+  const [toolCalls, setToolCalls] = useState<ToolCallView[]>([]);
+  const [candidates, setCandidates] = useState<CandidateView[] | null>(null);
+  // Reply length so far, where the next tool call sits in it.
+  const replyLengthRef = useRef(0);
+
+  const recordEvent = (event: StreamEvent) => {
+    if (isToolEvent(event)) {
+      setToolCalls((calls) => applyToolEvent(calls, event, replyLengthRef.current));
+      return;
+    }
+
+    switch (event.event) {
+      case 'meta':
+        if (event.data.candidates) {
+          setCandidates(emptyCandidates(event.data.candidates));
+        }
+        break;
+      case 'snapshot': {
+        const { meta, text, candidates: texts } = event.data;
+        replyLengthRef.current = text.length;
+        if (meta.candidates) {
+          setCandidates(
+            emptyCandidates(meta.candidates).map((candidate, index) => ({ ...candidate, content: texts?.[index] ?? '' }))
+          );
+        }
+        break;
+      }
+      case 'delta': {
+        const { text, candidate = 0 } = event.data;
+        if (candidate === 0) {
+          replyLengthRef.current += text.length;
+        }
+        if (event.data.candidate !== undefined) {
+          setCandidates((current) =>
+            current && updateCandidate(current, candidate, (c) => ({ content: c.content + text, chunks: c.chunks + 1 }))
+          );
+        }
+        break;
+      }
+      case 'candidate_done': {
+        const { candidate, finishReason } = event.data;
+        setCandidates((current) => current && updateCandidate(current, candidate, () => ({ finishReason })));
+        break;
+      }
+    }
+  };
+
+  const { response, status, meta, finishReason, error, stalledForMs, isActive, startStream } = useSseStream({
+    onEvent: recordEvent,
+  });
+
+  useEffect(() => {
+    startStream({
+      transport: 'eventsource',
+      url: `/api/generations/${encodeURIComponent(generationId)}/events`,
+      watch: true,
+    });
+  }, [generationId, startStream]);
+
+  return (
+    <>
+      <div style={{ fontSize: '14px', color: '#444' }}>
+        {meta ? `${meta.provider} • ${meta.model} • ` : ''}
+        {describeStatus(status, finishReason)}
+      </div>
+
+      {status === 'error' && <div style={{ marginTop: '16px', color: '#b00020' }}>Error: {error}</div>}
+
+      {stalledForMs != null && (
+        <div style={{ marginTop: '8px', fontSize: '14px', color: '#b36b00' }}>
+          ⚠ Connection stalled — no heartbeat for {Math.round(stalledForMs / 1000)}s
+        </div>
+      )}
+
+      {(response || candidates) && (
+        <div
+          style={{
+            marginTop: '20px',
+            padding: '20px',
+            backgroundColor: '#1e1e1e',
+            color: '#d4d4d4',
+            borderRadius: '8px',
+            boxShadow: '0 4px 6px rgba(0,0,0,0.1)',
+          }}
+        >
+          {candidates ? (
+            <CandidateTabs candidates={candidates} streaming={isActive} />
+          ) : (
+            <>
+              <ReplyWithToolCalls content={response} toolCalls={toolCalls} streaming={isActive} />
+              {isActive ? <span style={{ opacity: 0.8 }}>▍</span> : null}
+            </>
+          )}
+        </div>
+      )}
+    </>
+  );
+}
+
+// Read-only view of a generation someone shared with "Share live link": the reply so
+// far, then live as it streams. Leaving the page only disconnects; it never stops the
+// generation for its owner.
+function WatchPage() {
+  const { generationId = '' } = useParams();
+
+  return (
+    <div style={{ maxWidth: '760px', margin: '30px auto', fontFamily: 'sans-serif', paddingBottom: '80px' }}>
+      <h1>Live Generation</h1>
+      <GenerationViewer key={generationId} generationId={generationId} />
+    </div>
+  );
+}
+
+export default WatchPage;
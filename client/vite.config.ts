@@ -1,10 +1,14 @@
-import { defineConfig } from 'vite'
+import { defineConfig, searchForWorkspaceRoot } from 'vite'
 import react from '@vitejs/plugin-react'
 
 // https://vite.dev/config/
 export default defineConfig({
   plugins: [react()],
   server: {
+    // ../shared/renderPacer.js is loaded at runtime, so it must be servable too.
+    fs: {
+      allow: [searchForWorkspaceRoot(process.cwd()), '../shared'],
+    },
     // Proxy /api requests to the Express backend so the browser sees a
     // same-origin response.  Cross-origin fetch streams are subject to
     // extra browser-level buffering; same-origin streams are delivered to
@@ -13,6 +17,8 @@ export default defineConfig({
       '/api': {
         target: 'http://localhost:5001',
         changeOrigin: true,
+        // /api/ws upgrades to a WebSocket.
+        ws: true,
       },
     },
   },
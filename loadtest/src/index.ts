@@ -0,0 +1,49 @@
+import { writeFile } from 'node:fs/promises';
+import { OptionsError, USAGE, parseOptions } from './options.js';
+import { buildReport, formatReport } from './report.js';
+import { runLoadTest } from './runner.js';
+import { startLocalServer } from './server.js';
+import type { LocalServer } from './server.js';
+
+const main = async () => {
+  const options = await parseOptions(process.argv.slice(2));
+  if (!options) {
+    process.stdout.write(USAGE);
+    return;
+  }
+
+  let server: LocalServer | null = null;
+  if (!options.url) {
+    process.stderr.write(`Starting a local server on port ${options.serverPort} with the mock provider...\n`);
+    server = await startLocalServer(options.serverPort);
+  }
+
+  const target = options.url ?? server!.url;
+  // On Ctrl+C, take down the server we started; streams finished so far are not reported.
+  process.once('SIGINT', () => {
+    void server?.stop().finally(() => process.exit(130));
+  });
+
+  try {
+    const run = await runLoadTest(target, options);
+    const report = buildReport(target, options, run);
+
+    if (options.json === '-') {
+      process.stdout.write(`${JSON.stringify(report, null, 2)}\n`);
+      return;
+    }
+
+    process.stdout.write(`${formatReport(report)}\n`);
+    if (options.json) {
+      await writeFile(options.json, `${JSON.stringify(report, null, 2)}\n`);
+      process.stdout.write(`\nJSON report written to ${options.json}\n`);
+    }
+  } finally {
+    await server?.stop();
+  }
+};
+
+main().catch((error) => {
+  process.stderr.write(`${error instanceof OptionsError ? `${error.message}\n\n${USAGE}` : error.stack ?? error}\n`);
+  process.exitCode = 1;
+});
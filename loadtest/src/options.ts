@@ -0,0 +1,192 @@
+import { readFile } from 'node:fs/promises';
+import { parseArgs } from 'node:util';
+
+export type Transport = 'events' | 'stream';
+
+export type LoadTestOptions = {
+  // Base URL of a running server; null starts a local one on the mock provider.
+  url: string | null;
+  serverPort: number;
+  transports: Transport[];
+  concurrency: number;
+  rampUpMs: number;
+  durationMs: number;
+  // Stops after this many streams even if the duration has not run out.
+  maxRequests: number | null;
+  timeoutMs: number;
+  // Fraction of streams the client aborts partway through, to exercise cancellation.
+  cancelRate: number;
+  prompts: string[];
+  provider: string;
+  model: string | null;
+  providerOptions: Record<string, number>;
+  apiKey: string | null;
+  // Where to write the JSON report; '-' prints it instead of the table.
+  json: string | null;
+  metricsIntervalMs: number;
+};
+
+export const USAGE = `Usage: npm run loadtest -- [options]
+
+Opens concurrent streams against /api/events and /api/stream and reports TTFT,
+inter-chunk gaps, throughput, error and abort rates, plus server memory and
+event-loop lag sampled from /metrics.
+
+Target
+  --url <base>             Use a running server instead of starting one
+  --server-port <n>        Port for the server started locally (default 5099)
+  --api-key <key>          Bearer key, for servers with API_KEYS configured
+
+Load
+  --transport <t>          events, stream or both (default both; alternates)
+  --concurrency <n>        Streams open at once (default 20)
+  --ramp-up <time>         Spread the first streams over this long (default 5s)
+  --duration <time>        Keep opening streams for this long (default 30s)
+  --requests <n>           Stop after n streams in total
+  --timeout <time>         Give up on a single stream after this long (default 60s)
+  --cancel-rate <0-1>      Fraction of streams to abort partway (default 0)
+  --prompts <file>         One prompt per line, or a JSON array of strings
+
+Generation
+  --provider <name>        Provider to request (default mock)
+  --model <name>           Model to request (default: the provider's default)
+  --mock-ttft <time>       Mock time to first token
+  --mock-chunk-delay <time>
+                           Mock delay between chunks
+  --mock-words <n>         Mock reply length in words
+
+Output
+  --json <file|->          Also write the report as JSON; '-' prints only JSON
+  --metrics-interval <time>
+                           How often to sample /metrics (default 1s)
+  -h, --help               Show this help
+
+Times accept ms, s or m suffixes (e.g. 500ms, 10s, 2m); bare numbers are ms.
+`;
+
+const DEFAULT_PROMPTS = [
+  'Explain server-sent events in one paragraph.',
+  'Write a haiku about backpressure.',
+  'List three ways to debug a slow network request.',
+  'Summarize the difference between TCP and UDP.',
+];
+
+export class OptionsError extends Error {}
+
+const parseDuration = (name: string, value: string) => {
+  const match = /^(\d+(?:\.\d+)?)(ms|s|m)?$/.exec(value.trim());
+  if (!match) {
+    throw new OptionsError(`--${name} must be a duration such as 500ms, 10s or 2m`);
+  }
+
+  const scale = { ms: 1, s: 1000, m: 60_000 }[match[2] ?? 'ms'] ?? 1;
+  return Math.round(Number(match[1]) * scale);
+};
+
+const parseCount = (name: string, value: string, { min = 1 } = {}) => {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < min) {
+    throw new OptionsError(`--${name} must be an integer >= ${min}`);
+  }
+  return parsed;
+};
+
+const parseTransports = (value: string): Transport[] => {
+  if (value === 'both') {
+    return ['events', 'stream'];
+  }
+  if (value === 'events' || value === 'stream') {
+    return [value];
+  }
+  throw new OptionsError('--transport must be events, stream or both');
+};
+
+const readPrompts = async (path: string) => {
+  const text = await readFile(path, 'utf8');
+  const prompts: unknown = path.endsWith('.json')
+    ? JSON.parse(text)
+    : text
+        .split(/\r?\n/)
+        .map((line) => line.trim())
+        .filter(Boolean);
+
+  if (!Array.isArray(prompts) || prompts.length === 0 || !prompts.every((p) => typeof p === 'string' && p)) {
+    throw new OptionsError(`--prompts file ${path} must hold at least one non-empty prompt`);
+  }
+  return prompts as string[];
+};
+
+const FLAGS = {
+  url: { type: 'string' },
+  'server-port': { type: 'string', default: '5099' },
+  'api-key': { type: 'string' },
+  transport: { type: 'string', default: 'both' },
+  concurrency: { type: 'string', default: '20' },
+  'ramp-up': { type: 'string', default: '5s' },
+  duration: { type: 'string', default: '30s' },
+  requests: { type: 'string' },
+  timeout: { type: 'string', default: '60s' },
+  'cancel-rate': { type: 'string', default: '0' },
+  prompts: { type: 'string' },
+  provider: { type: 'string', default: 'mock' },
+  model: { type: 'string' },
+  'mock-ttft': { type: 'string' },
+  'mock-chunk-delay': { type: 'string' },
+  'mock-words': { type: 'string' },
+  json: { type: 'string' },
+  'metrics-interval': { type: 'string', default: '1s' },
+  help: { type: 'boolean', short: 'h', default: false },
+} as const;
+
+// Returns null when --help was asked for.
+export const parseOptions = async (argv: string[]): Promise<LoadTestOptions | null> => {
+  const parse = () => {
+    try {
+      return parseArgs({ args: argv, options: FLAGS });
+    } catch (error) {
+      // Unknown flags and missing values.
+      throw new OptionsError((error as Error).message);
+    }
+  };
+  const { values } = parse();
+
+  if (values.help) {
+    return null;
+  }
+
+  const cancelRate = Number(values['cancel-rate']);
+  if (!Number.isFinite(cancelRate) || cancelRate < 0 || cancelRate > 1) {
+    throw new OptionsError('--cancel-rate must be a number between 0 and 1');
+  }
+
+  // Passed through as the mock provider's per-request overrides (see server/providers/mock.js).
+  const providerOptions: Record<string, number> = {};
+  if (values['mock-ttft'] !== undefined) {
+    providerOptions.ttftMs = parseDuration('mock-ttft', values['mock-ttft']);
+  }
+  if (values['mock-chunk-delay'] !== undefined) {
+    providerOptions.chunkDelayMs = parseDuration('mock-chunk-delay', values['mock-chunk-delay']);
+  }
+  if (values['mock-words'] !== undefined) {
+    providerOptions.words = parseCount('mock-words', values['mock-words']);
+  }
+
+  return {
+    url: values.url ? values.url.replace(/\/+$/, '') : null,
+    serverPort: parseCount('server-port', values['server-port']),
+    transports: parseTransports(values.transport),
+    concurrency: parseCount('concurrency', values.concurrency),
+    rampUpMs: parseDuration('ramp-up', values['ramp-up']),
+    durationMs: parseDuration('duration', values.duration),
+    maxRequests: values.requests === undefined ? null : parseCount('requests', values.requests),
+    timeoutMs: parseDuration('timeout', values.timeout),
+    cancelRate,
+    prompts: values.prompts ? await readPrompts(values.prompts) : DEFAULT_PROMPTS,
+    provider: values.provider,
+    model: values.model ?? null,
+    providerOptions,
+    apiKey: values['api-key'] ?? null,
+    json: values.json ?? null,
+    metricsIntervalMs: parseDuration('metrics-interval', values['metrics-interval']),
+  };
+};
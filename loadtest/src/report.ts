@@ -0,0 +1,238 @@
+import type { LoadTestOptions, Transport } from './options.js';
+import type { LoadTestRun } from './runner.js';
+import type { ServerSample } from './server.js';
+import { distribution, rate } from './stats.js';
+import type { Distribution } from './stats.js';
+import type { StreamResult } from './stream.js';
+
+export type TransportSummary = {
+  streams: number;
+  completed: number;
+  errors: number;
+  cancelled: number;
+  aborted: number;
+  errorRate: number;
+  abortRate: number;
+  // Why streams failed or were aborted, e.g. { 'HTTP 429': 3, upstream_error: 1 }.
+  reasons: Record<string, number>;
+  ttftMs: Distribution;
+  gapMs: Distribution;
+  durationMs: Distribution;
+  throughput: {
+    streamsPerSec: number;
+    chunksPerSec: number;
+    bytesPerSec: number;
+    tokensPerSec: number;
+  };
+};
+
+export type ServerSummary = {
+  baselineRssBytes: number | null;
+  peakRssBytes: number | null;
+  peakHeapUsedBytes: number | null;
+  peakOpenStreams: number | null;
+  // Growth over the idle baseline at the busiest sample, divided by its open streams.
+  rssPerOpenStreamBytes: number | null;
+  heapPerOpenStreamBytes: number | null;
+  // One value per sample interval.
+  eventLoopLagP99Ms: Distribution;
+  eventLoopLagMaxMs: number | null;
+};
+
+export type LoadTestReport = {
+  target: string;
+  config: Pick<
+    LoadTestOptions,
+    'transports' | 'concurrency' | 'rampUpMs' | 'durationMs' | 'maxRequests' | 'cancelRate' | 'provider' | 'model'
+  > & { providerOptions: Record<string, number> };
+  wallMs: number;
+  overall: TransportSummary;
+  byTransport: Partial<Record<Transport, TransportSummary>>;
+  server: ServerSummary | null;
+};
+
+const summarize = (results: StreamResult[], wallMs: number): TransportSummary => {
+  const count = (status: StreamResult['status']) => results.filter((result) => result.status === status).length;
+  const reasons: Record<string, number> = {};
+  for (const { reason } of results) {
+    if (reason) {
+      reasons[reason] = (reasons[reason] ?? 0) + 1;
+    }
+  }
+
+  const seconds = wallMs / 1000;
+  const perSec = (total: number) => Math.round((total / seconds) * 10) / 10;
+  const sum = (pick: (result: StreamResult) => number) => results.reduce((total, result) => total + pick(result), 0);
+  const errors = count('error');
+  const aborted = count('aborted');
+
+  return {
+    streams: results.length,
+    completed: count('completed'),
+    errors,
+    cancelled: count('cancelled'),
+    aborted,
+    errorRate: rate(errors, results.length),
+    abortRate: rate(aborted, results.length),
+    reasons,
+    ttftMs: distribution(results.flatMap((result) => (result.ttftMs === null ? [] : [result.ttftMs]))),
+    gapMs: distribution(results.flatMap((result) => result.gapsMs)),
+    durationMs: distribution(
+      results.filter((result) => result.status === 'completed').map((result) => result.durationMs)
+    ),
+    throughput: {
+      streamsPerSec: perSec(count('completed')),
+      chunksPerSec: perSec(sum((result) => result.chunks)),
+      bytesPerSec: perSec(sum((result) => result.bytes)),
+      tokensPerSec: perSec(sum((result) => result.completionTokens ?? 0)),
+    },
+  };
+};
+
+const peak = (samples: ServerSample[], pick: (sample: ServerSample) => number | null) =>
+  samples.reduce<number | null>((max, sample) => {
+    const value = pick(sample);
+    return value === null || (max !== null && max >= value) ? max : value;
+  }, null);
+
+const summarizeServer = (baseline: ServerSample | null, samples: ServerSample[]): ServerSummary | null => {
+  if (!baseline) {
+    return null;
+  }
+
+  const busiest = samples.reduce<ServerSample | null>(
+    (best, sample) => ((sample.openStreams ?? 0) > (best?.openStreams ?? 0) ? sample : best),
+    null
+  );
+  const perStream = (pick: (sample: ServerSample) => number | null) => {
+    const now = busiest ? pick(busiest) : null;
+    const before = pick(baseline);
+    return busiest?.openStreams && now !== null && before !== null
+      ? Math.round((now - before) / busiest.openStreams)
+      : null;
+  };
+
+  return {
+    baselineRssBytes: baseline.rssBytes,
+    peakRssBytes: peak(samples, (sample) => sample.rssBytes),
+    peakHeapUsedBytes: peak(samples, (sample) => sample.heapUsedBytes),
+    peakOpenStreams: peak(samples, (sample) => sample.openStreams),
+    rssPerOpenStreamBytes: perStream((sample) => sample.rssBytes),
+    heapPerOpenStreamBytes: perStream((sample) => sample.heapUsedBytes),
+    eventLoopLagP99Ms: distribution(
+      samples.flatMap((sample) => (sample.eventLoopLagP99Ms === null ? [] : [sample.eventLoopLagP99Ms]))
+    ),
+    eventLoopLagMaxMs: peak(samples, (sample) => sample.eventLoopLagMaxMs),
+  };
+};
+
+export const buildReport = (target: string, options: LoadTestOptions, run: LoadTestRun): LoadTestReport => {
+  const byTransport: LoadTestReport['byTransport'] = {};
+  for (const transport of options.transports) {
+    byTransport[transport] = summarize(
+      run.results.filter((result) => result.transport === transport),
+      run.wallMs
+    );
+  }
+
+  return {
+    target,
+    config: {
+      transports: options.transports,
+      concurrency: options.concurrency,
+      rampUpMs: options.rampUpMs,
+      durationMs: options.durationMs,
+      maxRequests: options.maxRequests,
+      cancelRate: options.cancelRate,
+      provider: options.provider,
+      model: options.model,
+      providerOptions: options.providerOptions,
+    },
+    wallMs: run.wallMs,
+    overall: summarize(run.results, run.wallMs),
+    byTransport,
+    server: summarizeServer(run.baseline, run.samples),
+  };
+};
+
+const show = (value: number | null, unit = '') => (value === null ? '-' : `${value}${unit}`);
+const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+const megabytes = (bytes: number | null) => (bytes === null ? '-' : `${(bytes / 1024 / 1024).toFixed(1)} MB`);
+const kilobytes = (bytes: number | null) => (bytes === null ? '-' : `${(bytes / 1024).toFixed(1)} KB`);
+
+const renderTable = (rows: string[][]) => {
+  const widths = rows[0].map((_, column) => Math.max(...rows.map((row) => row[column].length)));
+  return rows
+    .map((row) => row.map((cell, column) => (column === 0 ? cell.padEnd(widths[column]) : cell.padStart(widths[column]))))
+    .map((cells) => cells.join('  '))
+    .join('\n');
+};
+
+export const formatReport = (report: LoadTestReport) => {
+  const header = [
+    'transport',
+    'streams',
+    'ok',
+    'err',
+    'abort',
+    'cancel',
+    'ttft p50',
+    'p95',
+    'p99',
+    'gap p50',
+    'p95',
+    'p99',
+    'streams/s',
+    'chunks/s',
+    'KB/s',
+  ];
+  const row = (name: string, summary: TransportSummary) => [
+    name,
+    String(summary.streams),
+    String(summary.completed),
+    percent(summary.errorRate),
+    percent(summary.abortRate),
+    String(summary.cancelled),
+    show(summary.ttftMs.p50),
+    show(summary.ttftMs.p95),
+    show(summary.ttftMs.p99),
+    show(summary.gapMs.p50),
+    show(summary.gapMs.p95),
+    show(summary.gapMs.p99),
+    String(summary.throughput.streamsPerSec),
+    String(summary.throughput.chunksPerSec),
+    (summary.throughput.bytesPerSec / 1024).toFixed(1),
+  ];
+
+  const transports = Object.entries(report.byTransport) as [Transport, TransportSummary][];
+  const lines = [
+    `Target ${report.target}, ${report.config.concurrency} concurrent, ${(report.wallMs / 1000).toFixed(1)} s (times in ms)`,
+    '',
+    renderTable([
+      header,
+      ...transports.map(([name, summary]) => row(name, summary)),
+      ...(transports.length > 1 ? [row('all', report.overall)] : []),
+    ]),
+  ];
+
+  const reasons = Object.entries(report.overall.reasons);
+  if (reasons.length > 0) {
+    lines.push('', `Failures and aborts: ${reasons.map(([reason, count]) => `${reason} x${count}`).join(', ')}`);
+  }
+
+  const { server } = report;
+  lines.push('');
+  if (server) {
+    lines.push(
+      `Server memory: RSS ${megabytes(server.baselineRssBytes)} idle, ${megabytes(server.peakRssBytes)} peak; ` +
+        `~${kilobytes(server.rssPerOpenStreamBytes)} RSS and ~${kilobytes(server.heapPerOpenStreamBytes)} heap per open stream ` +
+        `(${show(server.peakOpenStreams)} open at peak)`,
+      `Event loop lag: p99 per interval ${show(server.eventLoopLagP99Ms.p50, ' ms')} median, ` +
+        `${show(server.eventLoopLagP99Ms.max, ' ms')} worst; max ${show(server.eventLoopLagMaxMs, ' ms')}`
+    );
+  } else {
+    lines.push('Server metrics: unavailable (GET /metrics did not answer)');
+  }
+
+  return lines.join('\n');
+};
@@ -0,0 +1,80 @@
+import { setTimeout as sleep } from 'node:timers/promises';
+import type { LoadTestOptions } from './options.js';
+import { sampleServer } from './server.js';
+import type { ServerSample } from './server.js';
+import { runStream } from './stream.js';
+import type { StreamPlan, StreamResult } from './stream.js';
+
+export type LoadTestRun = {
+  wallMs: number;
+  results: StreamResult[];
+  // Taken once before the first stream opens.
+  baseline: ServerSample | null;
+  samples: ServerSample[];
+};
+
+const PROGRESS_INTERVAL_MS = 5000;
+
+// Each of the `concurrency` workers opens streams back to back until the duration or
+// request budget runs out. Worker start times are spread evenly over the ramp-up.
+export const runLoadTest = async (baseUrl: string, options: LoadTestOptions): Promise<LoadTestRun> => {
+  const runStartedAt = performance.now();
+  const baseline = await sampleServer(baseUrl, runStartedAt);
+  const deadline = runStartedAt + options.durationMs;
+  const results: StreamResult[] = [];
+  const samples: ServerSample[] = [];
+  let issued = 0;
+  let open = 0;
+
+  const nextPlan = (): StreamPlan | null => {
+    if (performance.now() >= deadline || (options.maxRequests !== null && issued >= options.maxRequests)) {
+      return null;
+    }
+
+    const index = issued;
+    issued += 1;
+    return {
+      transport: options.transports[index % options.transports.length],
+      prompt: options.prompts[index % options.prompts.length],
+      // Cancelled streams stop somewhere in their first 20 chunks.
+      cancelAfterChunks: Math.random() < options.cancelRate ? 1 + Math.floor(Math.random() * 20) : null,
+    };
+  };
+
+  const worker = async (index: number) => {
+    await sleep((options.rampUpMs * index) / options.concurrency);
+    for (let plan = nextPlan(); plan; plan = nextPlan()) {
+      open += 1;
+      results.push(await runStream(baseUrl, plan, options, runStartedAt));
+      open -= 1;
+    }
+  };
+
+  let sampling = true;
+  const sampler = async () => {
+    while (sampling) {
+      await sleep(options.metricsIntervalMs);
+      const sample = await sampleServer(baseUrl, runStartedAt);
+      if (sample) {
+        samples.push(sample);
+      }
+    }
+  };
+
+  const progress = setInterval(() => {
+    const elapsed = Math.round((performance.now() - runStartedAt) / 1000);
+    const failed = results.filter((result) => result.status === 'error').length;
+    process.stderr.write(`[${elapsed}s] open ${open}, finished ${results.length}, errors ${failed}\n`);
+  }, PROGRESS_INTERVAL_MS);
+
+  const samplerDone = baseline ? sampler() : Promise.resolve();
+  try {
+    await Promise.all(Array.from({ length: options.concurrency }, (_, index) => worker(index)));
+  } finally {
+    clearInterval(progress);
+    sampling = false;
+    await samplerDone;
+  }
+
+  return { wallMs: Math.round(performance.now() - runStartedAt), results, baseline, samples };
+};
@@ -0,0 +1,123 @@
+import { spawn } from 'node:child_process';
+import type { ChildProcess } from 'node:child_process';
+import { setTimeout as sleep } from 'node:timers/promises';
+import { fileURLToPath } from 'node:url';
+
+export type LocalServer = {
+  url: string;
+  stop: () => Promise<void>;
+};
+
+// dist/loadtest/src/ -> repo root -> server/
+const SERVER_DIR = fileURLToPath(new URL('../../../../server/', import.meta.url));
+
+// Everything a load test would otherwise trip over: per-client limits (every stream
+// comes from one address), auth, the on-disk conversation store and request logging.
+const LOAD_TEST_ENV = {
+  DEFAULT_PROVIDER: 'mock',
+  EVENTS_PROVIDER: 'mock',
+  RATE_LIMIT_MAX_REQUESTS: '0',
+  MAX_CONCURRENT_STREAMS: '0',
+  API_KEYS: '',
+  API_KEYS_FILE: '',
+  CONVERSATION_STORE: 'memory',
+  LOG_LEVEL: 'warn',
+};
+
+const waitUntilReady = async (url: string, child: ChildProcess, timeoutMs = 15_000) => {
+  const deadline = Date.now() + timeoutMs;
+  while (Date.now() < deadline) {
+    if (child.exitCode !== null) {
+      throw new Error(`server exited with code ${child.exitCode} before it was ready`);
+    }
+
+    try {
+      const res = await fetch(`${url}/metrics`);
+      if (res.ok) {
+        return;
+      }
+    } catch {
+      // Not listening yet.
+    }
+    await sleep(200);
+  }
+  throw new Error(`server did not answer on ${url} within ${timeoutMs} ms`);
+};
+
+// Starts server/index.js on the mock provider, so a run needs no API keys or network.
+export const startLocalServer = async (port: number): Promise<LocalServer> => {
+  const url = `http://127.0.0.1:${port}`;
+  const child = spawn(process.execPath, ['index.js'], {
+    cwd: SERVER_DIR,
+    env: { ...process.env, ...LOAD_TEST_ENV, PORT: String(port) },
+    stdio: ['ignore', 'ignore', 'inherit'],
+  });
+
+  const stop = async () => {
+    if (child.exitCode !== null || child.signalCode !== null) {
+      return;
+    }
+    const exited = new Promise((resolve) => child.once('exit', resolve));
+    child.kill('SIGTERM');
+    await exited;
+  };
+
+  try {
+    await waitUntilReady(url, child);
+  } catch (error) {
+    await stop();
+    throw error;
+  }
+  return { url, stop };
+};
+
+export type ServerSample = {
+  atMs: number;
+  rssBytes: number | null;
+  heapUsedBytes: number | null;
+  openStreams: number | null;
+  eventLoopLagP99Ms: number | null;
+  eventLoopLagMaxMs: number | null;
+};
+
+// Sums every series of a metric that matches the label filter.
+const readMetric = (text: string, name: string, labelFilter = '') => {
+  let total: number | null = null;
+  for (const line of text.split('\n')) {
+    if (!line.startsWith(name) || (line[name.length] !== ' ' && line[name.length] !== '{')) {
+      continue;
+    }
+    if (labelFilter && !line.includes(labelFilter)) {
+      continue;
+    }
+    const value = Number(line.slice(line.lastIndexOf(' ') + 1));
+    if (Number.isFinite(value)) {
+      total = (total ?? 0) + value;
+    }
+  }
+  return total;
+};
+
+const toMs = (seconds: number | null) => (seconds === null ? null : Math.round(seconds * 10_000) / 10);
+
+// Scrapes GET /metrics; null when the server does not expose it.
+export const sampleServer = async (url: string, runStartedAt: number): Promise<ServerSample | null> => {
+  try {
+    const res = await fetch(`${url}/metrics`);
+    if (!res.ok) {
+      return null;
+    }
+
+    const text = await res.text();
+    return {
+      atMs: Math.round(performance.now() - runStartedAt),
+      rssBytes: readMetric(text, 'process_resident_memory_bytes'),
+      heapUsedBytes: readMetric(text, 'nodejs_heap_used_bytes'),
+      openStreams: readMetric(text, 'sse_open_streams'),
+      eventLoopLagP99Ms: toMs(readMetric(text, 'nodejs_eventloop_lag_seconds', 'quantile="0.99"')),
+      eventLoopLagMaxMs: toMs(readMetric(text, 'nodejs_eventloop_lag_seconds', 'quantile="1"')),
+    };
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,35 @@
+export type Distribution = {
+  count: number;
+  min: number | null;
+  p50: number | null;
+  p95: number | null;
+  p99: number | null;
+  max: number | null;
+  mean: number | null;
+};
+
+// Nearest-rank percentile of an ascending array.
+const percentile = (sorted: number[], p: number) => sorted[Math.max(0, Math.ceil((p / 100) * sorted.length) - 1)];
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+export const distribution = (values: number[]): Distribution => {
+  if (values.length === 0) {
+    return { count: 0, min: null, p50: null, p95: null, p99: null, max: null, mean: null };
+  }
+
+  const sorted = Float64Array.from(values).sort();
+  const list = Array.from(sorted);
+  const sum = list.reduce((total, value) => total + value, 0);
+  return {
+    count: list.length,
+    min: round(list[0]),
+    p50: round(percentile(list, 50)),
+    p95: round(percentile(list, 95)),
+    p99: round(percentile(list, 99)),
+    max: round(list[list.length - 1]),
+    mean: round(sum / list.length),
+  };
+};
+
+export const rate = (part: number, total: number) => (total === 0 ? 0 : part / total);
@@ -0,0 +1,140 @@
+import { readSseStream } from '../../shared/sseParser.js';
+import type { DeltaPayload, DonePayload, ErrorPayload, UsagePayload } from '../../shared/protocol.js';
+import type { LoadTestOptions, Transport } from './options.js';
+
+// completed: `done` arrived. error: an `error` frame, an HTTP error or a network failure.
+// cancelled: the client aborted on purpose (--cancel-rate). aborted: the stream ended
+// early without `done` or `error`, or ran past --timeout.
+export type StreamStatus = 'completed' | 'error' | 'cancelled' | 'aborted';
+
+export type StreamResult = {
+  transport: Transport;
+  status: StreamStatus;
+  // HTTP status, or the protocol error code, or why the stream was aborted.
+  reason: string | null;
+  // Offset from the start of the run.
+  startedAtMs: number;
+  ttftMs: number | null;
+  durationMs: number;
+  chunks: number;
+  // Time between consecutive non-empty deltas.
+  gapsMs: number[];
+  bytes: number;
+  completionTokens: number | null;
+};
+
+export type StreamPlan = {
+  transport: Transport;
+  prompt: string;
+  // Abort after this many chunks; null streams to the end.
+  cancelAfterChunks: number | null;
+};
+
+const buildRequest = (baseUrl: string, plan: StreamPlan, options: LoadTestOptions): [string, RequestInit] => {
+  const headers: Record<string, string> = options.apiKey ? { Authorization: `Bearer ${options.apiKey}` } : {};
+  const fields = {
+    prompt: plan.prompt,
+    provider: options.provider,
+    ...(options.model ? { model: options.model } : {}),
+  };
+  const hasProviderOptions = Object.keys(options.providerOptions).length > 0;
+
+  if (plan.transport === 'events') {
+    const query = new URLSearchParams(fields);
+    if (hasProviderOptions) {
+      query.set('providerOptions', JSON.stringify(options.providerOptions));
+    }
+    return [`${baseUrl}/api/events?${query}`, { headers }];
+  }
+
+  const body = { ...fields, ...(hasProviderOptions ? { providerOptions: options.providerOptions } : {}), stream: true };
+  return [
+    `${baseUrl}/api/stream`,
+    { method: 'POST', headers: { ...headers, 'Content-Type': 'application/json' }, body: JSON.stringify(body) },
+  ];
+};
+
+// Runs one stream to the end and measures it. Never throws: failures become results.
+export const runStream = async (
+  baseUrl: string,
+  plan: StreamPlan,
+  options: LoadTestOptions,
+  runStartedAt: number
+): Promise<StreamResult> => {
+  const startedAt = performance.now();
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(new Error('timeout')), options.timeoutMs);
+
+  const result: StreamResult = {
+    transport: plan.transport,
+    status: 'aborted',
+    reason: 'stream ended without done',
+    startedAtMs: Math.round(startedAt - runStartedAt),
+    ttftMs: null,
+    durationMs: 0,
+    chunks: 0,
+    gapsMs: [],
+    bytes: 0,
+    completionTokens: null,
+  };
+  let lastChunkAt: number | null = null;
+
+  try {
+    const [url, init] = buildRequest(baseUrl, plan, options);
+    const res = await fetch(url, { ...init, signal: controller.signal });
+
+    if (!res.ok || !res.body) {
+      const text = await res.text();
+      result.bytes = Buffer.byteLength(text);
+      result.status = 'error';
+      result.reason = `HTTP ${res.status}`;
+      return result;
+    }
+
+    const messages = readSseStream(res.body, { onBytes: (byteLength) => (result.bytes += byteLength) });
+    for await (const message of messages) {
+      if (message.event === 'delta') {
+        const { text } = JSON.parse(message.data) as DeltaPayload;
+        if (!text) {
+          continue;
+        }
+
+        const now = performance.now();
+        if (lastChunkAt === null) {
+          result.ttftMs = Math.round(now - startedAt);
+        } else {
+          result.gapsMs.push(now - lastChunkAt);
+        }
+        lastChunkAt = now;
+        result.chunks += 1;
+
+        if (plan.cancelAfterChunks !== null && result.chunks >= plan.cancelAfterChunks) {
+          result.status = 'cancelled';
+          result.reason = null;
+          break;
+        }
+      } else if (message.event === 'usage') {
+        result.completionTokens = (JSON.parse(message.data) as UsagePayload).completionTokens;
+      } else if (message.event === 'done') {
+        const { finishReason } = JSON.parse(message.data) as DonePayload;
+        result.status = finishReason === 'cancelled' ? 'aborted' : 'completed';
+        result.reason = finishReason === 'cancelled' ? 'cancelled by server' : null;
+        break;
+      } else if (message.event === 'error') {
+        result.status = 'error';
+        result.reason = (JSON.parse(message.data) as ErrorPayload).code;
+        break;
+      }
+    }
+  } catch (error) {
+    const timedOut = controller.signal.aborted;
+    result.status = timedOut ? 'aborted' : 'error';
+    result.reason = timedOut ? 'timeout' : (error as Error).message || 'network error';
+  } finally {
+    clearTimeout(timer);
+    // Leaving the loop early cancels the body, which closes the connection.
+    result.durationMs = Math.round(performance.now() - startedAt);
+  }
+
+  return result;
+};
@@ -1,58 +1,71 @@
 import express from 'express';
-import cors from 'cors';
-import dotenv from 'dotenv';
-import Anthropic from '@anthropic-ai/sdk';
+import { startChatGeneration } from '../../../lib/chatGeneration.js';
+import { parseChatRequest } from '../../../lib/chatRequest.js';
+import { pipeGenerationToResponse, resumeFromRequest } from '../../../lib/sse.js';
+import { chargeTokens } from '../../../lib/auth.js';
+import { findConversation, recordExchange } from '../../../lib/conversations.js';
+import { rejectInvalid } from '../../../lib/rejections.js';
+import { ensureModelAllowed, requireAuth } from '../../../middleware/auth.js';
+import { limitRequests, reserveStreamSlot } from '../../../middleware/rateLimit.js';
 
-dotenv.config();
+const router = express.Router();
 
-const app = express();
-const port = process.env.PORT || 5001;
-
-app.use(cors());
-app.use(express.json());
+// EventSource can only send GET, so everything comes in on the query string:
+// /api/events?prompt=...&provider=anthropic&model=...&temperature=0.2&max_tokens=200
+// (see lib/chatRequest.js for every field). Validation errors arrive as an
+// `invalid_request` error frame. On reconnect the browser repeats the same URL with
+// a Last-Event-ID header.
+router.get(
+  '/',
+  requireAuth({ transport: 'sse', resumable: true }),
+  limitRequests({ transport: 'sse' }),
+  async (req, res) => {
+    if (resumeFromRequest(req, res, { heartbeat: 'event' })) {
+      return;
+    }
 
-const anthropic = new Anthropic({
-  apiKey: process.env.ANTHROPIC_API_KEY,
-});
-app.get('/api/events', async (req, res) => {
-  const prompt = typeof req.query.prompt === 'string' ? req.query.prompt : '';
+    const parsed = parseChatRequest(req.query, { source: 'query', defaultProvider: process.env.EVENTS_PROVIDER });
+    if (parsed.errors) {
+      return rejectInvalid(res, parsed.errors, { transport: 'sse' });
+    }
 
-  if (!prompt.trim()) {
-    return res.status(400).json({ error: 'Prompt is required' });
-  }
+    const { adapter, model, messages, params, providerOptions, tools, n, conversationId } = parsed.value;
 
-  try {
-    res.setHeader('Content-Type', 'text/event-stream; charset=utf-8');
-    res.setHeader('Cache-Control', 'no-cache');
-    res.setHeader('Connection', 'keep-alive');
-    res.flushHeaders();
-
-    const stream = await anthropic.messages.create({
-      model: 'claude-3-haiku-20240307',
-      max_tokens: 1024,
-      messages: [{ role: 'user', content: prompt }],
-      stream: true,
-    });
+    if (!ensureModelAllowed(req, res, model, { transport: 'sse' })) {
+      return;
+    }
 
-    for await (const chunk of stream) {
-      if (chunk.type === 'content_block_delta' && chunk.delta.text) {
-        const payload = JSON.stringify({ text: chunk.delta.text });
-        res.write(`data: ${payload}\n\n`);
-      }
+    const conversation = await findConversation(req, conversationId);
+    if (conversationId && !conversation) {
+      return rejectInvalid(res, { conversationId: 'does not match any of your conversations' }, { transport: 'sse' });
     }
 
-    res.write('data: [DONE]\n\n');
-    res.end();
-  } catch (error) {
-    console.error('Anthropic API Error:', error);
-    if (!res.headersSent) {
-      res.status(500).json({ error: 'Failed to generate response' });
-    } else {
-      res.end();
+    const releaseSlot = reserveStreamSlot(req, res, { transport: 'sse' });
+    if (!releaseSlot) {
+      return;
     }
+
+    const saveReply = conversation ? await recordExchange(req, conversation, messages) : undefined;
+
+    const generation = startChatGeneration({
+      adapter,
+      model,
+      messages,
+      params,
+      options: providerOptions,
+      tools,
+      n,
+      owner: req.principal,
+      route: req.routePath,
+      requestId: req.id,
+      onUsage: (usage) => chargeTokens(req.principal, usage),
+      onFinish: saveReply,
+    });
+
+    generation.settled.then(releaseSlot);
+
+    pipeGenerationToResponse(generation, res, { heartbeat: 'event' });
   }
-});
+);
 
-app.listen(port, () => {
-  console.log(`Server running on http://localhost:${port}`);
-});
+export default router;
@@ -1,57 +1,92 @@
 import express from 'express';
-import cors from 'cors';
-import dotenv from 'dotenv';
-// import Anthropic from '@anthropic-ai/sdk';
-import OpenAI from 'openai';
+import { defaultProviderName } from '../../../providers/index.js';
+import { parseChatRequest } from '../../../lib/chatRequest.js';
+import { PROTOCOL_VERSION } from '../../../lib/protocol.js';
+import { withCost } from '../../../lib/pricing.js';
+import { logger } from '../../../lib/logger.js';
+import { recordGeneration } from '../../../lib/metrics.js';
+import { chargeTokens } from '../../../lib/auth.js';
+import { findConversation, recordExchange } from '../../../lib/conversations.js';
+import { ensureModelAllowed, requireAuth } from '../../../middleware/auth.js';
+import { limitRequests } from '../../../middleware/rateLimit.js';
+import { rejectInvalid } from '../../../lib/rejections.js';
 
-// Load environment variables
-dotenv.config();
+const router = express.Router();
 
-const app = express();
-const port = process.env.PORT || 5001;
-
-// Middleware
-app.use(cors());
-app.use(express.json());
+// Traditional, non-streaming chat endpoint
+// Body: { prompt | messages, provider?, model?, temperature?, top_p?, max_tokens?,
+// stop?, seed?, providerOptions?, conversationId? } (see lib/chatRequest.js); no `tools`, and `n` only as 1.
+router.post('/', requireAuth(), limitRequests(), async (req, res) => {
+  const parsed = parseChatRequest(req.body, { defaultProvider: defaultProviderName });
+  if (parsed.errors) {
+    return rejectInvalid(res, parsed.errors);
+  }
 
-// Initialize Anthropic Client
-// const anthropic = new Anthropic({
-//   apiKey: process.env.ANTHROPIC_API_KEY, // Ensure this is set in your .env file
-// });
+  const { adapter, model, messages, params, providerOptions, tools, n, conversationId } = parsed.value;
 
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY, // Ensure this is set in your .env file
-});
+  // Tool calls and their results are reported as stream events, so they need a stream.
+  if (tools.length > 0) {
+    return rejectInvalid(res, { tools: 'are only supported by the streaming endpoints' });
+  }
+  if (n > 1) {
+    return rejectInvalid(res, { n: 'above 1 is only supported by the streaming endpoints' });
+  }
 
-// Traditional, non-streaming chat endpoint
-app.post('/api/chat', async (req, res) => {
-  const { prompt } = req.body;
+  if (!ensureModelAllowed(req, res, model)) {
+    return;
+  }
 
-  if (!prompt) {
-    return res.status(400).json({ error: 'Prompt is required' });
+  const conversation = await findConversation(req, conversationId);
+  if (conversationId && !conversation) {
+    return rejectInvalid(res, { conversationId: 'does not match any of your conversations' });
   }
+  const saveReply = conversation ? await recordExchange(req, conversation, messages) : null;
+
+  const context = {
+    requestId: req.id,
+    route: req.routePath,
+    provider: adapter.name,
+    model,
+  };
+  const startedAt = performance.now();
 
   try {
-    console.log(`Received prompt: "${prompt}", waiting for OpenAI...`);
-    
     // Block and wait for the full response (non-streaming)
-    const msg = await openai.chat.completions.create({
-      model: 'gpt-5-mini',
-      messages: [{ role: 'user', content: prompt }],
+    const result = await adapter.complete({ model, messages, params, options: providerOptions });
+
+    const usage = result.usage ? withCost(model, result.usage) : null;
+    const finishReason = result.stopReason ?? 'stop';
+    const durationMs = Math.round(performance.now() - startedAt);
+
+    chargeTokens(req.principal, usage);
+    await saveReply?.({ ...context, text: result.text, outcome: 'completed', finishReason, usage });
+    recordGeneration({ ...context, outcome: 'completed', ttftMs: null, durationMs, usage });
+    logger.info('generation_finished', {
+      ...context,
+      outcome: 'completed',
+      finishReason,
+      durationMs,
+      promptTokens: usage?.promptTokens ?? null,
+      completionTokens: usage?.completionTokens ?? null,
+      costUsd: usage?.costUsd ?? null,
     });
 
-    const responseText = msg.choices?.[0]?.message?.content || '';
-    console.log('Response fully generated. Sending to client.');
-    
-    // Send the complete response back to the React app
-    res.json({ response: responseText });
+    // Send the complete response back to the React app (ChatResponse in shared/protocol.ts)
+    res.json({
+      v: PROTOCOL_VERSION,
+      requestId: req.id,
+      response: result.text,
+      finishReason,
+      usage,
+    });
 
   } catch (error) {
-    console.error('Anthropic API Error:', error);
-    res.status(500).json({ error: 'Failed to generate response' });
+    const durationMs = Math.round(performance.now() - startedAt);
+
+    recordGeneration({ ...context, outcome: 'error', ttftMs: null, durationMs, usage: null, errorCode: 'upstream_error' });
+    logger.error('upstream_error', { ...context, durationMs, error });
+    res.status(500).json({ error: 'Failed to generate response', requestId: req.id });
   }
 });
 
-app.listen(port, () => {
-  console.log(`Server running on http://localhost:${port}`);
-});
\ No newline at end of file
+export default router;
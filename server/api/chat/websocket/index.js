@@ -0,0 +1,256 @@
+import express from 'express';
+import { startChatGeneration } from '../../../lib/chatGeneration.js';
+import { parseChatRequest } from '../../../lib/chatRequest.js';
+import { chargeTokens, isModelAllowed, takeQuota } from '../../../lib/auth.js';
+import { findConversation, recordExchange } from '../../../lib/conversations.js';
+import { isOriginAllowed } from '../../../lib/cors.js';
+import { logger } from '../../../lib/logger.js';
+import { metrics } from '../../../lib/metrics.js';
+import { frame } from '../../../lib/protocol.js';
+import { acquireStreamSlot, clientKey, RATE_LIMITS, takeRequest } from '../../../lib/rateLimit.js';
+import { rejectInvalid } from '../../../lib/rejections.js';
+import { readLastEventId, SSE_HEARTBEAT_MS } from '../../../lib/sse.js';
+import { acceptWebSocket, isUpgradeRequest } from '../../../lib/websocket.js';
+import { requireAuth } from '../../../middleware/auth.js';
+
+const router = express.Router();
+
+// Finished generations a connection remembers so `steer` can continue from them.
+const MAX_REMEMBERED_GENERATIONS = 20;
+
+/*
+ * One socket carries any number of generations, each tagged with a client-chosen `ref`.
+ * Client messages are JSON (see WsClientMessage in shared/protocol.ts):
+ *
+ *   { type: 'start', ref, request }   request: the POST /api/stream body
+ *   { type: 'cancel', generationId }  stops that generation; its `done` says `cancelled`
+ *   { type: 'steer', ref, generationId, content }
+ *                                     cancels the generation if it is still running and
+ *                                     starts a new one whose history is the old one's,
+ *                                     its reply so far, and `content` as the next user turn
+ *
+ * The server answers with the SSE protocol's frames as `{ ref, id?, event, data }`, data
+ * parsed. Refused messages get an `error` frame without an id; heartbeats carry no ref.
+ * Generations stop when the socket closes, unless viewers are watching them through
+ * GET /api/generations/:id/events: there is no Last-Event-ID resume here, so upgrade
+ * requests carrying one are refused. A socket that stops reading pauses its generations
+ * (see acceptWebSocket's `drained`) and is dropped once it falls too far behind.
+ */
+router.get('/', requireAuth({ transport: 'ws', chargeQuota: false }), (req, res) => {
+  if (readLastEventId(req)) {
+    return rejectInvalid(res, { lastEventId: 'is not supported: WebSocket generations cannot be resumed' });
+  }
+
+  if (!isUpgradeRequest(req)) {
+    res.setHeader('Upgrade', 'websocket');
+    return res.status(426).json({ error: 'Connect with a WebSocket client' });
+  }
+
+  if (!isOriginAllowed(req.get('Origin'))) {
+    return res.status(403).json({ error: 'Origin not allowed' });
+  }
+
+  const route = req.routePath;
+  const key = clientKey(req);
+  // generationId -> { ref, generation, body, messages, text, unsubscribe }
+  const generations = new Map();
+  let started = 0;
+  let heartbeatTimer = null;
+
+  // Only called once the handshake is done and `connection` is set.
+  const send = (ref, { id, event, data }) =>
+    connection.send(JSON.stringify({ ref, ...(id ? { id } : {}), event, data: JSON.parse(data) }));
+
+  const refuse = (ref, code, message, { retryAfterMs, fields } = {}) =>
+    send(ref, frame('error', { code, message, retryable: retryAfterMs !== undefined, retryAfterMs, fields }));
+
+  const refuseRateLimited = (ref, reason, retryAfterMs) => {
+    const retryAfterSec = Math.max(1, Math.ceil(retryAfterMs / 1000));
+    metrics.rateLimited.inc({ route, reason });
+    logger.warn('rate_limited', { requestId: req.id, route, reason, retryAfterMs });
+    const what = reason === 'streams' ? 'too many open streams' : 'too many requests';
+    refuse(ref, 'rate_limited', `Rate limited (${what}), retry in ${retryAfterSec}s`, {
+      retryAfterMs: retryAfterSec * 1000,
+    });
+  };
+
+  const forget = () => {
+    for (const [id, entry] of generations) {
+      if (generations.size <= MAX_REMEMBERED_GENERATIONS) {
+        return;
+      }
+      if (entry.generation.finished) {
+        generations.delete(id);
+      }
+    }
+  };
+
+  // Same checks and order as the HTTP endpoints: quota, request rate, validation,
+  // model allowlist, conversation, concurrent-stream slot.
+  const start = async (ref, body) => {
+    const exhausted = takeQuota(req.principal);
+    if (exhausted) {
+      const retryAfterSec = Math.max(1, Math.ceil(exhausted.retryAfterMs / 1000));
+      logger.warn('quota_exceeded', { requestId: req.id, route, key: req.principal.id });
+      return refuse(ref, 'quota_exceeded', `Quota exceeded for this API key, retry in ${retryAfterSec}s`, {
+        retryAfterMs: retryAfterSec * 1000,
+      });
+    }
+
+    const limited = takeRequest(key);
+    if (limited) {
+      return refuseRateLimited(ref, 'requests', limited.retryAfterMs);
+    }
+
+    const parsed = parseChatRequest(body);
+    if (parsed.errors) {
+      const [field, problem] = Object.entries(parsed.errors)[0];
+      return refuse(ref, 'invalid_request', `${field} ${problem}`, { fields: parsed.errors });
+    }
+
+    const { adapter, model, messages, params, providerOptions, tools, n, conversationId } = parsed.value;
+
+    if (!isModelAllowed(req.principal, model)) {
+      return refuse(ref, 'model_not_allowed', `This API key may not use model "${model}"`);
+    }
+
+    const conversation = await findConversation(req, conversationId);
+    if (conversationId && !conversation) {
+      const fields = { conversationId: 'does not match any of your conversations' };
+      return refuse(ref, 'invalid_request', `conversationId ${fields.conversationId}`, { fields });
+    }
+
+    const releaseSlot = acquireStreamSlot(key);
+    if (!releaseSlot) {
+      return refuseRateLimited(ref, 'streams', RATE_LIMITS.concurrencyRetryAfterMs);
+    }
+
+    const saveReply = conversation ? await recordExchange(req, conversation, messages) : undefined;
+
+    started += 1;
+    const generation = startChatGeneration({
+      adapter,
+      model,
+      messages,
+      params,
+      options: providerOptions,
+      tools,
+      n,
+      owner: req.principal,
+      route,
+      // One socket sends many requests; number them so each generation stays traceable.
+      requestId: `${req.id}.${started}`,
+      onUsage: (usage) => chargeTokens(req.principal, usage),
+      onFinish: saveReply,
+    });
+    generation.settled.then(releaseSlot);
+
+    const entry = { ref, generation, body, messages, n, text: '', unsubscribe: null };
+    generations.set(generation.id, entry);
+    forget();
+
+    entry.unsubscribe = generation.subscribe({
+      write: (_text, generationFrame) => {
+        if (generationFrame.event === 'delta') {
+          entry.text += JSON.parse(generationFrame.data).text;
+        }
+        send(ref, generationFrame);
+      },
+      end: () => {
+        entry.unsubscribe = null;
+      },
+      drained: () => connection.drained(),
+    });
+  };
+
+  const steer = async (ref, generationId, content) => {
+    const base = generations.get(generationId);
+    if (!base) {
+      const fields = { generationId: 'does not match a generation on this connection' };
+      return refuse(ref, 'invalid_request', `generationId ${fields.generationId}`, { fields });
+    }
+    if (base.n > 1) {
+      // There is no single reply so far to continue from.
+      const fields = { generationId: 'has several candidates; start a new generation with the one you picked' };
+      return refuse(ref, 'invalid_request', `generationId ${fields.generationId}`, { fields });
+    }
+
+    base.generation.cancel();
+    // Once settled, `text` holds everything the old generation produced.
+    await base.generation.settled;
+
+    // Start over from the normalized history; `prompt` and `message` are folded into it.
+    const { prompt: _prompt, message: _message, ...rest } = base.body;
+    const reply = base.text ? [{ role: 'assistant', content: base.text }] : [];
+    await start(ref, { ...rest, messages: [...base.messages, ...reply, { role: 'user', content }] });
+  };
+
+  const handleMessage = async (ref, message) => {
+    switch (message?.type) {
+      case 'start':
+        return start(ref, message.request && typeof message.request === 'object' ? message.request : {});
+      case 'steer':
+        if (typeof message.content !== 'string') {
+          return refuse(ref, 'invalid_request', 'content must be a string', { fields: { content: 'must be a string' } });
+        }
+        return steer(ref, message.generationId, message.content);
+      case 'cancel': {
+        const entry = generations.get(message.generationId);
+        if (!entry) {
+          const fields = { generationId: 'does not match a generation on this connection' };
+          return refuse(ref, 'invalid_request', `generationId ${fields.generationId}`, { fields });
+        }
+        entry.generation.cancel();
+        return;
+      }
+      default:
+        return refuse(ref, 'invalid_request', 'type must be start, steer or cancel', {
+          fields: { type: 'must be start, steer or cancel' },
+        });
+    }
+  };
+
+  const connection = acceptWebSocket(req, res, {
+    onSlowClient: (reason) => {
+      metrics.slowConsumers.inc({ route, reason });
+      logger.warn('ws_slow_consumer', { requestId: req.id, route, reason });
+    },
+    onMessage: (text) => {
+      let message;
+      try {
+        message = JSON.parse(text);
+      } catch {
+        return refuse(null, 'invalid_request', 'Messages must be JSON');
+      }
+
+      // The failure goes to the stream that sent the message, or the client never hears of it.
+      const ref = typeof message?.ref === 'string' ? message.ref : null;
+      handleMessage(ref, message).catch((error) => {
+        logger.error('websocket_message_failed', { requestId: req.id, route, error });
+        refuse(ref, 'internal_error', 'Something went wrong handling the message');
+      });
+    },
+    onClose: (code) => {
+      clearInterval(heartbeatTimer);
+      metrics.openSockets.dec({ route });
+      for (const entry of generations.values()) {
+        entry.unsubscribe?.();
+        // Watched ones run on, and are aborted once the last viewer's grace period ends.
+        if (entry.generation.watchers === 0) {
+          entry.generation.cancel();
+        }
+      }
+      logger.info('websocket_closed', { requestId: req.id, route, code, generations: started });
+    },
+  });
+  if (!connection) {
+    return;
+  }
+
+  metrics.openSockets.inc({ route });
+  if (SSE_HEARTBEAT_MS > 0) {
+    heartbeatTimer = setInterval(() => send(null, frame('heartbeat', { ts: Date.now() })), SSE_HEARTBEAT_MS);
+  }
+});
+
+export default router;
@@ -0,0 +1,96 @@
+import express from 'express';
+import { CONVERSATION_LIMITS, conversationOwner } from '../../lib/conversations.js';
+import { MESSAGE_LIMITS, MESSAGE_ROLES } from '../../lib/messages.js';
+import { rejectInvalid } from '../../lib/rejections.js';
+import { requireAuth } from '../../middleware/auth.js';
+import { conversationStore } from '../../stores/index.js';
+
+const router = express.Router();
+
+// Saved chat threads, scoped to the caller's API key. Reading and editing them spends
+// no provider credits, so none of these count against the key's quota.
+// Shapes: ConversationSummary, Conversation and ConversationMessage in shared/protocol.ts.
+router.use(requireAuth({ chargeQuota: false }));
+
+const notFound = (res) => res.status(404).json({ error: 'Conversation not found' });
+
+// Returns the problem with a title, or null when it is acceptable.
+const checkTitle = (title) =>
+  typeof title === 'string' && title.length <= CONVERSATION_LIMITS.maxTitleChars
+    ? null
+    : `must be a string of at most ${CONVERSATION_LIMITS.maxTitleChars} characters`;
+
+router.get('/', async (req, res) => {
+  res.json({ conversations: await conversationStore.list(conversationOwner(req)) });
+});
+
+// Body: { title? }. Untitled conversations are named after their first prompt.
+router.post('/', async (req, res) => {
+  const { title = '' } = req.body ?? {};
+  const problem = checkTitle(title);
+  if (problem) {
+    return rejectInvalid(res, { title: problem });
+  }
+
+  res.status(201).json(await conversationStore.create(conversationOwner(req), { title: title.trim() }));
+});
+
+router.get('/:id', async (req, res) => {
+  const conversation = await conversationStore.get(conversationOwner(req), req.params.id);
+  if (!conversation) {
+    return notFound(res);
+  }
+  res.json(conversation);
+});
+
+// Body: { title }
+router.patch('/:id', async (req, res) => {
+  const { title } = req.body ?? {};
+  const problem = checkTitle(title);
+  if (problem) {
+    return rejectInvalid(res, { title: problem });
+  }
+
+  const conversation = await conversationStore.update(conversationOwner(req), req.params.id, { title: title.trim() });
+  if (!conversation) {
+    return notFound(res);
+  }
+  res.json(conversation);
+});
+
+router.delete('/:id', async (req, res) => {
+  if (!(await conversationStore.remove(conversationOwner(req), req.params.id))) {
+    return notFound(res);
+  }
+  res.status(204).end();
+});
+
+router.get('/:id/messages', async (req, res) => {
+  const conversation = await conversationStore.get(conversationOwner(req), req.params.id);
+  if (!conversation) {
+    return notFound(res);
+  }
+  res.json({ messages: conversation.messages });
+});
+
+// Body: { role, content }. For turns produced elsewhere; the chat endpoints save their
+// own exchanges when given a `conversationId`.
+router.post('/:id/messages', async (req, res) => {
+  const { role, content } = req.body ?? {};
+  if (!MESSAGE_ROLES.includes(role)) {
+    return rejectInvalid(res, { role: `must be one of ${MESSAGE_ROLES.join(', ')}` });
+  }
+  if (typeof content !== 'string' || !content.trim() || content.length > MESSAGE_LIMITS.maxMessageChars) {
+    return rejectInvalid(res, {
+      content: `must be a non-empty string of at most ${MESSAGE_LIMITS.maxMessageChars} characters`,
+    });
+  }
+
+  const message = await conversationStore.appendMessage(conversationOwner(req), req.params.id, { role, content });
+  if (!message) {
+    return notFound(res);
+  }
+  res.status(201).json(message);
+});
+
+export default router;
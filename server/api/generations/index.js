@@ -0,0 +1,58 @@
+import express from 'express';
+import { getGeneration, isOwner } from '../../lib/generations.js';
+import { rejectRequest } from '../../lib/rejections.js';
+import { pipeGenerationToResponse, resumeFromRequest } from '../../lib/sse.js';
+import { requireAuth } from '../../middleware/auth.js';
+import { limitRequests } from '../../middleware/rateLimit.js';
+
+const router = express.Router();
+
+// Watches a generation someone else started, e.g. from a shared live link: the text
+// so far (replayed, or as one `snapshot` frame once the replay buffer has moved on),
+// then live frames, over EventSource like GET /api/events. Viewers keep the generation
+// running just as its owner's connection does, but one that lags is disconnected
+// rather than slowing it down; watching spends no quota.
+router.get(
+  '/:id/events',
+  requireAuth({ transport: 'sse', chargeQuota: false, resumable: true }),
+  limitRequests({ transport: 'sse' }),
+  (req, res) => {
+    if (resumeFromRequest(req, res, { heartbeat: 'event', lateJoin: true, viewer: true })) {
+      return;
+    }
+
+    const generation = getGeneration(req.params.id);
+    if (!generation) {
+      return rejectRequest(res, {
+        status: 404,
+        code: 'generation_not_found',
+        message: 'This generation is unknown or finished too long ago',
+        transport: 'sse',
+      });
+    }
+
+    pipeGenerationToResponse(generation, res, { heartbeat: 'event', lateJoin: true, viewer: true });
+  }
+);
+
+// Explicit cancel. Closing the connection alone only starts the resume grace period,
+// so the pages call this when the user presses Stop. It stops the generation for its
+// viewers too, so only the key that started it may.
+router.delete('/:id', requireAuth({ chargeQuota: false }), (req, res) => {
+  const generation = getGeneration(req.params.id);
+  if (!generation) {
+    return res.status(404).json({ error: 'Generation not found' });
+  }
+  if (!isOwner(generation, req.principal)) {
+    return rejectRequest(res, {
+      status: 403,
+      code: 'not_generation_owner',
+      message: 'Only the API key that started this generation may cancel it',
+    });
+  }
+
+  generation.cancel();
+  res.status(204).end();
+});
+
+export default router;
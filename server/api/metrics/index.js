@@ -0,0 +1,11 @@
+import express from 'express';
+import { renderMetrics } from '../../lib/metrics.js';
+
+const router = express.Router();
+
+// Prometheus scrape target.
+router.get('/', (req, res) => {
+  res.type('text/plain; version=0.0.4; charset=utf-8').send(renderMetrics());
+});
+
+export default router;
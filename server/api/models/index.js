@@ -0,0 +1,36 @@
+import express from 'express';
+import { isModelAllowed } from '../../lib/auth.js';
+import { describeParams, PARAM_LIMITS } from '../../lib/chatRequest.js';
+import { getModelPrice } from '../../lib/pricing.js';
+import { defaultProviderName, getProvider, providerNames } from '../../providers/index.js';
+import { describeTool, getTool, toolNames } from '../../tools/index.js';
+import { requireAuth } from '../../middleware/auth.js';
+
+const router = express.Router();
+
+// What the model pickers offer: every provider's allowlisted models (narrowed to what
+// the caller's API key may use), their prices and the generation params each accepts,
+// plus the tools a request may enable and how many candidates (`n`) it may ask for.
+// Shape: ModelsResponse in shared/protocol.ts.
+router.get('/', requireAuth({ chargeQuota: false }), (req, res) => {
+  const providers = providerNames
+    .map(getProvider)
+    .map((adapter) => ({
+      name: adapter.name,
+      defaultModel: adapter.defaultModel,
+      models: adapter.models
+        .filter((model) => isModelAllowed(req.principal, model))
+        .map((id) => ({ id, price: getModelPrice(id) })),
+      params: describeParams(adapter),
+    }))
+    .filter((provider) => provider.models.length > 0);
+
+  res.json({
+    defaultProvider: defaultProviderName,
+    providers,
+    tools: toolNames.map((name) => describeTool(getTool(name))),
+    maxCandidates: PARAM_LIMITS.maxCandidates,
+  });
+});
+
+export default router;
@@ -0,0 +1,15 @@
+import express from 'express';
+import { issueStreamTicket } from '../../lib/auth.js';
+import { requireAuth } from '../../middleware/auth.js';
+
+const router = express.Router();
+
+// Trades an API key for a short-lived signed ticket that GET /api/events and the
+// /api/ws upgrade accept as `?ticket=...`, because browsers cannot send an
+// Authorization header on either.
+// Issuing a ticket is free; the stream it opens is what counts against the quota.
+router.post('/', requireAuth({ chargeQuota: false }), (req, res) => {
+  res.status(201).json(issueStreamTicket(req.principal));
+});
+
+export default router;
@@ -0,0 +1,64 @@
+import { fileURLToPath } from 'node:url';
+import express from 'express';
+import cors from 'cors';
+import standardRouter from './api/chat/standard/index.js';
+import eventsRouter from './api/chat/SSE/index.js';
+import streamRouter from './api/chat/new_solution/index.js';
+import websocketRouter from './api/chat/websocket/index.js';
+import conversationsRouter from './api/conversations/index.js';
+import generationsRouter from './api/generations/index.js';
+import metricsRouter from './api/metrics/index.js';
+import modelsRouter from './api/models/index.js';
+import streamTicketsRouter from './api/stream_tickets/index.js';
+import { readCorsOrigins } from './lib/cors.js';
+import { errorHandler, notFoundHandler } from './middleware/errorHandler.js';
+import { requestId } from './middleware/requestId.js';
+
+// Every endpoint the React pages talk to, mounted side by side on one app.
+export const routes = [
+  { method: 'POST', path: '/api/chat', router: standardRouter, description: 'non-streaming JSON' },
+  { method: 'GET', path: '/api/events', router: eventsRouter, description: 'EventSource SSE' },
+  { method: 'POST', path: '/api/stream', router: streamRouter, description: 'fetch POST SSE' },
+  { method: 'GET', path: '/api/ws', router: websocketRouter, description: 'WebSocket streaming with cancel and steering' },
+  { method: 'GET', path: '/api/models', router: modelsRouter, description: 'model picker catalog' },
+  { method: 'POST', path: '/api/stream-tickets', router: streamTicketsRouter, description: 'signed ticket for EventSource auth' },
+  { method: 'GET|POST|PATCH|DELETE', path: '/api/conversations', router: conversationsRouter, description: 'saved conversations and messages' },
+  { method: 'GET|DELETE', path: '/api/generations', router: generationsRouter, description: '/:id/events watches a generation live, /:id cancels it' },
+  { method: 'GET', path: '/metrics', router: metricsRouter, description: 'Prometheus metrics' },
+];
+
+export const createApp = () => {
+  const app = express();
+
+  // Behind a proxy or load balancer, set TRUST_PROXY (a hop count or Express trust
+  // value) so `req.ip`, used to key rate limits, is the real client address.
+  if (process.env.TRUST_PROXY) {
+    const hops = Number(process.env.TRUST_PROXY);
+    app.set('trust proxy', Number.isInteger(hops) ? hops : process.env.TRUST_PROXY);
+  }
+
+  // Shared middleware
+  app.use(requestId);
+  // Browsers only let scripts read response headers that are explicitly exposed.
+  app.use(cors({ origin: readCorsOrigins(), exposedHeaders: ['X-Request-Id', 'Retry-After'] }));
+  app.use(express.json());
+  // html-client has no build step, so it imports the shared browser modules (SSE parser,
+  // render pacer) from here, under the same CORS rules as the API.
+  app.use('/shared', express.static(fileURLToPath(new URL('../shared', import.meta.url))));
+
+  for (const route of routes) {
+    app.use(
+      route.path,
+      (req, _res, next) => {
+        req.routePath = route.path;
+        next();
+      },
+      route.router
+    );
+  }
+
+  app.use(notFoundHandler);
+  app.use(errorHandler);
+
+  return app;
+};
@@ -0,0 +1,23 @@
+// Load environment variables before any route module builds its SDK client.
+import 'dotenv/config';
+import { createApp, routes } from './app.js';
+import { defaultProviderName, providerNames } from './providers/index.js';
+import { logger } from './lib/logger.js';
+import { routeUpgrades } from './lib/websocket.js';
+import { conversationStore } from './stores/index.js';
+
+const port = process.env.PORT || 5001;
+const app = createApp();
+
+const server = app.listen(port, () => {
+  logger.info('server_started', {
+    url: `http://localhost:${port}`,
+    routes: routes.map((route) => `${route.method} ${route.path} (${route.description})`),
+    providers: providerNames,
+    defaultProvider: defaultProviderName,
+    conversationStore: conversationStore.name,
+  });
+});
+
+// WebSocket handshakes (GET /api/ws) go through the same Express app.
+server.on('upgrade', routeUpgrades(app));
@@ -0,0 +1,160 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'node:crypto';
+import { readFileSync } from 'node:fs';
+import { readInt } from './env.js';
+import { logger } from './logger.js';
+
+/*
+ * API keys for the endpoints that spend provider credits. Keys come from API_KEYS
+ * (JSON) or API_KEYS_FILE (path to the same JSON), keyed by the secret itself:
+ *
+ *   {
+ *     "sk-dev-123": {
+ *       "name": "dev",
+ *       "models": ["gpt-4o-mini", "claude-*", "mock-*"],
+ *       "quota": { "requests": 500, "tokens": 200000, "windowMs": 86400000 }
+ *     }
+ *   }
+ *
+ * `models` is optional (all models allowed); a trailing `*` matches a prefix.
+ * `quota` is optional; each of its limits is too. With no keys configured at all,
+ * auth is disabled so local development keeps working.
+ */
+
+const DEFAULT_QUOTA_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+export const STREAM_TICKET_TTL_MS = readInt('STREAM_TICKET_TTL_MS', 60000, { min: 1000 });
+
+const hashKey = (secret) => createHash('sha256').update(secret).digest();
+
+const readKeyConfig = () => {
+  try {
+    if (process.env.API_KEYS_FILE) {
+      return JSON.parse(readFileSync(process.env.API_KEYS_FILE, 'utf8'));
+    }
+    return process.env.API_KEYS ? JSON.parse(process.env.API_KEYS) : {};
+  } catch (error) {
+    // Refusing to start beats silently running without auth.
+    throw new Error(`Could not read API keys: ${error.message}`);
+  }
+};
+
+const toPrincipal = (secret, config, index) => ({
+  id: typeof config?.name === 'string' && config.name ? config.name : `key-${index + 1}`,
+  hash: hashKey(secret),
+  models: Array.isArray(config?.models) ? config.models.filter((model) => typeof model === 'string') : null,
+  quota: {
+    requests: Number.isFinite(config?.quota?.requests) ? config.quota.requests : null,
+    tokens: Number.isFinite(config?.quota?.tokens) ? config.quota.tokens : null,
+    windowMs: Number.isFinite(config?.quota?.windowMs) ? config.quota.windowMs : DEFAULT_QUOTA_WINDOW_MS,
+  },
+});
+
+const principals = Object.entries(readKeyConfig()).map(([secret, config], index) => toPrincipal(secret, config, index));
+
+export const authEnabled = principals.length > 0;
+
+// Tickets only need to survive one process, so a random secret is fine unless
+// several instances sit behind one load balancer.
+const ticketSecret = process.env.STREAM_TICKET_SECRET || randomBytes(32).toString('hex');
+
+if (!authEnabled) {
+  logger.warn('auth_disabled', { hint: 'set API_KEYS or API_KEYS_FILE to require API keys' });
+}
+
+// `Authorization: Bearer <key>`, or X-API-Key for clients that cannot set the former.
+export const readBearerToken = (req) =>
+  /^Bearer\s+(.+)$/i.exec(req.get('Authorization') ?? '')?.[1] ?? req.get('X-API-Key') ?? null;
+
+// Constant-time lookup: every configured key is compared, match or not.
+export const findPrincipal = (secret) => {
+  if (typeof secret !== 'string' || !secret) {
+    return null;
+  }
+
+  const hash = hashKey(secret);
+  let found = null;
+  for (const principal of principals) {
+    if (timingSafeEqual(hash, principal.hash)) {
+      found = principal;
+    }
+  }
+  return found;
+};
+
+const getPrincipalById = (id) => principals.find((principal) => principal.id === id) ?? null;
+
+export const isModelAllowed = (principal, model) =>
+  !principal?.models ||
+  principal.models.some((pattern) =>
+    pattern.endsWith('*') ? model.startsWith(pattern.slice(0, -1)) : model === pattern
+  );
+
+// Stream tickets let GET endpoints authenticate without headers, since native
+// EventSource cannot send any: `<base64url payload>.<base64url HMAC>`.
+const sign = (payload) => createHmac('sha256', ticketSecret).update(payload).digest('base64url');
+
+export const issueStreamTicket = (principal) => {
+  const expiresAt = Date.now() + STREAM_TICKET_TTL_MS;
+  const payload = Buffer.from(JSON.stringify({ sub: principal?.id ?? null, exp: expiresAt })).toString('base64url');
+  return { ticket: `${payload}.${sign(payload)}`, expiresAt };
+};
+
+// Returns the ticket's principal, or null for a forged, malformed or expired ticket.
+// `allowExpired` accepts a genuine ticket past its expiry, for resumes (see requireAuth).
+export const verifyStreamTicket = (ticket, { allowExpired = false } = {}) => {
+  const [payload, signature] = typeof ticket === 'string' ? ticket.split('.') : [];
+  if (!payload || !signature) {
+    return null;
+  }
+
+  const expected = Buffer.from(sign(payload));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  try {
+    const { sub, exp } = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    return typeof exp === 'number' && (allowExpired || exp > Date.now()) ? getPrincipalById(sub) : null;
+  } catch {
+    return null;
+  }
+};
+
+// Per-key quota windows: { requests, tokens, resetAt }.
+const usageWindows = new Map();
+
+const currentWindow = (principal) => {
+  const now = Date.now();
+  let entry = usageWindows.get(principal.id);
+  if (!entry || entry.resetAt <= now) {
+    entry = { requests: 0, tokens: 0, resetAt: now + principal.quota.windowMs };
+    usageWindows.set(principal.id, entry);
+  }
+  return entry;
+};
+
+// Counts one request against the key's quota. Returns null when allowed, otherwise
+// `{ retryAfterMs }` until the quota window resets.
+export const takeQuota = (principal) => {
+  if (!principal) {
+    return null;
+  }
+
+  const { requests, tokens } = principal.quota;
+  const entry = currentWindow(principal);
+  const exhausted = (requests !== null && entry.requests >= requests) || (tokens !== null && entry.tokens >= tokens);
+  if (exhausted) {
+    return { retryAfterMs: entry.resetAt - Date.now() };
+  }
+
+  entry.requests += 1;
+  return null;
+};
+
+// Token usage is only known once a generation ends, so it is charged afterwards.
+export const chargeTokens = (principal, usage) => {
+  if (principal && usage) {
+    currentWindow(principal).tokens += usage.promptTokens + usage.completionTokens;
+  }
+};
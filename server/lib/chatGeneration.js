@@ -0,0 +1,322 @@
+import { isAbortError, streamChat } from '../providers/index.js';
+import { describeTool, getTool, runToolCall, TOOL_LIMITS } from '../tools/index.js';
+import { readInt } from './env.js';
+import { logger } from './logger.js';
+import { metrics, recordGeneration } from './metrics.js';
+import { startGeneration } from './generations.js';
+import { withCost } from './pricing.js';
+import {
+  candidateDoneFrame,
+  deltaFrame,
+  doneFrame,
+  errorFrame,
+  errorFrameFromException,
+  metaFrame,
+  snapshotFrame,
+  toolCallDeltaFrame,
+  toolCallFrame,
+  toolResultFrame,
+  usageFrame,
+} from './protocol.js';
+import { SSE_HEARTBEAT_MS } from './sse.js';
+
+export const STREAM_TIMEOUTS = {
+  // Longest silence allowed from the provider (including before the first token).
+  upstreamIdleMs: readInt('UPSTREAM_IDLE_TIMEOUT_MS', 30000),
+  // Hard cap on a whole generation.
+  maxDurationMs: readInt('MAX_STREAM_DURATION_MS', 300000),
+};
+
+// Each round's usage is final for that round; a generation's usage is their sum.
+const addUsage = (total, usage) =>
+  total && usage
+    ? {
+        promptTokens: total.promptTokens + usage.promptTokens,
+        completionTokens: total.completionTokens + usage.completionTokens,
+      }
+    : (usage ?? total);
+
+// A round cut short (cancelled, timed out, failed) still cost tokens: what the provider
+// reported so far, or else a rough estimate (about 4 characters per token) from the
+// prompt and the text streamed, so stopping just before the end is not free. A round
+// that failed before producing anything is not charged.
+const CHARS_PER_TOKEN = 4;
+const estimateTokens = (text) => Math.ceil(text.length / CHARS_PER_TOKEN);
+const unfinishedUsage = ({ history, reported, streamed }) => {
+  if (reported.size > 0) {
+    return [...reported.values()].reduce(addUsage, null);
+  }
+  if (!streamed) {
+    return null;
+  }
+
+  const prompt = history.map((message) => (typeof message.content === 'string' ? message.content : '')).join('');
+  return { promptTokens: estimateTokens(prompt), completionTokens: estimateTokens(streamed) };
+};
+
+// Viewers joining after the replay buffer dropped the first frames get a snapshot
+// instead: the meta and every candidate's text so far. Tool calls are not part of it.
+const GENERATION_OPTIONS = {
+  catchUp: {
+    fold: (state = { meta: null, texts: [] }, { event, data }) => {
+      if (event === 'meta') {
+        state.meta = JSON.parse(data);
+      } else if (event === 'delta') {
+        const { text, candidate = 0 } = JSON.parse(data);
+        state.texts[candidate] = (state.texts[candidate] ?? '') + text;
+      }
+      return state;
+    },
+    frame: ({ meta, texts }) => snapshotFrame(meta, texts),
+  },
+};
+
+// Runs one chat completion as a resumable generation, translating the provider's
+// normalized events into protocol frames: meta, delta*, usage?, done | error.
+// With `tools` (registered tool names) the model may call them: each call streams as
+// tool_call + tool_call_delta*, the server runs it and reports tool_result, and the
+// model is asked again with the results, for up to TOOL_LIMITS.maxRounds rounds.
+// With `n` > 1 (never together with tools) the provider writes that many candidate
+// replies at once: deltas carry their candidate's index, each candidate ends with a
+// candidate_done frame, and `done` reports the first candidate's finish reason.
+// `params` are the validated generation params; `owner` is the principal starting it
+// (see startGeneration); `route` and `requestId` only label logs and metrics.
+// `onUsage` receives the generation's usage (with cost) to charge: the reported totals,
+// or for one that did not complete, what it used until then (see unfinishedUsage).
+// `onFinish` receives { text, candidates?, outcome, finishReason, provider, model, usage }
+// once the generation is over, whatever the outcome, `text` being the first candidate's
+// and `candidates` every candidate's text when n > 1; the generation settles after it does.
+export const startChatGeneration = ({
+  adapter,
+  model,
+  messages,
+  params,
+  options,
+  tools = [],
+  n = 1,
+  owner = null,
+  route,
+  requestId,
+  onUsage,
+  onFinish,
+}) =>
+  startGeneration(async ({ id, emit, signal, drained }) => {
+    let finishReason = 'stop';
+    let usage = null;
+    // The round in flight: its prompt, the usage reported and all text streamed so far.
+    let pendingRound = null;
+    // Every round's text, as the client sees it; tool calls are not part of it.
+    let text = '';
+    const candidateTexts = Array(n).fill('');
+    const toolDefinitions = tools.map((name) => describeTool(getTool(name)));
+
+    const startedAt = performance.now();
+    let ttftMs = null;
+    // completed | aborted | error, plus the error frame's code when it failed.
+    let outcome = 'completed';
+    let errorCode = null;
+    const fail = (frame) => {
+      outcome = 'error';
+      errorCode = JSON.parse(frame.data).code;
+      emit(frame);
+    };
+    const context = { requestId, generationId: id, route, provider: adapter.name, model };
+    metrics.activeGenerations.inc({ route, provider: adapter.name });
+
+    // The provider call gets its own controller so our timeouts can abort it
+    // independently of the generation being cancelled.
+    const upstream = new AbortController();
+    const onCancel = () => upstream.abort();
+    signal.addEventListener('abort', onCancel);
+
+    let timedOut = null;
+    const abortFor = (reason) => {
+      timedOut = reason;
+      upstream.abort();
+    };
+
+    let idleTimer = null;
+    const resetIdleTimer = () => {
+      clearTimeout(idleTimer);
+      idleTimer = setTimeout(() => abortFor('idle'), STREAM_TIMEOUTS.upstreamIdleMs);
+    };
+    const durationTimer = setTimeout(() => abortFor('duration'), STREAM_TIMEOUTS.maxDurationMs);
+
+    emit(
+      metaFrame({
+        generationId: id,
+        requestId,
+        provider: adapter.name,
+        model,
+        heartbeatMs: SSE_HEARTBEAT_MS,
+        candidates: n,
+      })
+    );
+
+    try {
+      let history = messages;
+
+      for (let round = 1; ; round += 1) {
+        resetIdleTimer();
+        const stream = streamChat({
+          provider: adapter.name,
+          model,
+          messages: history,
+          signal: upstream.signal,
+          options,
+          params,
+          tools: toolDefinitions,
+          n,
+        });
+
+        let roundText = '';
+        // By candidate; adapters that produce candidates natively report usage untagged, once.
+        const roundUsage = new Map();
+        pendingRound = { history, reported: roundUsage, streamed: '' };
+        // Calls by the provider's index; arguments arrive as JSON text in pieces.
+        const calls = new Map();
+
+        for await (const event of stream) {
+          resetIdleTimer();
+          const candidate = event.candidate ?? 0;
+
+          if (event.type === 'delta') {
+            ttftMs ??= Math.round(performance.now() - startedAt);
+            pendingRound.streamed += event.text;
+            candidateTexts[candidate] += event.text;
+            if (candidate === 0) {
+              text += event.text;
+              roundText += event.text;
+            }
+            emit(deltaFrame(event.text, n > 1 ? candidate : undefined));
+          } else if (event.type === 'tool_call') {
+            const call = { id: event.id, name: event.name, arguments: '' };
+            calls.set(event.index, call);
+            emit(toolCallFrame(call));
+          } else if (event.type === 'tool_call_delta') {
+            const call = calls.get(event.index);
+            if (call) {
+              pendingRound.streamed += event.text;
+              call.arguments += event.text;
+              emit(toolCallDeltaFrame(call.id, event.text));
+            }
+          } else if (event.type === 'stop') {
+            if (n > 1) {
+              emit(candidateDoneFrame(candidate, event.reason));
+            }
+            if (candidate === 0) {
+              finishReason = event.reason;
+            }
+          } else if (event.type === 'usage') {
+            // Providers may report usage more than once; only the final totals are sent.
+            roundUsage.set(event.candidate ?? null, event.usage);
+          }
+
+          // A lagging client pauses the provider stream; its silence meanwhile is ours.
+          const backlog = drained(upstream.signal);
+          if (backlog) {
+            clearTimeout(idleTimer);
+            const pausedAt = performance.now();
+            await backlog;
+            metrics.backpressurePause.observe({ route, provider: adapter.name }, (performance.now() - pausedAt) / 1000);
+            upstream.signal.throwIfAborted();
+          }
+        }
+        usage = addUsage(usage, [...roundUsage.values()].reduce(addUsage, null));
+        pendingRound = null;
+
+        if (finishReason !== 'tool_calls' || calls.size === 0) {
+          break;
+        }
+        if (round >= TOOL_LIMITS.maxRounds) {
+          // Stops with finishReason `tool_calls`, the calls of the last round unanswered.
+          logger.warn('tool_rounds_exceeded', { ...context, rounds: round });
+          break;
+        }
+
+        // Tools run on our side, so the provider's silence meanwhile is expected.
+        clearTimeout(idleTimer);
+        const results = [];
+        for (const call of calls.values()) {
+          const outcome = await runToolCall(call, { signal: upstream.signal, context });
+          emit(toolResultFrame(call, outcome));
+          results.push({ role: 'tool', toolCallId: call.id, name: call.name, content: JSON.stringify(outcome) });
+        }
+        // Cancelled or timed out while the tools ran.
+        upstream.signal.throwIfAborted();
+
+        history = [
+          ...history,
+          { role: 'assistant', content: roundText, toolCalls: [...calls.values()] },
+          ...results,
+        ];
+      }
+
+      if (usage) {
+        usage = withCost(model, usage);
+        onUsage?.(usage);
+        emit(usageFrame(usage));
+      }
+      emit(doneFrame(finishReason));
+    } catch (error) {
+      if (timedOut === 'idle') {
+        logger.warn('upstream_idle_timeout', { ...context, timeoutMs: STREAM_TIMEOUTS.upstreamIdleMs });
+        fail(errorFrame('upstream_timeout', 'The model provider stopped responding', true));
+        return;
+      }
+
+      if (timedOut === 'duration') {
+        logger.warn('stream_duration_exceeded', { ...context, timeoutMs: STREAM_TIMEOUTS.maxDurationMs });
+        fail(errorFrame('stream_timeout', 'The generation exceeded the maximum stream duration', false));
+        return;
+      }
+
+      if (isAbortError(error)) {
+        // Tell anyone still attached (or resuming later) that the stream is over.
+        outcome = 'aborted';
+        finishReason = 'cancelled';
+        emit(doneFrame('cancelled'));
+        return;
+      }
+
+      logger.error('upstream_error', { ...context, error });
+      fail(errorFrameFromException(error));
+    } finally {
+      clearTimeout(idleTimer);
+      clearTimeout(durationTimer);
+      signal.removeEventListener('abort', onCancel);
+
+      if (outcome !== 'completed') {
+        usage = pendingRound ? addUsage(usage, unfinishedUsage(pendingRound)) : usage;
+        if (usage) {
+          usage = withCost(model, usage);
+          onUsage?.(usage);
+        }
+      }
+
+      const durationMs = Math.round(performance.now() - startedAt);
+      metrics.activeGenerations.dec({ route, provider: adapter.name });
+      recordGeneration({ route, provider: adapter.name, model, outcome, ttftMs, durationMs, usage, errorCode });
+      logger.info('generation_finished', {
+        ...context,
+        outcome,
+        finishReason: outcome === 'error' ? null : finishReason,
+        errorCode,
+        ttftMs,
+        durationMs,
+        promptTokens: usage?.promptTokens ?? null,
+        completionTokens: usage?.completionTokens ?? null,
+        costUsd: usage?.costUsd ?? null,
+      });
+
+      await onFinish?.({
+        text,
+        ...(n > 1 ? { candidates: candidateTexts } : {}),
+        outcome,
+        finishReason,
+        provider: adapter.name,
+        model,
+        usage,
+      });
+    }
+  }, { ...GENERATION_OPTIONS, owner });
@@ -0,0 +1,320 @@
+import { getProvider, isModelListed, parseProviderOptions } from '../providers/index.js';
+import { toolNames } from '../tools/index.js';
+import { readInt } from './env.js';
+import { validateMessages } from './messages.js';
+
+/*
+ * Schema for the chat endpoints' input. `POST /api/chat` and `POST /api/stream` read a
+ * JSON body; `GET /api/events` reads the same fields from the query string, where
+ * numbers arrive as strings and `stop` may repeat (`stop=a&stop=b`).
+ *
+ *   provider?        registered provider name (default: the route's default)
+ *   model?           one of the provider's allowlisted models (default: its default)
+ *   messages         [{ role, content }] history; or `prompt` (or legacy `message`) for
+ *                    a single user turn
+ *   temperature?     0..provider max (2 for OpenAI, 1 for Anthropic)
+ *   top_p?           (0, 1]
+ *   max_tokens?      1..MAX_OUTPUT_TOKENS
+ *   stop?            string or array of non-empty strings
+ *   seed?            integer (providers that support it)
+ *   response_format? { type: 'text' | 'json_object' } or { type: 'json_schema',
+ *                    json_schema: { name, schema, strict? } }, as in the OpenAI API;
+ *                    JSON-encoded on the query string
+ *   providerOptions? object, or JSON-encoded on the query string
+ *   tools?           names of tools the model may call (see tools/index.js); comma-separated
+ *                    or repeated on the query string
+ *   n?               candidate replies to generate side by side, 1..MAX_CANDIDATES
+ *                    (default 1); not with `tools`
+ *   stream?          boolean
+ *   conversationId?  saves the final user message and the reply into that conversation
+ *                    (see lib/conversations.js)
+ *
+ * Unknown fields are rejected so typos such as `maxTokens` do not silently do nothing.
+ */
+
+export const PARAM_LIMITS = {
+  maxOutputTokens: readInt('MAX_OUTPUT_TOKENS', 4096, { min: 1 }),
+  maxStopChars: 64,
+  // Size of a response_format schema, as JSON.
+  maxSchemaChars: 16000,
+  maxCandidates: readInt('MAX_CANDIDATES', 4, { min: 1 }),
+};
+
+// Fields that are not part of the request itself but may ride along with it.
+const TRANSPORT_FIELDS = {
+  body: ['lastEventId'],
+  query: ['lastEventId', 'ticket'],
+};
+
+const REQUEST_FIELDS = [
+  'provider',
+  'model',
+  'messages',
+  'prompt',
+  'message',
+  'temperature',
+  'top_p',
+  'max_tokens',
+  'stop',
+  'seed',
+  'response_format',
+  'providerOptions',
+  'tools',
+  'n',
+  'stream',
+  'conversationId',
+];
+
+// Query strings only carry strings; everything else must already have the right type.
+const toNumber = (value, source) =>
+  source === 'query' && typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+
+const isNumber = (value) => typeof value === 'number' && Number.isFinite(value);
+
+const isObject = (value) => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const RESPONSE_FORMAT_TYPES = ['text', 'json_object', 'json_schema'];
+
+const checkResponseFormat = (format) => {
+  if (!isObject(format) || !RESPONSE_FORMAT_TYPES.includes(format.type)) {
+    return { error: `must be an object whose type is one of ${RESPONSE_FORMAT_TYPES.join(', ')}` };
+  }
+  if (format.type !== 'json_schema') {
+    return { value: { type: format.type } };
+  }
+
+  const spec = format.json_schema;
+  if (!isObject(spec) || typeof spec.name !== 'string' || !/^[\w-]{1,64}$/.test(spec.name)) {
+    return { error: 'json_schema.name must be 1 to 64 letters, digits, _ or -' };
+  }
+  if (!isObject(spec.schema) || JSON.stringify(spec.schema).length > PARAM_LIMITS.maxSchemaChars) {
+    return {
+      error: `json_schema.schema must be an object of at most ${PARAM_LIMITS.maxSchemaChars} characters as JSON`,
+    };
+  }
+  if (spec.strict !== undefined && typeof spec.strict !== 'boolean') {
+    return { error: 'json_schema.strict must be a boolean' };
+  }
+
+  return { value: { type: 'json_schema', name: spec.name, schema: spec.schema, strict: spec.strict ?? false } };
+};
+
+// Each checker returns { value } or { error } for one generation param; `limits` is the
+// adapter's entry from `adapter.params`, `source` where the request came from.
+const PARAM_CHECKERS = {
+  temperature: (value, limits) =>
+    isNumber(value) && value >= 0 && value <= limits.max
+      ? { value }
+      : { error: `must be a number between 0 and ${limits.max}` },
+
+  top_p: (value) => (isNumber(value) && value > 0 && value <= 1 ? { value } : { error: 'must be a number in (0, 1]' }),
+
+  max_tokens: (value) =>
+    Number.isInteger(value) && value >= 1 && value <= PARAM_LIMITS.maxOutputTokens
+      ? { value }
+      : { error: `must be an integer between 1 and ${PARAM_LIMITS.maxOutputTokens}` },
+
+  stop: (value, limits) => {
+    const sequences = typeof value === 'string' ? [value] : value;
+    if (!Array.isArray(sequences) || sequences.length === 0 || sequences.length > limits.maxSequences) {
+      return { error: `must be a string or an array of 1 to ${limits.maxSequences} strings` };
+    }
+
+    const valid = sequences.every(
+      (sequence) => typeof sequence === 'string' && sequence.length > 0 && sequence.length <= PARAM_LIMITS.maxStopChars
+    );
+    return valid ? { value: sequences } : { error: `entries must be 1 to ${PARAM_LIMITS.maxStopChars} characters` };
+  },
+
+  seed: (value) => (Number.isSafeInteger(value) ? { value } : { error: 'must be an integer' }),
+
+  response_format: (value, limits, source) => {
+    if (source !== 'query' || typeof value !== 'string') {
+      return checkResponseFormat(value);
+    }
+    try {
+      return checkResponseFormat(JSON.parse(value));
+    } catch {
+      return { error: 'must be a JSON-encoded object' };
+    }
+  },
+};
+
+// Wire names follow the OpenAI API; adapters receive camelCase.
+const PARAM_NAMES = {
+  temperature: 'temperature',
+  top_p: 'topP',
+  max_tokens: 'maxTokens',
+  stop: 'stop',
+  seed: 'seed',
+  response_format: 'responseFormat',
+};
+
+// Passed to their checkers as sent; the rest are numbers, which query strings carry as text.
+const NON_NUMERIC_PARAMS = ['stop', 'response_format'];
+
+const readTools = (value, source) => {
+  if (value === undefined || value === '') {
+    return { value: [] };
+  }
+
+  const names = source === 'query' && typeof value === 'string' ? value.split(',').map((name) => name.trim()) : value;
+  if (!Array.isArray(names) || !names.every((name) => toolNames.includes(name))) {
+    return { error: `must be an array of tool names: ${toolNames.join(', ')}` };
+  }
+  return { value: [...new Set(names)] };
+};
+
+const readCandidates = (value, source) => {
+  if (value === undefined || value === '') {
+    return { value: 1 };
+  }
+
+  const n = toNumber(value, source);
+  return Number.isInteger(n) && n >= 1 && n <= PARAM_LIMITS.maxCandidates
+    ? { value: n }
+    : { error: `must be an integer from 1 to ${PARAM_LIMITS.maxCandidates}` };
+};
+
+const readMessages = (input, source, errors) => {
+  if (input.messages === undefined) {
+    const field = ['prompt', 'message'].find((name) => input[name] !== undefined);
+    if (!field) {
+      errors[source === 'query' ? 'prompt' : 'messages'] = 'is required';
+      return null;
+    }
+
+    // Single-turn callers never wrote `messages`, so problems point at their field.
+    const validated = validateMessages([{ role: 'user', content: input[field] }]);
+    if (validated.error) {
+      errors[field] = validated.error;
+      return null;
+    }
+    return validated.messages;
+  }
+
+  const validated = validateMessages(input.messages);
+  if (validated.error) {
+    errors[validated.field] = validated.error;
+    return null;
+  }
+  return validated.messages;
+};
+
+/**
+ * Validates one chat request. Returns `{ value }` with `{ adapter, model, messages,
+ * params, providerOptions, tools, n, stream, conversationId }`, or `{ errors }` mapping
+ * field names to problems.
+ *
+ * @param {Record<string, unknown>} input request body or query object
+ * @param {{ source?: 'body' | 'query', defaultProvider?: string }} [options]
+ */
+export const parseChatRequest = (input, { source = 'body', defaultProvider } = {}) => {
+  const errors = {};
+  const body = input && typeof input === 'object' && !Array.isArray(input) ? input : {};
+
+  const knownFields = [...REQUEST_FIELDS, ...TRANSPORT_FIELDS[source]];
+  for (const field of Object.keys(body)) {
+    if (!knownFields.includes(field)) {
+      errors[field] = 'is not a recognized field';
+    }
+  }
+
+  const providerName = body.provider ?? defaultProvider;
+  const adapter = providerName === undefined || typeof providerName === 'string' ? getProvider(providerName) : null;
+  if (!adapter) {
+    errors.provider = 'must be one of the providers listed by GET /api/models';
+  }
+
+  const model = body.model ?? adapter?.defaultModel;
+  if (adapter && (typeof model !== 'string' || !isModelListed(adapter, model))) {
+    errors.model = `must be one of: ${adapter.models.join(', ')}`;
+  }
+
+  const messages = readMessages(body, source, errors);
+
+  // Param bounds depend on the provider, so they are only checked once it is known.
+  const params = {};
+  for (const [field, check] of Object.entries(adapter ? PARAM_CHECKERS : {})) {
+    const raw = body[field];
+    if (raw === undefined || raw === '') {
+      continue;
+    }
+
+    const limits = adapter.params[PARAM_NAMES[field]];
+    if (!limits) {
+      errors[field] = `is not supported by provider "${adapter.name}"`;
+      continue;
+    }
+
+    const result = check(NON_NUMERIC_PARAMS.includes(field) ? raw : toNumber(raw, source), limits, source);
+    if (result.error) {
+      errors[field] = result.error;
+    } else {
+      params[PARAM_NAMES[field]] = result.value;
+    }
+  }
+
+  const providerOptions = parseProviderOptions(body.providerOptions);
+  if (!providerOptions) {
+    errors.providerOptions = source === 'query' ? 'must be a JSON-encoded object' : 'must be an object';
+  }
+
+  const tools = readTools(body.tools, source);
+  if (tools.error) {
+    errors.tools = tools.error;
+  }
+
+  const n = readCandidates(body.n, source);
+  if (n.error) {
+    errors.n = n.error;
+  } else if (n.value > 1 && tools.value?.length > 0) {
+    // Each candidate would call tools of its own, which the generation loop does not model.
+    errors.n = 'must be 1 when tools are enabled';
+  }
+
+  const stream = source === 'query' || body.stream === undefined ? true : body.stream;
+  if (typeof stream !== 'boolean') {
+    errors.stream = 'must be a boolean';
+  }
+
+  const { conversationId = null } = body;
+  if (conversationId !== null && (typeof conversationId !== 'string' || !/^[\w-]{1,64}$/.test(conversationId))) {
+    errors.conversationId = 'must be a conversation id';
+  }
+
+  if (Object.keys(errors).length > 0) {
+    return { errors };
+  }
+
+  return {
+    value: {
+      adapter,
+      model,
+      messages,
+      params,
+      providerOptions,
+      tools: tools.value,
+      n: n.value,
+      stream,
+      conversationId,
+    },
+  };
+};
+
+const PARAM_BOUNDS = {
+  temperature: (limits) => ({ min: 0, max: limits.max }),
+  top_p: () => ({ min: 0, max: 1 }),
+  max_tokens: () => ({ min: 1, max: PARAM_LIMITS.maxOutputTokens }),
+  stop: (limits) => ({ maxSequences: limits.maxSequences }),
+  seed: () => ({}),
+  response_format: () => ({}),
+};
+
+// Bounds for each param `adapter` supports, keyed by wire name, for GET /api/models.
+export const describeParams = (adapter) =>
+  Object.fromEntries(
+    Object.entries(PARAM_NAMES)
+      .filter(([, name]) => adapter.params[name])
+      .map(([field, name]) => [field, PARAM_BOUNDS[field](adapter.params[name])])
+  );
@@ -0,0 +1,69 @@
+import { conversationStore } from '../stores/index.js';
+import { logger } from './logger.js';
+
+export const CONVERSATION_LIMITS = {
+  maxTitleChars: 200,
+  // Untitled conversations are named after their first prompt, cut to this length.
+  autoTitleChars: 60,
+};
+
+// Conversations are scoped to the caller's API key (everything is shared while auth is off).
+export const conversationOwner = (req) => req.principal?.id ?? null;
+
+// The chat endpoints' `conversationId`: null when none was given or it is not the caller's.
+export const findConversation = (req, conversationId) =>
+  conversationId ? conversationStore.get(conversationOwner(req), conversationId) : null;
+
+const titleFrom = (content) => {
+  const line = content.trim().split('\n')[0];
+  return line.length > CONVERSATION_LIMITS.autoTitleChars
+    ? `${line.slice(0, CONVERSATION_LIMITS.autoTitleChars - 1)}…`
+    : line;
+};
+
+// complete | cancelled | error, from chatGeneration's outcome.
+const REPLY_STATUS = { completed: 'complete', aborted: 'cancelled', error: 'error' };
+
+/*
+ * Saves one exchange into `conversation`: the request's final user message right away,
+ * and the assistant reply through the returned `saveReply(reply)` once the generation
+ * ends, where reply is { text, outcome, finishReason, provider, model, usage }.
+ * Stopped and failed generations keep whatever text they produced; a reply with no
+ * text at all is not stored, and neither are replies with several candidates: the
+ * client saves the one the user accepts through POST /api/conversations/:id/messages.
+ * Save failures are logged, never surfaced to the client.
+ */
+export const recordExchange = async (req, conversation, messages) => {
+  const owner = conversationOwner(req);
+  const prompt = messages[messages.length - 1];
+  const context = { requestId: req.id, conversationId: conversation.id };
+
+  try {
+    await conversationStore.appendMessage(owner, conversation.id, { role: 'user', content: prompt.content });
+    if (!conversation.title) {
+      await conversationStore.update(owner, conversation.id, { title: titleFrom(prompt.content) });
+    }
+  } catch (error) {
+    logger.error('conversation_save_failed', { ...context, error });
+  }
+
+  return async ({ text, candidates, outcome, finishReason, provider, model, usage }) => {
+    if (!text || candidates) {
+      return;
+    }
+
+    try {
+      await conversationStore.appendMessage(owner, conversation.id, {
+        role: 'assistant',
+        content: text,
+        status: REPLY_STATUS[outcome],
+        finishReason: outcome === 'error' ? null : finishReason,
+        provider,
+        model,
+        usage,
+      });
+    } catch (error) {
+      logger.error('conversation_save_failed', { ...context, error });
+    }
+  };
+};
@@ -0,0 +1,18 @@
+// CORS_ORIGINS is a comma-separated list of browser origins allowed to call the API,
+// or `*` for any. The default covers the Vite dev server.
+const DEFAULT_CORS_ORIGINS = 'http://localhost:5173,http://127.0.0.1:5173';
+
+export const readCorsOrigins = () => {
+  const origins = (process.env.CORS_ORIGINS ?? DEFAULT_CORS_ORIGINS)
+    .split(',')
+    .map((origin) => origin.trim())
+    .filter(Boolean);
+  return origins.includes('*') ? '*' : origins;
+};
+
+// WebSockets are not covered by CORS, so the upgrade checks the Origin header itself.
+// Non-browser clients send none and are let through, as with the other endpoints.
+export const isOriginAllowed = (origin) => {
+  const allowed = readCorsOrigins();
+  return !origin || allowed === '*' || allowed.includes(origin);
+};
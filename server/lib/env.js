@@ -0,0 +1,5 @@
+// Integer settings from process.env, falling back when unset or out of range.
+export const readInt = (name, fallback, { min = 0 } = {}) => {
+  const parsed = Number.parseInt(process.env[name] ?? '', 10);
+  return Number.isFinite(parsed) && parsed >= min ? parsed : fallback;
+};
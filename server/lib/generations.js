@@ -0,0 +1,211 @@
+import { randomUUID } from 'node:crypto';
+import { logger } from './logger.js';
+import { readInt } from './env.js';
+
+// A generation outlives the HTTP response that started it so a client that drops
+// mid-answer can reconnect with Last-Event-ID and pick up where it left off, and so
+// others can watch it live from a shared link (GET /api/generations/:id/events).
+// Every frame gets an id of the form `<generationId>:<seq>`.
+export const GENERATION_LIMITS = {
+  // Frames kept per generation for replay; older ones are dropped (and folded into
+  // the catch-up summary, when the generation has one).
+  maxReplayFrames: readInt('REPLAY_BUFFER_FRAMES', 1000),
+  // How long a generation keeps running with nobody connected before it is aborted.
+  resumeGraceMs: readInt('RESUME_GRACE_MS', 15000),
+  // How long a finished generation stays resumable.
+  retentionMs: readInt('GENERATION_RETENTION_MS', 60000),
+  // Reconnect delay advertised to EventSource clients via `retry:`.
+  clientRetryMs: readInt('SSE_RETRY_MS', 1000),
+};
+
+const generations = new Map();
+
+export const formatFrame = ({ id, event, data }) => {
+  let frame = '';
+  if (id) frame += `id: ${id}\n`;
+  if (event) frame += `event: ${event}\n`;
+  for (const line of String(data).split('\n')) {
+    frame += `data: ${line}\n`;
+  }
+  return `${frame}\n`;
+};
+
+export const parseEventId = (value) => {
+  if (typeof value !== 'string') {
+    return null;
+  }
+
+  const match = /^([\w-]+):(\d+)$/.exec(value.trim());
+  return match ? { generationId: match[1], seq: Number(match[2]) } : null;
+};
+
+export const getGeneration = (id) => generations.get(id) ?? null;
+
+// Whether `principal` (null while auth is disabled) started the generation.
+export const isOwner = (generation, principal) => (generation.owner?.id ?? null) === (principal?.id ?? null);
+
+/*
+ * Starts `run({ id, emit, signal, drained })` and returns the generation handle. `run`
+ * calls `emit({ event?, data })` for every frame and should settle when the stream is
+ * over; subscribers are ended once it does.
+ *
+ * Subscribers are `{ write(text, frame), end(), drained?() }`: `text` is the frame
+ * formatted for SSE, `frame` is `{ seq, id, event, data }` for other transports.
+ * `drained()` returns null while the subscriber keeps up, or a promise resolving once
+ * it has caught up. `run` calls `drained(signal)` between upstream reads: it returns
+ * null when every subscriber keeps up, or a promise resolving once they all have (or
+ * `signal` aborts), so a slow client pauses the provider instead of filling memory.
+ * Viewers don't count there: one lagging share-link viewer must not stall the owner,
+ * so its own writer buffers or disconnects it instead.
+ * `subscribe(subscriber, afterSeq)` replays buffered frames with seq > afterSeq and
+ * then forwards live ones. Any number of subscribers may watch one generation; it
+ * keeps running while at least one is attached.
+ *
+ * `owner` is the principal that started it (null while auth is disabled).
+ *
+ * `catchUp` lets viewers join after the buffer dropped the first frames:
+ * `fold(state, frame)` folds each dropped frame into a state (undefined at first) and
+ * `frame(state)` turns it into the single frame sent in their place, see `subscribe`.
+ */
+export const startGeneration = (run, { limits = GENERATION_LIMITS, catchUp = null, owner = null } = {}) => {
+  const abortController = new AbortController();
+  const frames = [];
+  const subscribers = new Set();
+  // Subscribers whose backlog pauses `run`: all but viewers.
+  const pacers = new Set();
+  let nextSeq = 1;
+  let finished = false;
+  let graceTimer = null;
+  // What the dropped frames (seq <= droppedSeq) added up to.
+  let droppedState;
+  let droppedSeq = 0;
+
+  const clearGraceTimer = () => {
+    if (graceTimer) {
+      clearTimeout(graceTimer);
+      graceTimer = null;
+    }
+  };
+
+  const generation = {
+    id: randomUUID(),
+    owner,
+    signal: abortController.signal,
+    // Resolves once `run` has settled and subscribers were ended.
+    settled: null,
+
+    get finished() {
+      return finished;
+    },
+
+    // Subscribers attached right now: the client that started it and any viewers.
+    get watchers() {
+      return subscribers.size;
+    },
+
+    // Oldest seq still replayable; resuming from before it would leave a gap.
+    canResumeAfter(seq) {
+      return frames.length === 0 || frames[0].seq <= seq + 1;
+    },
+
+    // With `lateJoin`, a subscriber asking for frames the buffer already dropped gets
+    // the catch-up frame standing for them, then the buffered ones after it. A `viewer`
+    // keeps the generation running but never pauses it.
+    subscribe(subscriber, afterSeq = 0, { lateJoin = false, viewer = false } = {}) {
+      clearGraceTimer();
+
+      if (lateJoin && catchUp && afterSeq < droppedSeq) {
+        const id = `${generation.id}:${droppedSeq}`;
+        const { event, data } = catchUp.frame(droppedState);
+        subscriber.write(formatFrame({ id, event, data }), { seq: droppedSeq, id, event, data });
+        afterSeq = droppedSeq;
+      }
+
+      for (const frame of frames) {
+        if (frame.seq > afterSeq) {
+          subscriber.write(frame.text, frame);
+        }
+      }
+
+      if (finished) {
+        subscriber.end();
+        return () => {};
+      }
+
+      subscribers.add(subscriber);
+      if (!viewer) {
+        pacers.add(subscriber);
+      }
+      return () => {
+        subscribers.delete(subscriber);
+        pacers.delete(subscriber);
+        if (!finished && subscribers.size === 0 && !graceTimer) {
+          graceTimer = setTimeout(() => abortController.abort(), limits.resumeGraceMs);
+        }
+      };
+    },
+
+    cancel() {
+      clearGraceTimer();
+      abortController.abort();
+    },
+  };
+
+  const emit = ({ event, data }) => {
+    if (finished) {
+      return;
+    }
+
+    const seq = nextSeq++;
+    const id = `${generation.id}:${seq}`;
+    const frame = { seq, id, event, data, text: formatFrame({ id, event, data }) };
+    frames.push(frame);
+    if (frames.length > limits.maxReplayFrames) {
+      const dropped = frames.shift();
+      droppedSeq = dropped.seq;
+      if (catchUp) {
+        droppedState = catchUp.fold(droppedState, dropped);
+      }
+    }
+
+    for (const subscriber of subscribers) {
+      subscriber.write(frame.text, frame);
+    }
+  };
+
+  const drained = (signal) => {
+    const backlogs = [...pacers].map((subscriber) => subscriber.drained?.()).filter(Boolean);
+    if (backlogs.length === 0) {
+      return null;
+    }
+
+    return new Promise((resolve) => {
+      const done = () => {
+        signal.removeEventListener('abort', done);
+        resolve();
+      };
+      signal.addEventListener('abort', done);
+      Promise.all(backlogs).then(done);
+    });
+  };
+
+  const finish = () => {
+    finished = true;
+    clearGraceTimer();
+    for (const subscriber of subscribers) {
+      subscriber.end();
+    }
+    subscribers.clear();
+    pacers.clear();
+    setTimeout(() => generations.delete(generation.id), limits.retentionMs).unref();
+  };
+
+  generations.set(generation.id, generation);
+
+  generation.settled = Promise.resolve()
+    .then(() => run({ id: generation.id, emit, signal: abortController.signal, drained }))
+    .catch((error) => logger.error('generation_crashed', { generationId: generation.id, error }))
+    .finally(finish);
+
+  return generation;
+};
@@ -0,0 +1,39 @@
+// Structured logging: one JSON object per line, so logs can be shipped and queried
+// as-is. Prompts and completions are never logged, only their shape and timings.
+//
+// LOG_LEVEL picks the minimum level written (debug, info, warn, error; default info).
+
+const LEVELS = { debug: 10, info: 20, warn: 30, error: 40 };
+
+const minLevel = LEVELS[process.env.LOG_LEVEL] ?? LEVELS.info;
+
+// Errors do not survive JSON.stringify, so keep the useful parts.
+const serializeError = (error) =>
+  error instanceof Error
+    ? { name: error.name, message: error.message, status: error.status, stack: error.stack }
+    : error;
+
+const write = (level, msg, fields = {}) => {
+  if (LEVELS[level] < minLevel) {
+    return;
+  }
+
+  const { error, ...rest } = fields;
+  const entry = {
+    time: new Date().toISOString(),
+    level,
+    msg,
+    ...rest,
+    ...(error === undefined ? {} : { error: serializeError(error) }),
+  };
+
+  const stream = LEVELS[level] >= LEVELS.warn ? process.stderr : process.stdout;
+  stream.write(`${JSON.stringify(entry)}\n`);
+};
+
+export const logger = {
+  debug: (msg, fields) => write('debug', msg, fields),
+  info: (msg, fields) => write('info', msg, fields),
+  warn: (msg, fields) => write('warn', msg, fields),
+  error: (msg, fields) => write('error', msg, fields),
+};
@@ -0,0 +1,59 @@
+import { readInt } from './env.js';
+
+// Validation for chat histories sent by clients (`messages: [{ role, content }]`).
+export const MESSAGE_LIMITS = {
+  maxMessages: readInt('MAX_MESSAGES', 50, { min: 1 }),
+  maxMessageChars: readInt('MAX_MESSAGE_CHARS', 8000, { min: 1 }),
+  maxTotalChars: readInt('MAX_CONVERSATION_CHARS', 48000, { min: 1 }),
+};
+
+export const MESSAGE_ROLES = ['system', 'user', 'assistant'];
+
+// Returns { messages } with a normalized copy, or { field, error } describing the first
+// problem, where `field` is a path such as `messages[2].content`.
+export const validateMessages = (input, limits = MESSAGE_LIMITS) => {
+  if (!Array.isArray(input) || input.length === 0) {
+    return { field: 'messages', error: 'must be a non-empty array' };
+  }
+
+  if (input.length > limits.maxMessages) {
+    return { field: 'messages', error: `must contain at most ${limits.maxMessages} entries` };
+  }
+
+  const messages = [];
+  let totalChars = 0;
+
+  for (const [index, message] of input.entries()) {
+    const role = message?.role;
+    const content = message?.content;
+
+    if (!MESSAGE_ROLES.includes(role)) {
+      return { field: `messages[${index}].role`, error: `must be one of ${MESSAGE_ROLES.join(', ')}` };
+    }
+
+    if (typeof content !== 'string' || !content.trim()) {
+      return { field: `messages[${index}].content`, error: 'must be a non-empty string' };
+    }
+
+    if (content.length > limits.maxMessageChars) {
+      return { field: `messages[${index}].content`, error: `must be at most ${limits.maxMessageChars} characters` };
+    }
+
+    if (role === 'system' && messages.some((previous) => previous.role !== 'system')) {
+      return { field: `messages[${index}].role`, error: 'system messages must come before the conversation' };
+    }
+
+    totalChars += content.length;
+    messages.push({ role, content });
+  }
+
+  if (totalChars > limits.maxTotalChars) {
+    return { field: 'messages', error: `must total at most ${limits.maxTotalChars} characters` };
+  }
+
+  if (messages[messages.length - 1].role !== 'user') {
+    return { field: 'messages', error: 'the last message must have role "user"' };
+  }
+
+  return { messages };
+};
@@ -0,0 +1,201 @@
+import { monitorEventLoopDelay } from 'node:perf_hooks';
+
+// In-process metrics rendered in the Prometheus text exposition format (v0.0.4)
+// by `GET /metrics`. Values live in this process only and reset on restart.
+
+const escapeLabel = (value) => String(value).replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+
+const formatLabels = (labels) => {
+  const pairs = Object.entries(labels).map(([key, value]) => `${key}="${escapeLabel(value)}"`);
+  return pairs.length ? `{${pairs.join(',')}}` : '';
+};
+
+// Every label must be present on every observation so series line up.
+const pickLabels = (labelNames, labels = {}) =>
+  Object.fromEntries(labelNames.map((name) => [name, labels[name] ?? '']));
+
+const registry = [];
+
+const register = (metric) => {
+  registry.push(metric);
+  return metric;
+};
+
+const createSeries = (labelNames, init) => {
+  const series = new Map();
+  return {
+    get: (labels) => {
+      const picked = pickLabels(labelNames, labels);
+      const key = JSON.stringify(picked);
+      if (!series.has(key)) {
+        series.set(key, { labels: picked, ...init() });
+      }
+      return series.get(key);
+    },
+    values: () => series.values(),
+  };
+};
+
+const counter = (name, help, labelNames = []) => {
+  const series = createSeries(labelNames, () => ({ value: 0 }));
+  return register({
+    inc: (labels, amount = 1) => {
+      series.get(labels).value += amount;
+    },
+    render: () => [
+      `# HELP ${name} ${help}`,
+      `# TYPE ${name} counter`,
+      ...Array.from(series.values(), ({ labels, value }) => `${name}${formatLabels(labels)} ${value}`),
+    ],
+  });
+};
+
+const gauge = (name, help, labelNames = []) => {
+  const series = createSeries(labelNames, () => ({ value: 0 }));
+  return register({
+    inc: (labels) => {
+      series.get(labels).value += 1;
+    },
+    dec: (labels) => {
+      series.get(labels).value -= 1;
+    },
+    render: () => [
+      `# HELP ${name} ${help}`,
+      `# TYPE ${name} gauge`,
+      ...Array.from(series.values(), ({ labels, value }) => `${name}${formatLabels(labels)} ${value}`),
+    ],
+  });
+};
+
+const histogram = (name, help, labelNames, buckets) => {
+  const series = createSeries(labelNames, () => ({ counts: buckets.map(() => 0), sum: 0, count: 0 }));
+  return register({
+    observe: (labels, value) => {
+      const entry = series.get(labels);
+      buckets.forEach((bound, index) => {
+        if (value <= bound) {
+          entry.counts[index] += 1;
+        }
+      });
+      entry.sum += value;
+      entry.count += 1;
+    },
+    render: () => [
+      `# HELP ${name} ${help}`,
+      `# TYPE ${name} histogram`,
+      ...Array.from(series.values(), ({ labels, counts, sum, count }) => [
+        ...buckets.map((bound, index) => `${name}_bucket${formatLabels({ ...labels, le: bound })} ${counts[index]}`),
+        `${name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`,
+        `${name}_sum${formatLabels(labels)} ${sum}`,
+        `${name}_count${formatLabels(labels)} ${count}`,
+      ]).flat(),
+    ],
+  });
+};
+
+// Read at scrape time rather than updated as events happen.
+const sampled = (name, help, read) =>
+  register({
+    render: () => [
+      `# HELP ${name} ${help}`,
+      `# TYPE ${name} gauge`,
+      ...read().map(([labels, value]) => `${name}${formatLabels(labels)} ${value}`),
+    ],
+  });
+
+export const metrics = {
+  httpRequests: counter('http_requests_total', 'HTTP requests by route and status code.', ['method', 'route', 'status']),
+  openStreams: gauge('sse_open_streams', 'SSE responses currently open.', ['route']),
+  sseBackpressure: counter(
+    'sse_backpressure_total',
+    'Times an SSE response filled its socket buffer and held frames until drain.',
+    ['route']
+  ),
+  sseCoalescedFrames: counter(
+    'sse_coalesced_frames_total',
+    'Delta frames merged into the previous one while their client lagged.',
+    ['route']
+  ),
+  slowConsumers: counter(
+    'sse_slow_consumer_disconnects_total',
+    'SSE and WebSocket clients disconnected for falling behind.',
+    ['route', 'reason']
+  ),
+  openSockets: gauge('ws_open_connections', 'WebSocket connections currently open.', ['route']),
+  activeGenerations: gauge('llm_active_generations', 'Generations currently running.', ['route', 'provider']),
+  generations: counter('llm_generations_total', 'Finished generations by outcome.', [
+    'route',
+    'provider',
+    'model',
+    'outcome',
+  ]),
+  ttft: histogram(
+    'llm_ttft_seconds',
+    'Time from request to first generated token.',
+    ['route', 'provider', 'model'],
+    [0.1, 0.25, 0.5, 1, 2, 5, 10, 30]
+  ),
+  duration: histogram(
+    'llm_generation_duration_seconds',
+    'Time from request to the end of a generation.',
+    ['route', 'provider', 'model', 'outcome'],
+    [0.5, 1, 2, 5, 10, 30, 60, 120, 300]
+  ),
+  backpressurePause: histogram(
+    'llm_backpressure_pause_seconds',
+    'Time a generation stopped reading from the provider until lagging clients caught up.',
+    ['route', 'provider'],
+    [0.01, 0.05, 0.1, 0.5, 1, 5, 30]
+  ),
+  tokens: counter('llm_tokens_total', 'Tokens reported by providers.', ['provider', 'model', 'kind']),
+  rateLimited: counter('http_rate_limited_total', 'Requests rejected by rate or concurrency limits.', [
+    'route',
+    'reason',
+  ]),
+  upstreamErrors: counter('llm_upstream_errors_total', 'Failed provider calls by error code.', ['provider', 'code']),
+  toolCalls: counter('llm_tool_calls_total', 'Tool calls run for the model, by tool and outcome.', ['tool', 'outcome']),
+};
+
+// Records one finished generation (streamed or not) across the generation metrics.
+export const recordGeneration = ({ route, provider, model, outcome, ttftMs, durationMs, usage, errorCode }) => {
+  metrics.generations.inc({ route, provider, model, outcome });
+  metrics.duration.observe({ route, provider, model, outcome }, durationMs / 1000);
+
+  if (ttftMs != null) {
+    metrics.ttft.observe({ route, provider, model }, ttftMs / 1000);
+  }
+
+  if (usage) {
+    metrics.tokens.inc({ provider, model, kind: 'prompt' }, usage.promptTokens);
+    metrics.tokens.inc({ provider, model, kind: 'completion' }, usage.completionTokens);
+  }
+
+  if (errorCode) {
+    metrics.upstreamErrors.inc({ provider, code: errorCode });
+  }
+};
+
+// Process health, mainly for load tests: memory growth per open stream and how far
+// timers fall behind while many streams are being written.
+const EVENT_LOOP_RESOLUTION_MS = 10;
+const eventLoopDelay = monitorEventLoopDelay({ resolution: EVENT_LOOP_RESOLUTION_MS });
+eventLoopDelay.enable();
+
+sampled('process_resident_memory_bytes', 'Resident set size of the server process.', () => [
+  [{}, process.memoryUsage.rss()],
+]);
+sampled('nodejs_heap_used_bytes', 'V8 heap in use.', () => [[{}, process.memoryUsage().heapUsed]]);
+// The delay histogram restarts after every scrape, so each one covers the time since the
+// last. Samples include the sampling interval itself, which is subtracted.
+sampled('nodejs_eventloop_lag_seconds', 'Event loop delay since the previous scrape.', () => {
+  const seconds = (ns) => (Number.isFinite(ns) ? Math.max(0, ns / 1e6 - EVENT_LOOP_RESOLUTION_MS) / 1000 : 0);
+  const values = [
+    [{ quantile: '0.5' }, seconds(eventLoopDelay.percentile(50))],
+    [{ quantile: '0.99' }, seconds(eventLoopDelay.percentile(99))],
+    [{ quantile: '1' }, seconds(eventLoopDelay.max)],
+  ];
+  eventLoopDelay.reset();
+  return values;
+});
+
+export const renderMetrics = () => `${registry.flatMap((metric) => metric.render()).join('\n')}\n`;
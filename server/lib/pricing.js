@@ -0,0 +1,76 @@
+import { logger } from './logger.js';
+
+// Per-model prices used to estimate what a request cost. These are list prices in
+// USD per million tokens and drift over time, so treat the result as an estimate.
+//
+// MODEL_PRICES overrides or extends the table with JSON of the same shape, e.g.
+//   MODEL_PRICES='{"gpt-4o-mini":{"input":0.15,"output":0.6}}'
+
+const DEFAULT_PRICES = {
+  'gpt-5': { input: 1.25, output: 10 },
+  'gpt-5-mini': { input: 0.25, output: 2 },
+  'gpt-5-nano': { input: 0.05, output: 0.4 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'claude-3-haiku': { input: 0.25, output: 1.25 },
+  'claude-3-5-haiku': { input: 0.8, output: 4 },
+  'claude-haiku-4-5': { input: 1, output: 5 },
+  'claude-sonnet-4': { input: 3, output: 15 },
+  'claude-opus-4': { input: 15, output: 75 },
+  'mock-': { input: 0, output: 0 },
+};
+
+const isPrice = (value) =>
+  value !== null &&
+  typeof value === 'object' &&
+  Number.isFinite(value.input) &&
+  Number.isFinite(value.output) &&
+  value.input >= 0 &&
+  value.output >= 0;
+
+const readPriceOverrides = () => {
+  const raw = process.env.MODEL_PRICES;
+  if (!raw) {
+    return {};
+  }
+
+  try {
+    const parsed = JSON.parse(raw);
+    const entries = Object.entries(parsed ?? {}).filter(([, price]) => isPrice(price));
+    return Object.fromEntries(entries);
+  } catch {
+    logger.warn('MODEL_PRICES is not valid JSON, using the built-in price table');
+    return {};
+  }
+};
+
+export const MODEL_PRICES = { ...DEFAULT_PRICES, ...readPriceOverrides() };
+
+// Keys are matched as prefixes, longest first, so dated snapshots such as
+// "claude-3-haiku-20240307" pick up the "claude-3-haiku" entry.
+const priceKeys = Object.keys(MODEL_PRICES).sort((a, b) => b.length - a.length);
+
+export const getModelPrice = (model) => {
+  if (typeof model !== 'string') {
+    return null;
+  }
+
+  const key = priceKeys.find((candidate) => model === candidate || model.startsWith(candidate));
+  return key ? MODEL_PRICES[key] : null;
+};
+
+// Fills in totals and the estimated cost for a provider-normalized usage object.
+// `costUsd` is null when the model is not in the price table.
+export const withCost = (model, { promptTokens, completionTokens }) => {
+  const price = getModelPrice(model);
+  const costUsd = price ? (promptTokens * price.input + completionTokens * price.output) / 1_000_000 : null;
+
+  return {
+    promptTokens,
+    completionTokens,
+    totalTokens: promptTokens + completionTokens,
+    costUsd,
+  };
+};
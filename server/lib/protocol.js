@@ -0,0 +1,67 @@
+// Builders for the streaming wire protocol documented in shared/protocol.ts.
+// Each returns `{ event, data }`, ready for a generation's `emit`.
+
+/** @typedef {import('../../shared/protocol').StreamErrorCode} StreamErrorCode */
+/** @typedef {import('../../shared/protocol').FinishReason} FinishReason */
+
+export const PROTOCOL_VERSION = 1;
+
+export const frame = (event, payload) => ({ event, data: JSON.stringify(payload) });
+
+// `candidates` and `candidate` are only sent for generations with n > 1.
+export const metaFrame = ({ generationId, requestId, provider, model, heartbeatMs, candidates }) =>
+  frame('meta', {
+    v: PROTOCOL_VERSION,
+    generationId,
+    requestId,
+    provider,
+    model,
+    heartbeatMs,
+    ...(candidates > 1 ? { candidates } : {}),
+  });
+
+export const deltaFrame = (text, candidate) => frame('delta', candidate === undefined ? { text } : { text, candidate });
+
+/** @param {number} candidate @param {FinishReason} finishReason */
+export const candidateDoneFrame = (candidate, finishReason) => frame('candidate_done', { candidate, finishReason });
+
+export const toolCallFrame = ({ id, name }) => frame('tool_call', { id, name });
+
+export const toolCallDeltaFrame = (id, argumentsDelta) => frame('tool_call_delta', { id, argumentsDelta });
+
+// `outcome` is runToolCall's `{ result }` or `{ error }`.
+export const toolResultFrame = ({ id, name }, outcome) => frame('tool_result', { id, name, ...outcome });
+
+export const usageFrame = ({ promptTokens, completionTokens, totalTokens, costUsd }) =>
+  frame('usage', { promptTokens, completionTokens, totalTokens, costUsd });
+
+// Stands in for the frames a late viewer can no longer be replayed: the generation's
+// meta and each candidate's text up to then (`texts` by candidate index).
+export const snapshotFrame = (meta, texts) =>
+  frame('snapshot', {
+    meta,
+    text: texts[0] ?? '',
+    ...(meta.candidates > 1 ? { candidates: Array.from({ length: meta.candidates }, (_, i) => texts[i] ?? '') } : {}),
+  });
+
+/** @param {FinishReason} finishReason */
+export const doneFrame = (finishReason) => frame('done', { finishReason });
+
+/**
+ * @param {StreamErrorCode} code
+ * @param {string} message
+ * @param {boolean} retryable
+ */
+export const errorFrame = (code, message, retryable) => frame('error', { code, message, retryable });
+
+// Maps a provider exception onto an error frame. SDK errors carry an HTTP `status`:
+// 408/409/429 and 5xx are worth retrying, other 4xx mean the request itself was bad.
+export const errorFrameFromException = (error) => {
+  const status = typeof error?.status === 'number' ? error.status : null;
+
+  if (status !== null && status >= 400 && status < 500 && ![408, 409, 429].includes(status)) {
+    return errorFrame('upstream_rejected', `Provider rejected the request (HTTP ${status})`, false);
+  }
+
+  return errorFrame('upstream_error', 'The model provider failed while generating', true);
+};
@@ -0,0 +1,80 @@
+import { readInt } from './env.js';
+
+// Per-client limits on the endpoints that call a model provider. A client is its
+// verified API key, otherwise its IP (see TRUST_PROXY in app.js).
+// Setting a limit to 0 disables it.
+export const RATE_LIMITS = {
+  windowMs: readInt('RATE_LIMIT_WINDOW_MS', 60000, { min: 1 }),
+  // New generations a client may start per window.
+  maxRequests: readInt('RATE_LIMIT_MAX_REQUESTS', 30),
+  // Generations a client may have running at once.
+  maxConcurrentStreams: readInt('MAX_CONCURRENT_STREAMS', 3),
+  // Suggested wait when the concurrency cap is hit; a slot frees whenever a stream ends.
+  concurrencyRetryAfterMs: readInt('CONCURRENCY_RETRY_AFTER_MS', 5000, { min: 1000 }),
+};
+
+// Fixed windows: { count, resetAt } per client, dropped once expired.
+const windows = new Map();
+const openStreams = new Map();
+
+setInterval(() => {
+  const now = Date.now();
+  for (const [key, entry] of windows) {
+    if (entry.resetAt <= now) {
+      windows.delete(key);
+    }
+  }
+}, RATE_LIMITS.windowMs).unref();
+
+// Authenticated callers are keyed by their API key's name. Anyone else, including a
+// caller presenting a key nobody verified (auth disabled), is keyed by address, so
+// inventing keys cannot buy fresh limits.
+export const clientKey = (req) => (req.principal ? `key:${req.principal.id}` : `ip:${req.ip}`);
+
+// Counts one request against the client's window. Returns null when allowed,
+// otherwise how long until the window resets.
+export const takeRequest = (key) => {
+  if (RATE_LIMITS.maxRequests === 0) {
+    return null;
+  }
+
+  const now = Date.now();
+  let entry = windows.get(key);
+  if (!entry || entry.resetAt <= now) {
+    entry = { count: 0, resetAt: now + RATE_LIMITS.windowMs };
+    windows.set(key, entry);
+  }
+
+  if (entry.count >= RATE_LIMITS.maxRequests) {
+    return { retryAfterMs: entry.resetAt - now };
+  }
+
+  entry.count += 1;
+  return null;
+};
+
+// Reserves one concurrent-stream slot. Returns a release function (safe to call
+// more than once), or null when the client is already at the cap.
+export const acquireStreamSlot = (key) => {
+  const open = openStreams.get(key) ?? 0;
+  if (RATE_LIMITS.maxConcurrentStreams > 0 && open >= RATE_LIMITS.maxConcurrentStreams) {
+    return null;
+  }
+
+  openStreams.set(key, open + 1);
+
+  let released = false;
+  return () => {
+    if (released) {
+      return;
+    }
+
+    released = true;
+    const remaining = (openStreams.get(key) ?? 1) - 1;
+    if (remaining > 0) {
+      openStreams.set(key, remaining);
+    } else {
+      openStreams.delete(key);
+    }
+  };
+};
@@ -0,0 +1,27 @@
+import { formatFrame } from './generations.js';
+import { frame } from './protocol.js';
+import { writeSseHeaders } from './sse.js';
+
+// Answers a request that is refused before any generation starts. JSON clients get
+// `status` with `{ error: code, message, retryAfterMs?, fields? }`. EventSource cannot read the
+// body of a failed response (it only sees a generic error), so `transport: 'sse'`
+// sends a 200 stream holding a single protocol error frame instead.
+export const rejectRequest = (res, { status, code, message, retryAfterMs, fields, transport = 'json' }) => {
+  if (retryAfterMs !== undefined) {
+    res.setHeader('Retry-After', String(Math.ceil(retryAfterMs / 1000)));
+  }
+
+  if (transport === 'sse') {
+    writeSseHeaders(res);
+    res.end(formatFrame(frame('error', { code, message, retryable: retryAfterMs !== undefined, retryAfterMs, fields })));
+    return;
+  }
+
+  res.status(status).json({ error: code, message, retryAfterMs, fields });
+};
+
+// 400 for a request that failed validation; `fields` maps each bad field to its problem.
+export const rejectInvalid = (res, fields, { transport = 'json' } = {}) => {
+  const [field, problem] = Object.entries(fields)[0];
+  rejectRequest(res, { status: 400, code: 'invalid_request', message: `${field} ${problem}`, fields, transport });
+};
@@ -0,0 +1,88 @@
+import { GENERATION_LIMITS, getGeneration, isOwner, parseEventId } from './generations.js';
+import { readInt } from './env.js';
+import { metrics } from './metrics.js';
+import { createSseWriter } from './sseWriter.js';
+
+// Interval between keep-alive writes on an open stream, so proxies and load
+// balancers do not cut a connection while the model is thinking. 0 disables.
+export const SSE_HEARTBEAT_MS = readInt('SSE_HEARTBEAT_MS', 15000);
+
+// Native EventSource never surfaces comment lines, so `/api/events` sends heartbeats
+// as a protocol `heartbeat` event instead; fetch clients see the comment.
+const heartbeatFrames = {
+  comment: () => `: heartbeat ${Date.now()}\n\n`,
+  event: () => `event: heartbeat\ndata: ${JSON.stringify({ ts: Date.now() })}\n\n`,
+};
+
+export const writeSseHeaders = (res) => {
+  res.status(200);
+  res.setHeader('Content-Type', 'text/event-stream; charset=utf-8');
+  res.setHeader('Cache-Control', 'no-cache, no-transform');
+  res.setHeader('Connection', 'keep-alive');
+  res.setHeader('X-Accel-Buffering', 'no');
+  res.setHeader('Content-Encoding', 'identity');
+  res.flushHeaders();
+
+  // Comment line is valid SSE and can help some proxies begin forwarding quickly.
+  res.write(`retry: ${GENERATION_LIMITS.clientRetryMs}\n: stream-start\n\n`);
+};
+
+// Streams a generation to one HTTP response, replaying frames after `afterSeq`.
+// `heartbeat` picks how keep-alives are written: 'comment' or 'event'. `lateJoin`
+// accepts a snapshot for frames the replay buffer dropped and a `viewer` never pauses
+// the generation (see generation.subscribe).
+export const pipeGenerationToResponse = (
+  generation,
+  res,
+  { afterSeq = 0, heartbeat = 'comment', lateJoin = false, viewer = false } = {}
+) => {
+  writeSseHeaders(res);
+
+  const route = res.req.routePath;
+  metrics.openStreams.inc({ route });
+
+  // Writes go through the writer so a slow client pauses the generation instead of
+  // piling frames up in memory; a slow viewer is disconnected by it instead.
+  const writer = createSseWriter(res, { route });
+  const heartbeatTimer =
+    SSE_HEARTBEAT_MS > 0 ? setInterval(() => writer.write(heartbeatFrames[heartbeat]()), SSE_HEARTBEAT_MS) : null;
+
+  const unsubscribe = generation.subscribe(writer, afterSeq, { lateJoin, viewer });
+
+  // Do NOT use req.on('close') here for POST streaming:
+  // Node emits 'close' on IncomingMessage when request body reading is complete,
+  // which can happen right after submit and would abort generation too early.
+  res.on('close', () => {
+    clearInterval(heartbeatTimer);
+    unsubscribe();
+    metrics.openStreams.dec({ route });
+  });
+};
+
+// Native EventSource sends `Last-Event-ID` on reconnect; fetch clients may send the
+// header too, or `lastEventId` as a query/body field when they cannot set headers.
+export const readLastEventId = (req) =>
+  req.get('Last-Event-ID') ?? req.query?.lastEventId ?? req.body?.lastEventId ?? null;
+
+// Handles a reconnect request. Returns true when the response has been dealt with,
+// false when the request carries no resume id and should start a new generation.
+// With `lateJoin`, a resume from before the replay buffer gets a snapshot instead of a 410.
+// Only the generation's owner (`req.principal`, see requireAuth) may resume it, unless
+// the request is a `viewer` one; anyone else gets the same 410 as for an unknown id.
+export const resumeFromRequest = (req, res, { heartbeat = 'comment', lateJoin = false, viewer = false } = {}) => {
+  const lastEventId = readLastEventId(req);
+  if (!lastEventId) {
+    return false;
+  }
+
+  const parsed = parseEventId(lastEventId);
+  const generation = parsed && getGeneration(parsed.generationId);
+  const allowed = generation && (viewer || isOwner(generation, req.principal));
+  if (!allowed || (!lateJoin && !generation.canResumeAfter(parsed.seq))) {
+    res.status(410).json({ error: 'generation_expired', lastEventId });
+    return true;
+  }
+
+  pipeGenerationToResponse(generation, res, { afterSeq: parsed.seq, heartbeat, lateJoin, viewer });
+  return true;
+};
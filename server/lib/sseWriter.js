@@ -0,0 +1,171 @@
+import { formatFrame } from './generations.js';
+import { readInt } from './env.js';
+import { logger } from './logger.js';
+import { metrics } from './metrics.js';
+import { errorFrame } from './protocol.js';
+
+export const SSE_WRITER_LIMITS = {
+  // Bytes a response may hold unsent (socket buffer plus frames waiting for 'drain')
+  // before its client counts as too slow and is disconnected.
+  maxBufferedBytes: readInt('SSE_MAX_BUFFERED_BYTES', 1024 * 1024, { min: 1024 }),
+  // How long a backed-up response may go without getting any bytes to its client before
+  // the same happens. Generations stop reading from the provider while a client lags,
+  // so without it one stuck client would hold a generation until its duration limit.
+  maxStallMs: readInt('SSE_MAX_STALL_MS', 30000, { min: 100 }),
+};
+
+/*
+ * Writes SSE text to one response, honouring backpressure. Once `res.write` returns
+ * false, frames wait in memory until 'drain': consecutive deltas of one candidate are
+ * merged into a single frame keeping the later id (so Last-Event-ID still resumes
+ * from the right place), and heartbeats are dropped since data is on its way anyway.
+ *
+ * `write(text, frame?)` takes formatted SSE text plus, for protocol frames, the
+ * `{ id, event, data }` it was formatted from. `drained()` returns null while the
+ * client keeps up, or a promise resolving once it has caught up or is gone; the
+ * generation waits on it before reading more from the provider. A client that holds
+ * more than `maxBufferedBytes` unsent or gets nothing through for `maxStallMs` is
+ * sent a `slow_consumer` error frame (best effort) and disconnected; a slow client that
+ * keeps reading stays connected.
+ */
+export const createSseWriter = (res, { route, limits = SSE_WRITER_LIMITS } = {}) => {
+  // { text } for frames as they came, or { id, delta } for (merged) deltas.
+  let pending = [];
+  let pendingBytes = 0;
+  // Set while backed up: { promise, resolve, stallTimer, progressed }.
+  let backlog = null;
+  let closed = false;
+
+  const toText = (entry) =>
+    entry.delta ? formatFrame({ id: entry.id, event: 'delta', data: JSON.stringify(entry.delta) }) : entry.text;
+
+  const caughtUp = () => {
+    if (backlog) {
+      clearTimeout(backlog.stallTimer);
+      backlog.resolve();
+      backlog = null;
+    }
+  };
+
+  const disconnect = (reason) => {
+    const bufferedBytes = res.writableLength + pendingBytes;
+    metrics.slowConsumers.inc({ route, reason });
+    logger.warn('sse_slow_consumer', { requestId: res.req.id, route, reason, bufferedBytes });
+
+    closed = true;
+    pending = [];
+    pendingBytes = 0;
+    caughtUp();
+    res.end(formatFrame(errorFrame('slow_consumer', 'The client fell too far behind the stream', true)));
+    // The frame only queues behind the backlog, so the connection would linger until
+    // TCP gives up; dropping it frees the socket and the subscriber now.
+    res.destroy();
+  };
+
+  // Every write that reaches the socket and every 'drain' counts as progress; only a
+  // backlog that made none for a whole window is stalled.
+  const watchStall = () => {
+    backlog.stallTimer = setTimeout(() => {
+      if (!backlog.progressed) {
+        disconnect('stalled');
+        return;
+      }
+      backlog.progressed = false;
+      watchStall();
+    }, limits.maxStallMs);
+  };
+
+  const onWritten = () => {
+    if (backlog) {
+      backlog.progressed = true;
+    }
+  };
+
+  const fallBehind = () => {
+    metrics.sseBackpressure.inc({ route });
+    let resolve;
+    const promise = new Promise((settle) => {
+      resolve = settle;
+    });
+    backlog = { promise, resolve, stallTimer: null, progressed: false };
+    watchStall();
+  };
+
+  const enqueue = (text, frame) => {
+    const last = pending.at(-1);
+    if (frame?.event === 'delta') {
+      const delta = JSON.parse(frame.data);
+      if (last?.delta && last.delta.candidate === delta.candidate) {
+        last.delta.text += delta.text;
+        // The merged frame grows by the escaped text (JSON quotes aside) and the id change.
+        pendingBytes +=
+          Buffer.byteLength(JSON.stringify(delta.text)) - 2 + Buffer.byteLength(frame.id) - Buffer.byteLength(last.id);
+        last.id = frame.id;
+        metrics.sseCoalescedFrames.inc({ route });
+        return;
+      }
+      pending.push({ id: frame.id, delta });
+    } else {
+      pending.push({ text });
+    }
+    pendingBytes += Buffer.byteLength(text);
+  };
+
+  const flush = () => {
+    if (closed || !backlog) {
+      return;
+    }
+
+    backlog.progressed = true;
+    const text = pending.map(toText).join('');
+    pending = [];
+    pendingBytes = 0;
+    // Still full: stay backed up until the next 'drain'.
+    if (!text || res.write(text, onWritten)) {
+      caughtUp();
+    }
+  };
+
+  const write = (text, frame) => {
+    if (closed) {
+      return;
+    }
+
+    if (!backlog) {
+      if (!res.write(text, onWritten)) {
+        fallBehind();
+      }
+      return;
+    }
+
+    // Heartbeats (no frame) are pointless while data is waiting.
+    if (!frame) {
+      return;
+    }
+
+    enqueue(text, frame);
+    if (res.writableLength + pendingBytes > limits.maxBufferedBytes) {
+      disconnect('buffer');
+    }
+  };
+
+  const end = () => {
+    if (closed) {
+      return;
+    }
+
+    closed = true;
+    caughtUp();
+    res.end(pending.map(toText).join(''));
+    pending = [];
+  };
+
+  res.on('drain', flush);
+  res.on('close', () => {
+    closed = true;
+    pending = [];
+    caughtUp();
+  });
+
+  return { write, end, drained: () => backlog?.promise ?? null };
+};
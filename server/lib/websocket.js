@@ -0,0 +1,349 @@
+import { createHash } from 'node:crypto';
+import { ServerResponse } from 'node:http';
+import { readInt } from './env.js';
+
+/*
+ * Just enough of RFC 6455 for the streaming endpoint: the opening handshake, text
+ * messages (fragmented or not), ping/pong and the closing handshake. No extensions,
+ * so no permessage-deflate and no reserved bits; binary messages are refused, and so
+ * are control frames that are fragmented or carry more than 125 bytes.
+ */
+
+export const WEBSOCKET_LIMITS = {
+  // Largest message a client may send; a chat request with a long history fits easily.
+  maxMessageBytes: readInt('WS_MAX_MESSAGE_BYTES', 1024 * 1024, { min: 1024 }),
+  // Interval between pings; a client that misses two in a row is dropped. 0 disables.
+  pingIntervalMs: readInt('WS_PING_INTERVAL_MS', 30000),
+  // Bytes a connection may hold unsent before its client counts as too slow and is closed.
+  maxBufferedBytes: readInt('WS_MAX_BUFFERED_BYTES', 1024 * 1024, { min: 1024 }),
+  // How long a connection may stay backed up without any of it reaching the client
+  // before the same happens.
+  maxStallMs: readInt('WS_MAX_STALL_MS', 30000, { min: 100 }),
+};
+
+const HANDSHAKE_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+const OPCODES = { continuation: 0x0, text: 0x1, binary: 0x2, close: 0x8, ping: 0x9, pong: 0xa };
+
+// Close, ping and pong: opcodes with the high bit set.
+const isControl = (opcode) => (opcode & 0x8) !== 0;
+const MAX_CONTROL_PAYLOAD = 125;
+
+export const CLOSE_CODES = {
+  normal: 1000,
+  goingAway: 1001,
+  protocolError: 1002,
+  unsupportedData: 1003,
+  invalidPayload: 1007,
+  policyViolation: 1008,
+  tooBig: 1009,
+};
+
+const encodeFrame = (opcode, payload) => {
+  const length = payload.length;
+  const header = Buffer.alloc(length < 126 ? 2 : length < 0x10000 ? 4 : 10);
+
+  // Server frames are never masked and never fragmented.
+  header[0] = 0x80 | opcode;
+  if (length < 126) {
+    header[1] = length;
+  } else if (length < 0x10000) {
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  return Buffer.concat([header, payload]);
+};
+
+// Node's HTTP server hands upgrade requests to the 'upgrade' event instead of the app.
+// This routes them through Express anyway, behind a response bound to the raw socket,
+// so request ids, auth and 404s work as usual. A route accepts the upgrade with
+// `acceptWebSocket`; anything it answers with a normal response closes the socket.
+export const routeUpgrades = (app) => (req, socket, head) => {
+  req.upgradeHead = head;
+  const res = new ServerResponse(req);
+  res.assignSocket(socket);
+  res.on('finish', () => socket.end());
+  app(req, res);
+};
+
+export const isUpgradeRequest = (req) =>
+  Boolean(req.upgradeHead) && req.get('Upgrade')?.toLowerCase() === 'websocket';
+
+/*
+ * Completes the opening handshake for an upgrade request routed by `routeUpgrades`
+ * and returns the connection, or null after answering 400 when the handshake is bad.
+ *
+ * `onMessage(text)` receives every complete text message; `onClose(code)` runs once
+ * when the connection is gone, however it ended. The connection is
+ * `{ send(text), close(code?, reason?), drained(), get open() }`.
+ *
+ * Once the socket stops taking writes, `drained()` returns a promise resolving when it
+ * has caught up (or closed), like the SSE writer's, so generations can pause; it returns
+ * null otherwise. A client holding more than `maxBufferedBytes` unsent, or letting
+ * nothing through for `maxStallMs`, is reported to `onSlowClient(reason)` ('buffer' or
+ * 'stalled') and closed.
+ */
+export const acceptWebSocket = (req, res, { onMessage, onClose, onSlowClient }) => {
+  const key = req.get('Sec-WebSocket-Key');
+  if (!key || req.get('Sec-WebSocket-Version') !== '13') {
+    res.setHeader('Sec-WebSocket-Version', '13');
+    res.status(400).json({ error: 'invalid_request', message: 'Expected a version 13 WebSocket handshake' });
+    return null;
+  }
+
+  const socket = req.socket;
+  res.detachSocket(socket);
+
+  const accept = createHash('sha1').update(key + HANDSHAKE_GUID).digest('base64');
+  socket.write(
+    [
+      'HTTP/1.1 101 Switching Protocols',
+      'Upgrade: websocket',
+      'Connection: Upgrade',
+      `Sec-WebSocket-Accept: ${accept}`,
+      `X-Request-Id: ${req.id}`,
+      '',
+      '',
+    ].join('\r\n')
+  );
+  socket.setNoDelay(true);
+  socket.setTimeout(0);
+
+  let buffer = req.upgradeHead ?? Buffer.alloc(0);
+  // Fragments of the message being received, until its final frame.
+  let fragments = [];
+  let fragmentsLength = 0;
+  let open = true;
+  let closeSent = false;
+  let missedPongs = 0;
+  // Set while the socket is backed up: { promise, resolve, stallTimer, progressed }.
+  let backlog = null;
+  const decoder = new TextDecoder('utf-8', { fatal: true });
+
+  const caughtUp = () => {
+    if (backlog) {
+      clearTimeout(backlog.stallTimer);
+      backlog.resolve();
+      backlog = null;
+    }
+  };
+
+  // Every write that reaches the client counts as progress; only a backlog that made
+  // none for a whole `maxStallMs` is a stall.
+  const watchStall = () => {
+    backlog.stallTimer = setTimeout(() => {
+      if (!backlog.progressed) {
+        tooSlow('stalled');
+        return;
+      }
+      backlog.progressed = false;
+      watchStall();
+    }, WEBSOCKET_LIMITS.maxStallMs);
+  };
+
+  const onWritten = () => {
+    if (backlog) {
+      backlog.progressed = true;
+    }
+  };
+
+  const write = (opcode, payload) => {
+    if (socket.destroyed) {
+      return;
+    }
+
+    if (!socket.write(encodeFrame(opcode, payload), onWritten) && !backlog) {
+      let resolve;
+      const promise = new Promise((settle) => {
+        resolve = settle;
+      });
+      backlog = { promise, resolve, stallTimer: null, progressed: false };
+      watchStall();
+    }
+    if (backlog && socket.writableLength > WEBSOCKET_LIMITS.maxBufferedBytes) {
+      tooSlow('buffer');
+    }
+  };
+
+  const finish = (code) => {
+    if (!open) {
+      return;
+    }
+    open = false;
+    clearInterval(pingTimer);
+    caughtUp();
+    onClose?.(code);
+  };
+
+  const close = (code = CLOSE_CODES.normal, reason = '') => {
+    if (!closeSent) {
+      closeSent = true;
+      const reasonBytes = Buffer.from(reason).subarray(0, 123);
+      const payload = Buffer.alloc(2 + reasonBytes.length);
+      payload.writeUInt16BE(code, 0);
+      reasonBytes.copy(payload, 2);
+      write(OPCODES.close, payload);
+    }
+    socket.end();
+    finish(code);
+  };
+
+  // Its close frame would only queue behind the backlog, so the socket is dropped.
+  const tooSlow = (reason) => {
+    onSlowClient?.(reason);
+    socket.destroy();
+    finish(CLOSE_CODES.policyViolation);
+  };
+
+  const pingTimer =
+    WEBSOCKET_LIMITS.pingIntervalMs > 0
+      ? setInterval(() => {
+          missedPongs += 1;
+          if (missedPongs > 2) {
+            socket.destroy();
+            return;
+          }
+          write(OPCODES.ping, Buffer.alloc(0));
+        }, WEBSOCKET_LIMITS.pingIntervalMs)
+      : null;
+
+  const handleFrame = (opcode, fin, payload) => {
+    switch (opcode) {
+      case OPCODES.ping:
+        write(OPCODES.pong, payload);
+        return;
+      case OPCODES.pong:
+        missedPongs = 0;
+        return;
+      case OPCODES.close:
+        close(payload.length >= 2 ? payload.readUInt16BE(0) : CLOSE_CODES.normal);
+        return;
+      case OPCODES.binary:
+        close(CLOSE_CODES.unsupportedData, 'Only text messages are supported');
+        return;
+      case OPCODES.text:
+      case OPCODES.continuation: {
+        // A new message may only start once the previous one is complete.
+        const continuing = fragments.length > 0;
+        if (opcode === OPCODES.text ? continuing : !continuing) {
+          close(CLOSE_CODES.protocolError, 'Unexpected frame in a fragmented message');
+          return;
+        }
+
+        fragments.push(payload);
+        fragmentsLength += payload.length;
+        if (fragmentsLength > WEBSOCKET_LIMITS.maxMessageBytes) {
+          close(CLOSE_CODES.tooBig, 'Message too big');
+          return;
+        }
+        if (!fin) {
+          return;
+        }
+
+        const message = Buffer.concat(fragments, fragmentsLength);
+        fragments = [];
+        fragmentsLength = 0;
+
+        let text;
+        try {
+          text = decoder.decode(message);
+        } catch {
+          close(CLOSE_CODES.invalidPayload, 'Messages must be UTF-8');
+          return;
+        }
+        onMessage(text);
+        return;
+      }
+      default:
+        close(CLOSE_CODES.protocolError, 'Unknown opcode');
+    }
+  };
+
+  // Consumes every complete frame in the buffer; a partial one waits for more data.
+  const drain = () => {
+    while (open && buffer.length >= 2) {
+      const fin = (buffer[0] & 0x80) !== 0;
+      const opcode = buffer[0] & 0x0f;
+      const masked = (buffer[1] & 0x80) !== 0;
+      let length = buffer[1] & 0x7f;
+      let offset = 2;
+
+      if (!masked) {
+        close(CLOSE_CODES.protocolError, 'Client frames must be masked');
+        return;
+      }
+      // RSV1-3 mean something only under an extension, and none is negotiated.
+      if ((buffer[0] & 0x70) !== 0) {
+        close(CLOSE_CODES.protocolError, 'Reserved bits must be 0');
+        return;
+      }
+      if (isControl(opcode) && (!fin || length > MAX_CONTROL_PAYLOAD)) {
+        close(CLOSE_CODES.protocolError, 'Control frames must be unfragmented and at most 125 bytes');
+        return;
+      }
+
+      if (length === 126) {
+        if (buffer.length < 4) {
+          return;
+        }
+        length = buffer.readUInt16BE(2);
+        offset = 4;
+      } else if (length === 127) {
+        if (buffer.length < 10) {
+          return;
+        }
+        const longLength = buffer.readBigUInt64BE(2);
+        if (longLength > BigInt(WEBSOCKET_LIMITS.maxMessageBytes)) {
+          close(CLOSE_CODES.tooBig, 'Message too big');
+          return;
+        }
+        length = Number(longLength);
+        offset = 10;
+      }
+
+      if (length > WEBSOCKET_LIMITS.maxMessageBytes) {
+        close(CLOSE_CODES.tooBig, 'Message too big');
+        return;
+      }
+      if (buffer.length < offset + 4 + length) {
+        return;
+      }
+
+      const mask = buffer.subarray(offset, offset + 4);
+      const payload = Buffer.from(buffer.subarray(offset + 4, offset + 4 + length));
+      for (let i = 0; i < payload.length; i += 1) {
+        payload[i] ^= mask[i & 3];
+      }
+      buffer = buffer.subarray(offset + 4 + length);
+
+      handleFrame(opcode, fin, payload);
+    }
+  };
+
+  socket.on('data', (chunk) => {
+    buffer = buffer.length ? Buffer.concat([buffer, chunk]) : chunk;
+    drain();
+  });
+  socket.on('drain', caughtUp);
+  socket.on('close', () => finish(CLOSE_CODES.goingAway));
+  socket.on('error', () => socket.destroy());
+
+  // Frames may have arrived together with the handshake.
+  queueMicrotask(drain);
+
+  return {
+    get open() {
+      return open;
+    },
+    send: (text) => {
+      if (open) {
+        write(OPCODES.text, Buffer.from(text));
+      }
+    },
+    close,
+    drained: () => backlog?.promise ?? null,
+  };
+};
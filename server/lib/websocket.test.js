@@ -0,0 +1,116 @@
+import assert from 'node:assert/strict';
+import { once } from 'node:events';
+import { createServer } from 'node:http';
+import { connect } from 'node:net';
+import { after, before, test } from 'node:test';
+import { acceptWebSocket, CLOSE_CODES, routeUpgrades } from './websocket.js';
+
+// A bare upgrade route standing in for Express: it accepts every handshake and
+// records the text messages it gets.
+let server;
+let port;
+const received = [];
+// Upgraded sockets are no longer the HTTP server's, so closing it leaves them open.
+const sockets = new Set();
+
+before(async () => {
+  const app = (req, res) => {
+    req.get = (name) => req.headers[name.toLowerCase()];
+    sockets.add(req.socket);
+    acceptWebSocket(req, res, { onMessage: (text) => received.push(text) });
+  };
+  server = createServer();
+  server.on('upgrade', routeUpgrades(app));
+  server.listen(0);
+  await once(server, 'listening');
+  port = server.address().port;
+});
+
+after(() => {
+  sockets.forEach((socket) => socket.destroy());
+  server.close();
+});
+
+// A masked client frame; `first` is the whole first byte (FIN, RSV bits and opcode).
+const clientFrame = (first, payload = Buffer.alloc(0)) => {
+  const length = payload.length;
+  const header = length < 126 ? Buffer.from([first, 0x80 | length]) : Buffer.from([first, 0x80 | 126, 0, 0]);
+  if (length >= 126) {
+    header.writeUInt16BE(length, 2);
+  }
+  const mask = Buffer.from([1, 2, 3, 4]);
+  const masked = Buffer.from(payload.map((byte, i) => byte ^ mask[i & 3]));
+  return Buffer.concat([header, mask, masked]);
+};
+
+// Opens a connection, sends `frames` and resolves with the server frames (opcode and
+// payload) received within 200 ms.
+const exchange = async (frames) => {
+  const socket = connect(port, '127.0.0.1');
+  await once(socket, 'connect');
+  socket.write(
+    [
+      'GET / HTTP/1.1',
+      'Host: localhost',
+      'Upgrade: websocket',
+      'Connection: Upgrade',
+      'Sec-WebSocket-Key: dGhlIHNhbXBsZSBub25jZQ==',
+      'Sec-WebSocket-Version: 13',
+      '',
+      '',
+    ].join('\r\n')
+  );
+
+  const chunks = [];
+  socket.on('data', (chunk) => chunks.push(chunk));
+  for (const frame of frames) {
+    socket.write(frame);
+  }
+  setTimeout(() => socket.destroy(), 200);
+  await once(socket, 'close');
+
+  const data = Buffer.concat(chunks);
+  let offset = data.indexOf('\r\n\r\n') + 4;
+  const replies = [];
+  while (offset + 2 <= data.length) {
+    const length = data[offset + 1];
+    replies.push({ opcode: data[offset] & 0x0f, payload: data.subarray(offset + 2, offset + 2 + length) });
+    offset += 2 + length;
+  }
+  return replies;
+};
+
+const closeCode = (replies) => {
+  const close = replies.find((reply) => reply.opcode === 0x8);
+  return close?.payload.readUInt16BE(0);
+};
+
+test('delivers a text message split over fragments', async () => {
+  received.length = 0;
+  await exchange([clientFrame(0x01, Buffer.from('hel')), clientFrame(0x80, Buffer.from('lo'))]);
+  assert.deepEqual(received, ['hello']);
+});
+
+test('answers a ping with a pong carrying the same payload', async () => {
+  const replies = await exchange([clientFrame(0x89, Buffer.from('abc'))]);
+  assert.deepEqual(replies[0], { opcode: 0xa, payload: Buffer.from('abc') });
+});
+
+test('closes with a protocol error when a reserved bit is set', async () => {
+  received.length = 0;
+  const replies = await exchange([clientFrame(0x80 | 0x40 | 0x01, Buffer.from('hi'))]);
+  assert.equal(closeCode(replies), CLOSE_CODES.protocolError);
+  assert.deepEqual(received, []);
+});
+
+test('closes with a protocol error on a fragmented control frame', async () => {
+  const replies = await exchange([clientFrame(0x09, Buffer.from('abc'))]);
+  assert.equal(closeCode(replies), CLOSE_CODES.protocolError);
+  assert.ok(!replies.some((reply) => reply.opcode === 0xa));
+});
+
+test('closes with a protocol error on a control frame over 125 bytes', async () => {
+  const replies = await exchange([clientFrame(0x89, Buffer.alloc(126, 0x61))]);
+  assert.equal(closeCode(replies), CLOSE_CODES.protocolError);
+  assert.ok(!replies.some((reply) => reply.opcode === 0xa));
+});
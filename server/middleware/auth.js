@@ -0,0 +1,86 @@
+import {
+  authEnabled,
+  findPrincipal,
+  isModelAllowed,
+  readBearerToken,
+  takeQuota,
+  verifyStreamTicket,
+} from '../lib/auth.js';
+import { logger } from '../lib/logger.js';
+import { rejectRequest } from '../lib/rejections.js';
+import { readLastEventId } from '../lib/sse.js';
+
+/*
+ * Resolves the caller's API key into `req.principal` (null while auth is disabled).
+ * Headers are checked first; `transport: 'sse'` and `'ws'` routes also accept a `ticket`
+ * query parameter from POST /api/stream-tickets, since neither EventSource nor the
+ * browser WebSocket can send headers. `'ws'` rejections are plain HTTP answers to the
+ * upgrade request.
+ *
+ * `chargeQuota: false` authenticates without counting a request against the key's
+ * quota. On `resumable` routes a request carrying Last-Event-ID is still authenticated
+ * (resumeFromRequest then only re-attaches the caller to their own generation) but
+ * costs no quota, and its ticket may have expired since the stream started: EventSource
+ * reconnects repeat the original URL.
+ */
+export const requireAuth =
+  ({ transport = 'json', chargeQuota = true, resumable = false } = {}) =>
+  (req, res, next) => {
+    req.principal = null;
+    if (!authEnabled) {
+      return next();
+    }
+
+    const resuming = resumable && Boolean(readLastEventId(req));
+    const token = readBearerToken(req);
+    const principal = token
+      ? findPrincipal(token)
+      : transport === 'sse' || transport === 'ws'
+        ? verifyStreamTicket(req.query.ticket, { allowExpired: resuming })
+        : null;
+
+    if (!principal) {
+      logger.warn('auth_failed', { requestId: req.id, route: req.routePath, credential: token ? 'key' : 'ticket' });
+      res.setHeader('WWW-Authenticate', 'Bearer');
+      return rejectRequest(res, {
+        status: 401,
+        code: 'unauthorized',
+        message: token || req.query.ticket ? 'Invalid or expired credentials' : 'An API key is required',
+        transport,
+      });
+    }
+
+    if (chargeQuota && !resuming) {
+      const exhausted = takeQuota(principal);
+      if (exhausted) {
+        const retryAfterSec = Math.max(1, Math.ceil(exhausted.retryAfterMs / 1000));
+        logger.warn('quota_exceeded', { requestId: req.id, route: req.routePath, key: principal.id });
+        return rejectRequest(res, {
+          status: 429,
+          code: 'quota_exceeded',
+          message: `Quota exceeded for this API key, retry in ${retryAfterSec}s`,
+          retryAfterMs: retryAfterSec * 1000,
+          transport,
+        });
+      }
+    }
+
+    req.principal = principal;
+    next();
+  };
+
+// Enforces the key's model allowlist once the route has resolved the model.
+// Returns false after answering the request when the model is not allowed.
+export const ensureModelAllowed = (req, res, model, { transport = 'json' } = {}) => {
+  if (isModelAllowed(req.principal, model)) {
+    return true;
+  }
+
+  rejectRequest(res, {
+    status: 403,
+    code: 'model_not_allowed',
+    message: `This API key may not use model "${model}"`,
+    transport,
+  });
+  return false;
+};
@@ -0,0 +1,23 @@
+import { logger } from '../lib/logger.js';
+
+// Catches anything a route module throws (Express 5 forwards rejected promises here).
+// Streaming routes may already have sent SSE headers, in which case the only safe
+// thing left to do is end the response.
+export const errorHandler = (error, req, res, _next) => {
+  if (error?.type === 'entity.parse.failed') {
+    return res.status(400).json({ error: 'Invalid JSON body' });
+  }
+
+  logger.error('unhandled_error', { requestId: req.id, method: req.method, path: req.originalUrl, error });
+
+  if (res.headersSent) {
+    res.end();
+    return;
+  }
+
+  res.status(500).json({ error: 'Failed to generate response' });
+};
+
+export const notFoundHandler = (req, res) => {
+  res.status(404).json({ error: `No route for ${req.method} ${req.path}` });
+};
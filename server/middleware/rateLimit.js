@@ -0,0 +1,60 @@
+import { logger } from '../lib/logger.js';
+import { metrics } from '../lib/metrics.js';
+import { acquireStreamSlot, clientKey, RATE_LIMITS, takeRequest } from '../lib/rateLimit.js';
+import { rejectRequest } from '../lib/rejections.js';
+import { readLastEventId } from '../lib/sse.js';
+
+const REASON_MESSAGES = {
+  requests: 'Rate limited (too many requests)',
+  streams: 'Rate limited (too many open streams)',
+};
+
+// Answers an over-limit request with a 429 (or a `rate_limited` error frame for
+// EventSource) carrying Retry-After, rounded up to whole seconds.
+export const sendRateLimited = (req, res, { reason, retryAfterMs, transport = 'json' }) => {
+  const retryAfterSec = Math.max(1, Math.ceil(retryAfterMs / 1000));
+
+  metrics.rateLimited.inc({ route: req.routePath, reason });
+  logger.warn('rate_limited', { requestId: req.id, route: req.routePath, reason, retryAfterMs });
+
+  rejectRequest(res, {
+    status: 429,
+    code: 'rate_limited',
+    message: `${REASON_MESSAGES[reason]}, retry in ${retryAfterSec}s`,
+    retryAfterMs: retryAfterSec * 1000,
+    transport,
+  });
+};
+
+// Counts every new generation against the client's request window. Resumes are
+// free: they re-attach to a generation that was already paid for.
+export const limitRequests =
+  ({ transport = 'json' } = {}) =>
+  (req, res, next) => {
+    if (readLastEventId(req)) {
+      return next();
+    }
+
+    const limited = takeRequest(clientKey(req));
+    if (limited) {
+      return sendRateLimited(req, res, { reason: 'requests', retryAfterMs: limited.retryAfterMs, transport });
+    }
+
+    next();
+  };
+
+// Takes one of the client's concurrent-stream slots and returns its release
+// function, or answers the request and returns null when none is free.
+export const reserveStreamSlot = (req, res, { transport = 'json' } = {}) => {
+  const release = acquireStreamSlot(clientKey(req));
+  if (!release) {
+    sendRateLimited(req, res, {
+      reason: 'streams',
+      retryAfterMs: RATE_LIMITS.concurrencyRetryAfterMs,
+      transport,
+    });
+    return null;
+  }
+
+  return release;
+};
@@ -0,0 +1,33 @@
+import { randomUUID } from 'node:crypto';
+import { logger } from '../lib/logger.js';
+import { metrics } from '../lib/metrics.js';
+
+// An id supplied by a trusted proxy is kept so logs line up across hops; anything
+// that does not look like an id is replaced.
+const INCOMING_ID_PATTERN = /^[\w.:-]{1,128}$/;
+
+// Gives every request an id (`req.id`, echoed as X-Request-Id) and writes one
+// structured access log line when the response is finished or the client goes away.
+export const requestId = (req, res, next) => {
+  const incoming = req.get('X-Request-Id');
+  req.id = incoming && INCOMING_ID_PATTERN.test(incoming) ? incoming : randomUUID();
+  res.setHeader('X-Request-Id', req.id);
+
+  const startedAt = performance.now();
+  res.on('close', () => {
+    // Set by app.js for mounted routes; keeps metric labels to a fixed set.
+    const route = req.routePath ?? 'unmatched';
+    metrics.httpRequests.inc({ method: req.method, route, status: res.statusCode });
+    logger.info('request_finished', {
+      requestId: req.id,
+      method: req.method,
+      route,
+      status: res.statusCode,
+      // The client disconnected before the response was complete.
+      aborted: !res.writableFinished,
+      durationMs: Math.round(performance.now() - startedAt),
+    });
+  });
+
+  next();
+};
@@ -0,0 +1,157 @@
+import Anthropic from '@anthropic-ai/sdk';
+import { jsonInstructions, withSystemInstructions } from './jsonMode.js';
+
+const DEFAULT_MAX_TOKENS = 1024;
+
+let client = null;
+const getClient = () => {
+  if (!client) {
+    client = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY });
+  }
+  return client;
+};
+
+const STOP_REASONS = {
+  end_turn: 'stop',
+  stop_sequence: 'stop',
+  max_tokens: 'length',
+  tool_use: 'tool_calls',
+  refusal: 'content_filter',
+};
+
+const parseToolInput = (text) => {
+  try {
+    return text.trim() ? JSON.parse(text) : {};
+  } catch {
+    return {};
+  }
+};
+
+// Tool calls are `tool_use` blocks in the assistant message, and their results
+// `tool_result` blocks in the user message that follows.
+const toAnthropicMessage = (message) => {
+  if (message.role === 'tool') {
+    return { role: 'user', content: [{ type: 'tool_result', tool_use_id: message.toolCallId, content: message.content }] };
+  }
+  if (message.toolCalls) {
+    return {
+      role: 'assistant',
+      content: [
+        ...(message.content ? [{ type: 'text', text: message.content }] : []),
+        ...message.toolCalls.map((call) => ({
+          type: 'tool_use',
+          id: call.id,
+          name: call.name,
+          input: parseToolInput(call.arguments),
+        })),
+      ],
+    };
+  }
+  return { role: message.role, content: message.content };
+};
+
+// Anthropic takes the system prompt as a top-level field rather than a message. It has
+// no JSON mode here, so a response format becomes instructions in that prompt.
+const toAnthropicParams = (allMessages, { responseFormat } = {}) => {
+  const messages = withSystemInstructions(allMessages, jsonInstructions(responseFormat));
+  const system = messages
+    .filter((message) => message.role === 'system')
+    .map((message) => message.content)
+    .join('\n\n');
+
+  // Roles must alternate, so the results of several calls share one user message.
+  const converted = [];
+  for (const message of messages.filter(({ role }) => role !== 'system').map(toAnthropicMessage)) {
+    const previous = converted[converted.length - 1];
+    if (message.role === 'user' && previous?.role === 'user' && Array.isArray(previous.content)) {
+      previous.content.push(...message.content);
+    } else {
+      converted.push(message);
+    }
+  }
+
+  return { ...(system ? { system } : {}), messages: converted };
+};
+
+const toAnthropicTools = (tools = []) =>
+  tools.length > 0
+    ? { tools: tools.map(({ name, description, parameters }) => ({ name, description, input_schema: parameters })) }
+    : {};
+
+// max_tokens is required by the Messages API, so it always gets a value.
+const toSamplingParams = ({ temperature, topP, maxTokens, stop } = {}) => ({
+  max_tokens: maxTokens ?? DEFAULT_MAX_TOKENS,
+  ...(temperature !== undefined ? { temperature } : {}),
+  ...(topP !== undefined ? { top_p: topP } : {}),
+  ...(stop !== undefined ? { stop_sequences: stop } : {}),
+});
+
+export const anthropicProvider = {
+  name: 'anthropic',
+  defaultModel: 'claude-3-haiku-20240307',
+  models: ['claude-3-haiku-20240307', 'claude-3-5-haiku-20241022', 'claude-haiku-4-5', 'claude-sonnet-4-5'],
+  // No seed; temperature tops out at 1.
+  params: { temperature: { max: 1 }, topP: {}, maxTokens: {}, stop: { maxSequences: 8 }, responseFormat: {} },
+
+  async *stream({ model, messages, signal, params, tools }) {
+    const stream = await getClient().messages.create(
+      {
+        model,
+        ...toSamplingParams(params),
+        ...toAnthropicParams(messages, params),
+        ...toAnthropicTools(tools),
+        stream: true,
+      },
+      { signal }
+    );
+
+    let promptTokens = 0;
+
+    for await (const chunk of stream) {
+      if (chunk.type === 'message_start') {
+        promptTokens = chunk.message.usage?.input_tokens ?? 0;
+      } else if (chunk.type === 'content_block_start' && chunk.content_block.type === 'tool_use') {
+        const { id, name } = chunk.content_block;
+        yield { type: 'tool_call', index: chunk.index, id, name };
+      } else if (chunk.type === 'content_block_delta' && chunk.delta.type === 'text_delta' && chunk.delta.text) {
+        yield { type: 'delta', text: chunk.delta.text };
+      } else if (chunk.type === 'content_block_delta' && chunk.delta.type === 'input_json_delta') {
+        if (chunk.delta.partial_json) {
+          yield { type: 'tool_call_delta', index: chunk.index, text: chunk.delta.partial_json };
+        }
+      } else if (chunk.type === 'message_delta') {
+        if (chunk.delta.stop_reason) {
+          yield { type: 'stop', reason: STOP_REASONS[chunk.delta.stop_reason] ?? chunk.delta.stop_reason };
+        }
+        // message_delta carries the cumulative output token count.
+        yield {
+          type: 'usage',
+          usage: { promptTokens, completionTokens: chunk.usage?.output_tokens ?? 0 },
+        };
+      }
+    }
+  },
+
+  async complete({ model, messages, signal, params }) {
+    const message = await getClient().messages.create(
+      {
+        model,
+        ...toSamplingParams(params),
+        ...toAnthropicParams(messages, params),
+      },
+      { signal }
+    );
+
+    return {
+      text: message.content
+        .filter((block) => block.type === 'text')
+        .map((block) => block.text)
+        .join(''),
+      stopReason: STOP_REASONS[message.stop_reason] ?? message.stop_reason,
+      usage: {
+        promptTokens: message.usage?.input_tokens ?? 0,
+        completionTokens: message.usage?.output_tokens ?? 0,
+      },
+    };
+  },
+};
@@ -0,0 +1,7 @@
+// SDKs surface a cancelled request differently (DOM AbortError, OpenAI/Anthropic
+// APIUserAbortError, or a plain Error mentioning "aborted"), so every caller checks here.
+export const isAbortError = (error) => {
+  const name = error instanceof Error ? error.name : error?.name;
+  const message = error instanceof Error ? error.message : error?.message || '';
+  return name === 'AbortError' || name === 'APIUserAbortError' || message.includes('aborted');
+};
@@ -0,0 +1,172 @@
+import { openaiProvider } from './openai.js';
+import { anthropicProvider } from './anthropic.js';
+import { mockProvider } from './mock.js';
+
+export { isAbortError } from './errors.js';
+
+/*
+ * Provider adapters normalize each SDK's streaming format into one event model.
+ *
+ * An adapter is an object with:
+ *   name          - the value clients send as `provider`
+ *   defaultModel  - used when the request does not name a model
+ *   models        - model names clients may request (the allowlist)
+ *   params        - generation params the adapter honors, with per-param bounds:
+ *                   { temperature: { max }, topP, maxTokens, stop: { maxSequences }, seed,
+ *                   responseFormat }
+ *   stream(opts)  - async iterable of normalized events:
+ *                     { type: 'delta', text }
+ *                     { type: 'tool_call', index, id, name }   the model starts calling a tool
+ *                     { type: 'tool_call_delta', index, text } more of that call's JSON arguments
+ *                     { type: 'stop', reason }   reason: 'stop' | 'length' | 'tool_calls' | 'content_filter'
+ *                     { type: 'usage', usage: { promptTokens, completionTokens } }
+ *   complete(opts) - resolves to { text, stopReason, usage } without streaming
+ *   candidates    - optional; true when stream() writes `n` candidate replies itself,
+ *                   tagging each event with its `candidate` index (0-based)
+ *
+ * where opts is { model, messages, signal, options, params, tools } and messages are
+ * { role, content } with role 'system' | 'user' | 'assistant'. `params` holds the
+ * validated generation params ({ temperature, topP, maxTokens, stop, seed, responseFormat },
+ * unset ones omitted). `responseFormat` is { type: 'text' | 'json_object' } or
+ * { type: 'json_schema', name, schema, strict }; adapters use native structured output
+ * where the provider has it and instructions (providers/jsonMode.js) where it does not.
+ * `options` holds provider-specific knobs from the request's `providerOptions` (only the
+ * mock provider reads them today).
+ *
+ * For n > 1, adapters without `candidates` are called n times side by side, each call
+ * told its `candidate` index, which they may use to vary otherwise deterministic output.
+ *
+ * `tools` ([{ name, description, parameters }], possibly empty; stream only) are offered
+ * to the model. Once it has called some, the history continues with
+ * { role: 'assistant', content, toolCalls: [{ id, name, arguments }] } and one
+ * { role: 'tool', toolCallId, name, content } per call, `content` being the JSON result.
+ *
+ * <NAME>_MODELS (comma-separated) and <NAME>_DEFAULT_MODEL override an adapter's
+ * allowlist and default, e.g. OPENAI_MODELS=gpt-4o-mini,gpt-4o.
+ * Register new adapters below.
+ */
+const withModelOverrides = (adapter) => {
+  const prefix = adapter.name.toUpperCase();
+  const models =
+    process.env[`${prefix}_MODELS`]
+      ?.split(',')
+      .map((model) => model.trim())
+      .filter(Boolean) ?? adapter.models;
+  const defaultModel = process.env[`${prefix}_DEFAULT_MODEL`] || adapter.defaultModel;
+
+  // The default must always be requestable.
+  return {
+    ...adapter,
+    defaultModel,
+    models: models.includes(defaultModel) ? models : [defaultModel, ...models],
+  };
+};
+
+// Any caller may drive the mock's timings and reply length, so it is offered only
+// where MOCK_PROVIDER=true, or by default outside production (MOCK_PROVIDER=false
+// turns it off anywhere).
+const mockEnabled = process.env.MOCK_PROVIDER
+  ? process.env.MOCK_PROVIDER === 'true'
+  : process.env.NODE_ENV !== 'production';
+
+const providers = new Map(
+  [openaiProvider, anthropicProvider, ...(mockEnabled ? [mockProvider] : [])].map((provider) => [
+    provider.name,
+    withModelOverrides(provider),
+  ])
+);
+
+export const providerNames = [...providers.keys()];
+
+export const defaultProviderName = process.env.DEFAULT_PROVIDER || 'openai';
+
+// `providerOptions` must be a plain object; query-string callers send it JSON-encoded.
+export const parseProviderOptions = (value) => {
+  if (value === undefined || value === null || value === '') {
+    return {};
+  }
+
+  let parsed = value;
+  if (typeof value === 'string') {
+    try {
+      parsed = JSON.parse(value);
+    } catch {
+      return null;
+    }
+  }
+
+  return typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : null;
+};
+
+export const getProvider = (name = defaultProviderName) => providers.get(name) ?? null;
+
+// Resolves `{ provider, model }` from a request into an adapter and a concrete model name.
+// Returns null when the provider is unknown; callers check the model with isModelListed.
+export const resolveProvider = ({ provider, model } = {}) => {
+  const adapter = getProvider(typeof provider === 'string' && provider ? provider : undefined);
+  if (!adapter) {
+    return null;
+  }
+
+  return {
+    adapter,
+    model: typeof model === 'string' && model ? model : adapter.defaultModel,
+  };
+};
+
+export const isModelListed = (adapter, model) => adapter.models.includes(model);
+
+// Runs one stream per candidate side by side, tagging each event with its candidate
+// index, in arrival order. The first failure, or the consumer stopping early, aborts
+// the calls still running.
+async function* fanOut(adapter, opts, n) {
+  const controller = new AbortController();
+  const signal = AbortSignal.any([opts.signal, controller.signal]);
+  const iterators = Array.from({ length: n }, (_, candidate) =>
+    adapter.stream({ ...opts, signal, candidate })[Symbol.asyncIterator]()
+  );
+
+  // One pending next() per candidate still streaming; failures are settled values so
+  // that none goes unhandled once another has ended the stream.
+  const pending = new Map();
+  const pull = (candidate) =>
+    pending.set(
+      candidate,
+      iterators[candidate].next().then(
+        (result) => ({ candidate, result }),
+        (error) => ({ candidate, error })
+      )
+    );
+
+  try {
+    iterators.forEach((_, candidate) => pull(candidate));
+    while (pending.size > 0) {
+      const { candidate, result, error } = await Promise.race(pending.values());
+      if (error) {
+        throw error;
+      }
+      if (result.done) {
+        pending.delete(candidate);
+        continue;
+      }
+      pull(candidate);
+      yield { ...result.value, candidate };
+    }
+  } finally {
+    controller.abort();
+  }
+}
+
+export const streamChat = ({ provider, model, messages, signal, options, params, tools = [], n = 1 }) => {
+  const resolved = resolveProvider({ provider, model });
+  if (!resolved) {
+    throw new Error(`Unknown provider "${provider}"`);
+  }
+
+  const { adapter } = resolved;
+  const opts = { model: resolved.model, messages, signal, options, params, tools };
+  if (n === 1) {
+    return adapter.stream(opts);
+  }
+  return adapter.candidates ? adapter.stream({ ...opts, n }) : fanOut(adapter, opts, n);
+};
@@ -0,0 +1,24 @@
+// Spells out a JSON response format for providers without native structured output,
+// and for OpenAI's json_object mode, which requires the prompt to mention JSON.
+// Returns null for plain text.
+export const jsonInstructions = (responseFormat) => {
+  if (!responseFormat || responseFormat.type === 'text') {
+    return null;
+  }
+
+  const base = 'Respond with a single JSON value and nothing else: no prose, no Markdown code fences.';
+  return responseFormat.type === 'json_schema'
+    ? `${base} It must conform to this JSON schema:\n${JSON.stringify(responseFormat.schema)}`
+    : `${base} Unless asked otherwise, make it an object.`;
+};
+
+// Adds `instructions` to the system prompt, creating one if there is none.
+export const withSystemInstructions = (messages, instructions) => {
+  if (!instructions) {
+    return messages;
+  }
+
+  const firstOther = messages.findIndex((message) => message.role !== 'system');
+  const at = firstOther === -1 ? messages.length : firstOther;
+  return [...messages.slice(0, at), { role: 'system', content: instructions }, ...messages.slice(at)];
+};
@@ -0,0 +1,318 @@
+import { setTimeout as sleep } from 'node:timers/promises';
+import { getTool } from '../tools/index.js';
+
+// Offline provider for UI work and CI: no API key, no network, same event model as
+// the real adapters. Defaults come from MOCK_* env vars; a request can override any
+// of them with `providerOptions` (e.g. { failAtChunk: 5, unicode: true }), within
+// REQUEST_OPTION_BOUNDS. It is only registered where MOCK_PROVIDER allows (see
+// providers/index.js).
+const readNumber = (value, fallback) => {
+  const parsed = Number(value);
+  return value !== undefined && value !== '' && Number.isFinite(parsed) ? parsed : fallback;
+};
+
+const envConfig = () => ({
+  mode: process.env.MOCK_MODE || null,
+  ttftMs: readNumber(process.env.MOCK_TTFT_MS, 300),
+  chunkDelayMs: readNumber(process.env.MOCK_CHUNK_DELAY_MS, 30),
+  chunkSize: readNumber(process.env.MOCK_CHUNK_SIZE, 4),
+  words: readNumber(process.env.MOCK_WORDS, 80),
+  seed: readNumber(process.env.MOCK_SEED, 42),
+  failAtChunk: readNumber(process.env.MOCK_FAIL_AT_CHUNK, null),
+  unicode: process.env.MOCK_UNICODE === 'true',
+});
+
+// Requests pick their own reply length and pacing, so each numeric option is clamped:
+// a huge `words` would allocate the whole reply up front, huge delays would hold a
+// stream slot until the duration limit.
+const REQUEST_OPTION_BOUNDS = {
+  ttftMs: { min: 0, max: 10000 },
+  chunkDelayMs: { min: 0, max: 2000 },
+  chunkSize: { min: 1, max: 1000 },
+  words: { min: 0, max: 20000 },
+  failAtChunk: { min: 0, max: Number.MAX_SAFE_INTEGER },
+};
+
+const clamp = (value, { min, max }) => Math.min(max, Math.max(min, value));
+
+const readOption = (key, value, fallback) => {
+  const parsed = readNumber(value, fallback);
+  const bounds = REQUEST_OPTION_BOUNDS[key];
+  return bounds && parsed !== null ? clamp(parsed, bounds) : parsed;
+};
+
+const resolveConfig = (model, options = {}) => {
+  const config = envConfig();
+  for (const key of Object.keys(config)) {
+    if (options[key] !== undefined && options[key] !== null) {
+      config[key] = key === 'mode' || key === 'unicode' ? options[key] : readOption(key, options[key], config[key]);
+    }
+  }
+
+  config.mode = config.mode || (model === 'mock-echo' ? 'echo' : 'lorem');
+  config.chunkSize = Math.max(1, Math.floor(config.chunkSize));
+  return config;
+};
+
+const LOREM = (
+  'lorem ipsum dolor sit amet consectetur adipiscing elit sed do eiusmod tempor incididunt ut labore et ' +
+  'dolore magna aliqua ut enim ad minim veniam quis nostrud exercitation ullamco laboris nisi aliquip ex ea ' +
+  'commodo consequat duis aute irure in reprehenderit voluptate velit esse cillum fugiat nulla pariatur'
+).split(' ');
+
+// Multi-byte samples: accents, CJK, astral-plane emoji, ZWJ sequences and flags.
+const UNICODE = ['naïve', 'café', 'über', '日本語', '中文', 'Ελληνικά', '🚀', '✨', '👩‍💻', '👍🏽', '🇺🇦', '∑∞'];
+
+// mulberry32: tiny deterministic PRNG so the same seed always streams the same text.
+const createRandom = (seed) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const generateLorem = ({ words, seed, unicode }) => {
+  const random = createRandom(seed);
+  const output = [];
+  let sentenceLength = 0;
+
+  for (let i = 0; i < words; i += 1) {
+    const pool = unicode && random() < 0.2 ? UNICODE : LOREM;
+    let word = pool[Math.floor(random() * pool.length)];
+    if (sentenceLength === 0) {
+      word = word.charAt(0).toUpperCase() + word.slice(1);
+    }
+
+    sentenceLength += 1;
+    const endSentence = i === words - 1 || (sentenceLength > 5 && random() < 0.15);
+    output.push(endSentence ? `${word}.` : word);
+    if (endSentence) {
+      sentenceLength = 0;
+    }
+  }
+
+  return output.join(' ');
+};
+
+// Shape used for json_object requests, which carry no schema.
+const DEFAULT_JSON_SCHEMA = {
+  type: 'object',
+  properties: {
+    title: { type: 'string', maxLength: 40 },
+    summary: { type: 'string' },
+    tags: { type: 'array', items: { type: 'string', maxLength: 12 } },
+    score: { type: 'number', minimum: 0, maximum: 10 },
+    published: { type: 'boolean' },
+  },
+};
+
+const pick = (random, options) => options[Math.floor(random() * options.length)];
+
+// A random value fitting the common schema keywords (type, enum, properties, items,
+// min/maxItems, maxLength, minimum/maximum), so JSON mode can be exercised offline.
+const sampleFromSchema = (schema, random) => {
+  if (Array.isArray(schema.enum) && schema.enum.length > 0) {
+    return pick(random, schema.enum);
+  }
+
+  const fallbackType = schema.properties ? 'object' : 'string';
+  const type = Array.isArray(schema.type) ? pick(random, schema.type) : (schema.type ?? fallbackType);
+  switch (type) {
+    case 'object':
+      return Object.fromEntries(
+        Object.entries(schema.properties ?? {}).map(([name, property]) => [name, sampleFromSchema(property, random)])
+      );
+    case 'array': {
+      const min = schema.minItems ?? 2;
+      const max = Math.max(min, schema.maxItems ?? 4);
+      const length = min + Math.floor(random() * (Math.min(max, min + 2) - min + 1));
+      return Array.from({ length }, () => sampleFromSchema(schema.items ?? {}, random));
+    }
+    case 'integer':
+    case 'number': {
+      const min = schema.minimum ?? 0;
+      const max = schema.maximum ?? min + 100;
+      const value = min + random() * (max - min);
+      return type === 'integer' ? Math.floor(value) : Math.round(value * 100) / 100;
+    }
+    case 'boolean':
+      return random() < 0.5;
+    case 'null':
+      return null;
+    default: {
+      const words = Array.from({ length: 2 + Math.floor(random() * 6) }, () => pick(random, LOREM)).join(' ');
+      return schema.maxLength !== undefined ? words.slice(0, schema.maxLength) : words;
+    }
+  }
+};
+
+const generateText = (config, messages, responseFormat) => {
+  if (responseFormat && responseFormat.type !== 'text') {
+    const schema = responseFormat.type === 'json_schema' ? responseFormat.schema : DEFAULT_JSON_SCHEMA;
+    return JSON.stringify(sampleFromSchema(schema, createRandom(config.seed)), null, 2);
+  }
+
+  if (config.mode === 'echo') {
+    const lastUser = [...messages].reverse().find((message) => message.role === 'user');
+    return lastUser?.content ?? '';
+  }
+
+  return generateLorem(config);
+};
+
+// Split on code points (not UTF-16 units) so no chunk carries half a surrogate pair;
+// ZWJ emoji can still straddle chunks, just like real model tokens.
+const toChunks = (text, chunkSize) => {
+  const codePoints = Array.from(text);
+  const chunks = [];
+  for (let i = 0; i < codePoints.length; i += chunkSize) {
+    chunks.push(codePoints.slice(i, i + chunkSize).join(''));
+  }
+  return chunks;
+};
+
+// Rough chars-per-token heuristic; good enough for exercising usage reporting.
+const CHARS_PER_TOKEN = 4;
+const estimateTokens = (text) => Math.ceil(text.length / CHARS_PER_TOKEN);
+
+// Honors stop sequences and max tokens the way a real model would, so clients can
+// exercise `finishReason: 'length'` offline. Temperature and top_p are accepted and ignored.
+const applyParams = (text, { stop, maxTokens } = {}) => {
+  let output = text;
+  for (const sequence of stop ?? []) {
+    const index = output.indexOf(sequence);
+    if (index !== -1) {
+      output = output.slice(0, index);
+    }
+  }
+
+  const codePoints = Array.from(output);
+  if (maxTokens !== undefined && codePoints.length > maxTokens * CHARS_PER_TOKEN) {
+    return { text: codePoints.slice(0, maxTokens * CHARS_PER_TOKEN).join(''), stopReason: 'length' };
+  }
+
+  return { text: output, stopReason: 'stop' };
+};
+
+// `params.seed` wins over MOCK_SEED and providerOptions.seed, like a real model's seed.
+// Candidates of one request (n > 1) each offset it, so they read differently.
+const generate = (model, messages, options, params = {}, candidate = 0) => {
+  const config = resolveConfig(model, options);
+  if (params.seed !== undefined) {
+    config.seed = params.seed;
+  }
+  config.seed += candidate;
+
+  return { config, ...applyParams(generateText(config, messages, params.responseFormat), params) };
+};
+
+const countPromptTokens = (messages) =>
+  messages.reduce((total, message) => total + estimateTokens(message.content ?? ''), 0);
+
+const injectedFailure = (chunkIndex) => {
+  const error = new Error(`Mock provider failure injected at chunk ${chunkIndex}`);
+  error.name = 'MockProviderError';
+  return error;
+};
+
+// With tools offered, the mock first calls one: the one the prompt names (`lookup file`
+// finds lookup_file), else the first. It calls it with the tool's `example` arguments,
+// then answers the results with a line per result followed by the usual text.
+const pickTool = (tools, messages) => {
+  const prompt = [...messages].reverse().find((message) => message.role === 'user')?.content.toLowerCase() ?? '';
+  return tools.find(({ name }) => prompt.includes(name) || prompt.includes(name.replace(/_/g, ' '))) ?? tools[0];
+};
+
+let nextCallId = 1;
+
+async function* streamToolCall(name, args, config, signal) {
+  yield { type: 'tool_call', index: 0, id: `call_mock_${nextCallId++}`, name };
+
+  for (const chunk of toChunks(args, config.chunkSize)) {
+    await sleep(config.chunkDelayMs, undefined, { signal });
+    yield { type: 'tool_call_delta', index: 0, text: chunk };
+  }
+}
+
+const describeToolResults = (messages) => {
+  const results = [];
+  for (let index = messages.length - 1; messages[index]?.role === 'tool'; index -= 1) {
+    results.unshift(`The ${messages[index].name} tool returned:\n\n\`\`\`json\n${messages[index].content}\n\`\`\``);
+  }
+  return results.join('\n\n');
+};
+
+export const mockProvider = {
+  name: 'mock',
+  defaultModel: 'mock-lorem',
+  models: ['mock-lorem', 'mock-echo'],
+  params: {
+    temperature: { max: 2 },
+    topP: {},
+    maxTokens: {},
+    stop: { maxSequences: 4 },
+    seed: {},
+    responseFormat: {},
+  },
+
+  async *stream({ model, messages, signal, options, params, tools = [], candidate }) {
+    const generated = generate(model, messages, options, params, candidate);
+    const { config, stopReason } = generated;
+    const answersTools = messages[messages.length - 1].role === 'tool';
+    const text = answersTools ? `${describeToolResults(messages)}\n\n${generated.text}` : generated.text;
+    const chunks = toChunks(text, config.chunkSize);
+    let completion = '';
+
+    await sleep(config.ttftMs, undefined, { signal });
+
+    if (tools.length > 0 && !answersTools) {
+      const { name } = pickTool(tools, messages);
+      const args = JSON.stringify(getTool(name)?.example ?? {});
+      yield* streamToolCall(name, args, config, signal);
+      yield { type: 'stop', reason: 'tool_calls' };
+      yield { type: 'usage', usage: { promptTokens: countPromptTokens(messages), completionTokens: estimateTokens(args) } };
+      return;
+    }
+
+    for (let index = 0; index < chunks.length; index += 1) {
+      if (index > 0) {
+        await sleep(config.chunkDelayMs, undefined, { signal });
+      }
+
+      if (config.failAtChunk !== null && index === config.failAtChunk) {
+        throw injectedFailure(index);
+      }
+
+      completion += chunks[index];
+      yield { type: 'delta', text: chunks[index] };
+    }
+
+    yield { type: 'stop', reason: stopReason };
+    yield {
+      type: 'usage',
+      usage: { promptTokens: countPromptTokens(messages), completionTokens: estimateTokens(completion) },
+    };
+  },
+
+  async complete({ model, messages, signal, options, params }) {
+    const { config, text, stopReason } = generate(model, messages, options, params);
+    const chunks = toChunks(text, config.chunkSize);
+
+    if (config.failAtChunk !== null && config.failAtChunk < chunks.length) {
+      throw injectedFailure(config.failAtChunk);
+    }
+
+    // Take as long as the streamed version would, so Standard vs SSE timings stay comparable.
+    await sleep(config.ttftMs + Math.max(0, chunks.length - 1) * config.chunkDelayMs, undefined, { signal });
+
+    return {
+      text,
+      stopReason,
+      usage: { promptTokens: countPromptTokens(messages), completionTokens: estimateTokens(text) },
+    };
+  },
+};
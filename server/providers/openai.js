@@ -0,0 +1,147 @@
+import OpenAI from 'openai';
+import { jsonInstructions, withSystemInstructions } from './jsonMode.js';
+
+// Built lazily so the server can start without OPENAI_API_KEY when another provider is used.
+let client = null;
+const getClient = () => {
+  if (!client) {
+    client = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+  }
+  return client;
+};
+
+const STOP_REASONS = {
+  stop: 'stop',
+  length: 'length',
+  tool_calls: 'tool_calls',
+  function_call: 'tool_calls',
+  content_filter: 'content_filter',
+};
+
+const toResponseFormat = (responseFormat) =>
+  responseFormat.type === 'json_schema'
+    ? {
+        type: 'json_schema',
+        json_schema: { name: responseFormat.name, schema: responseFormat.schema, strict: responseFormat.strict },
+      }
+    : { type: responseFormat.type };
+
+// Generation params arrive normalized (see lib/chatRequest.js); only set ones are sent.
+const toOpenAIParams = ({ temperature, topP, maxTokens, stop, seed, responseFormat } = {}) => ({
+  ...(temperature !== undefined ? { temperature } : {}),
+  ...(topP !== undefined ? { top_p: topP } : {}),
+  ...(maxTokens !== undefined ? { max_completion_tokens: maxTokens } : {}),
+  ...(stop !== undefined ? { stop } : {}),
+  ...(seed !== undefined ? { seed } : {}),
+  ...(responseFormat !== undefined ? { response_format: toResponseFormat(responseFormat) } : {}),
+});
+
+// json_object mode is refused unless the messages mention JSON, so say it when they don't.
+const withJsonHint = (messages, { responseFormat } = {}) =>
+  responseFormat?.type === 'json_object' && !messages.some((message) => /json/i.test(message.content ?? ''))
+    ? withSystemInstructions(messages, jsonInstructions(responseFormat))
+    : messages;
+
+// Tool rounds add assistant messages carrying `toolCalls` and `tool` results to the history.
+const toOpenAIMessages = (messages) =>
+  messages.map((message) => {
+    if (message.role === 'tool') {
+      return { role: 'tool', tool_call_id: message.toolCallId, content: message.content };
+    }
+    if (message.toolCalls) {
+      return {
+        role: 'assistant',
+        content: message.content || null,
+        tool_calls: message.toolCalls.map((call) => ({
+          id: call.id,
+          type: 'function',
+          function: { name: call.name, arguments: call.arguments },
+        })),
+      };
+    }
+    return { role: message.role, content: message.content };
+  });
+
+const toOpenAITools = (tools = []) =>
+  tools.length > 0
+    ? { tools: tools.map(({ name, description, parameters }) => ({ type: 'function', function: { name, description, parameters } })) }
+    : {};
+
+const toUsage = (usage) => ({
+  promptTokens: usage.prompt_tokens ?? 0,
+  completionTokens: usage.completion_tokens ?? 0,
+});
+
+export const openaiProvider = {
+  name: 'openai',
+  defaultModel: 'gpt-4o-mini',
+  models: ['gpt-4o-mini', 'gpt-4o', 'gpt-4.1-mini', 'gpt-4.1', 'gpt-5-nano', 'gpt-5-mini', 'gpt-5'],
+  params: {
+    temperature: { max: 2 },
+    topP: {},
+    maxTokens: {},
+    stop: { maxSequences: 4 },
+    seed: {},
+    responseFormat: {},
+  },
+  // Chat completions take `n` and stream every choice, each tagged with its index.
+  candidates: true,
+
+  async *stream({ model, messages, signal, params, tools, n = 1 }) {
+    const stream = await getClient().chat.completions.create(
+      {
+        model,
+        messages: toOpenAIMessages(withJsonHint(messages, params)),
+        ...toOpenAITools(tools),
+        ...toOpenAIParams(params),
+        ...(n > 1 ? { n } : {}),
+        stream: true,
+        stream_options: { include_usage: true },
+      },
+      { signal }
+    );
+
+    for await (const chunk of stream) {
+      for (const choice of chunk.choices) {
+        const tag = n > 1 ? { candidate: choice.index } : {};
+        const text = choice.delta?.content;
+        if (text) {
+          yield { type: 'delta', text, ...tag };
+        }
+
+        // A call's first chunk carries its id and name; later ones only argument text.
+        for (const call of choice.delta?.tool_calls ?? []) {
+          if (call.id) {
+            yield { type: 'tool_call', index: call.index, id: call.id, name: call.function?.name ?? '' };
+          }
+          if (call.function?.arguments) {
+            yield { type: 'tool_call_delta', index: call.index, text: call.function.arguments };
+          }
+        }
+
+        if (choice.finish_reason) {
+          yield { type: 'stop', reason: STOP_REASONS[choice.finish_reason] ?? choice.finish_reason, ...tag };
+        }
+      }
+
+      // With include_usage the last chunk has no choices and carries the totals.
+      if (chunk.usage) {
+        yield { type: 'usage', usage: toUsage(chunk.usage) };
+      }
+    }
+  },
+
+  async complete({ model, messages, signal, params }) {
+    const completion = await getClient().chat.completions.create(
+      { model, messages: withJsonHint(messages, params), ...toOpenAIParams(params) },
+      { signal }
+    );
+    const choice = completion.choices?.[0];
+
+    return {
+      text: choice?.message?.content || '',
+      stopReason: STOP_REASONS[choice?.finish_reason] ?? choice?.finish_reason ?? null,
+      usage: completion.usage ? toUsage(completion.usage) : null,
+    };
+  },
+};
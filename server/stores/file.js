@@ -0,0 +1,35 @@
+import { mkdirSync, readFileSync } from 'node:fs';
+import { rename, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import { createMemoryStore } from './memory.js';
+
+const readRecords = (path) => {
+  try {
+    return JSON.parse(readFileSync(path, 'utf8')).conversations ?? [];
+  } catch (error) {
+    if (error.code === 'ENOENT') {
+      return [];
+    }
+    // Starting empty would overwrite the file on the first write.
+    throw new Error(`Could not read conversations from ${path}: ${error.message}`);
+  }
+};
+
+// The memory store, mirrored to one JSON file. Every change rewrites the file through
+// a temp file and a rename, so a crash mid-write leaves the previous version intact.
+// Writes are queued so they land in order.
+export const createFileStore = (path) => {
+  mkdirSync(dirname(path), { recursive: true });
+
+  let pending = Promise.resolve();
+  const save = (records) => {
+    const write = async () => {
+      await writeFile(`${path}.tmp`, JSON.stringify({ conversations: records }));
+      await rename(`${path}.tmp`, path);
+    };
+    pending = pending.then(write, write);
+    return pending;
+  };
+
+  return createMemoryStore({ name: 'file', records: readRecords(path), onChange: save });
+};
@@ -0,0 +1,38 @@
+import { fileURLToPath } from 'node:url';
+import { createFileStore } from './file.js';
+import { createMemoryStore } from './memory.js';
+
+/*
+ * Conversation stores persist chat threads for the /api/conversations routes and the
+ * streaming endpoints' `conversationId`. A store is an object with async methods,
+ * each scoped to an `owner` (the API key's name, or null while auth is disabled):
+ *
+ *   name                                  - reported at startup
+ *   list(owner)                           - summaries, most recently updated first:
+ *                                           { id, title, createdAt, updatedAt, messageCount }
+ *   get(owner, id)                        - { ...summary fields, messages } or null
+ *   create(owner, { title? })             - the new conversation
+ *   update(owner, id, { title })          - the updated summary, or null
+ *   remove(owner, id)                     - whether it existed
+ *   appendMessage(owner, id, message)     - the stored message (with `id` and
+ *                                           `createdAt` added), or null
+ *
+ * Timestamps are ISO strings. CONVERSATION_STORE picks the implementation: `file`
+ * (default, a JSON file at CONVERSATIONS_FILE) or `memory` (lost on restart).
+ * Register new stores below.
+ */
+const DEFAULT_FILE = fileURLToPath(new URL('../data/conversations.json', import.meta.url));
+
+const stores = {
+  file: () => createFileStore(process.env.CONVERSATIONS_FILE || DEFAULT_FILE),
+  memory: () => createMemoryStore(),
+};
+
+const createStore = (name = process.env.CONVERSATION_STORE || 'file') => {
+  if (!stores[name]) {
+    throw new Error(`Unknown CONVERSATION_STORE "${name}"; expected one of: ${Object.keys(stores).join(', ')}`);
+  }
+  return stores[name]();
+};
+
+export const conversationStore = createStore();
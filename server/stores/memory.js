@@ -0,0 +1,79 @@
+import { randomUUID } from 'node:crypto';
+
+const toSummary = ({ messages, owner, ...conversation }) => ({ ...conversation, messageCount: messages.length });
+
+const toConversation = ({ owner, ...conversation }) => ({ ...conversation, messages: [...conversation.messages] });
+
+// Keeps conversations in a Map. `records` seeds it (the file store passes what it
+// loaded) and `onChange(records)` runs after every write so a caller can persist them.
+export const createMemoryStore = ({ name = 'memory', records = [], onChange } = {}) => {
+  const conversations = new Map(records.map((record) => [record.id, record]));
+
+  const changed = () => onChange?.([...conversations.values()]);
+
+  // Conversations belong to the API key that created them; with auth disabled the
+  // owner is null and everything is shared.
+  const find = (owner, id) => {
+    const conversation = conversations.get(id);
+    return conversation && conversation.owner === owner ? conversation : null;
+  };
+
+  return {
+    name,
+
+    async list(owner) {
+      return [...conversations.values()]
+        .filter((conversation) => conversation.owner === owner)
+        .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+        .map(toSummary);
+    },
+
+    async get(owner, id) {
+      const conversation = find(owner, id);
+      return conversation ? toConversation(conversation) : null;
+    },
+
+    async create(owner, { title = '' } = {}) {
+      const now = new Date().toISOString();
+      const conversation = { id: randomUUID(), owner, title, createdAt: now, updatedAt: now, messages: [] };
+      conversations.set(conversation.id, conversation);
+      await changed();
+      return toConversation(conversation);
+    },
+
+    async update(owner, id, { title }) {
+      const conversation = find(owner, id);
+      if (!conversation) {
+        return null;
+      }
+
+      conversation.title = title;
+      conversation.updatedAt = new Date().toISOString();
+      await changed();
+      return toSummary(conversation);
+    },
+
+    async remove(owner, id) {
+      if (!find(owner, id)) {
+        return false;
+      }
+
+      conversations.delete(id);
+      await changed();
+      return true;
+    },
+
+    async appendMessage(owner, id, message) {
+      const conversation = find(owner, id);
+      if (!conversation) {
+        return null;
+      }
+
+      const stored = { id: randomUUID(), createdAt: new Date().toISOString(), ...message };
+      conversation.messages.push(stored);
+      conversation.updatedAt = stored.createdAt;
+      await changed();
+      return stored;
+    },
+  };
+};
@@ -0,0 +1,192 @@
+import { ToolError } from './errors.js';
+
+const CONSTANTS = { pi: Math.PI, e: Math.E };
+
+const FUNCTIONS = {
+  sqrt: Math.sqrt,
+  abs: Math.abs,
+  round: Math.round,
+  floor: Math.floor,
+  ceil: Math.ceil,
+  sin: Math.sin,
+  cos: Math.cos,
+  tan: Math.tan,
+  ln: Math.log,
+  log10: Math.log10,
+  min: Math.min,
+  max: Math.max,
+};
+
+const TOKEN = /\s*(?:(\d+(?:\.\d*)?(?:e[+-]?\d+)?|\.\d+(?:e[+-]?\d+)?)|([a-z_]\w*)|(\*\*|[-+*/%^(),]))/iy;
+
+const tokenize = (expression) => {
+  const tokens = [];
+  TOKEN.lastIndex = 0;
+
+  while (TOKEN.lastIndex < expression.length) {
+    if (!expression.slice(TOKEN.lastIndex).trim()) {
+      break;
+    }
+
+    const at = TOKEN.lastIndex;
+    const match = TOKEN.exec(expression);
+    if (!match) {
+      throw new ToolError(`Unexpected character "${expression.slice(at).trim()[0]}" at position ${at}`);
+    }
+
+    const [, number, name, operator] = match;
+    if (number !== undefined) {
+      tokens.push({ type: 'number', value: Number(number) });
+    } else if (name !== undefined) {
+      tokens.push({ type: 'name', value: name.toLowerCase() });
+    } else {
+      tokens.push({ type: 'op', value: operator === '**' ? '^' : operator });
+    }
+  }
+
+  return tokens;
+};
+
+/*
+ * Recursive descent over the usual precedence, lowest first:
+ *
+ *   sum     = product (('+' | '-') product)*
+ *   product = unary (('*' | '/' | '%') unary)*
+ *   unary   = ('+' | '-') unary | power
+ *   power   = atom ('^' unary)?             right-associative, binds tighter than unary minus on its left
+ *   atom    = number | constant | name '(' sum (',' sum)* ')' | '(' sum ')'
+ *
+ * Evaluates as it parses; nothing is ever passed to eval().
+ */
+const evaluate = (expression) => {
+  const tokens = tokenize(expression);
+  let position = 0;
+
+  const peek = () => tokens[position];
+  const take = (value) => {
+    const token = tokens[position];
+    if (token?.type === 'op' && token.value === value) {
+      position += 1;
+      return true;
+    }
+    return false;
+  };
+  const expect = (value) => {
+    if (!take(value)) {
+      throw new ToolError(`Expected "${value}"`);
+    }
+  };
+
+  const atom = () => {
+    const token = tokens[position++];
+    if (!token) {
+      throw new ToolError('Unexpected end of expression');
+    }
+
+    if (token.type === 'number') {
+      return token.value;
+    }
+
+    if (token.type === 'name') {
+      if (take('(')) {
+        const fn = FUNCTIONS[token.value];
+        if (!fn) {
+          throw new ToolError(`Unknown function "${token.value}"`);
+        }
+        const args = [sum()];
+        while (take(',')) {
+          args.push(sum());
+        }
+        expect(')');
+        return fn(...args);
+      }
+
+      if (token.value in CONSTANTS) {
+        return CONSTANTS[token.value];
+      }
+      throw new ToolError(`Unknown name "${token.value}"`);
+    }
+
+    if (token.value === '(') {
+      const value = sum();
+      expect(')');
+      return value;
+    }
+
+    throw new ToolError(`Unexpected "${token.value}"`);
+  };
+
+  const power = () => {
+    const base = atom();
+    return take('^') ? base ** unary() : base;
+  };
+
+  const unary = () => {
+    if (take('-')) {
+      return -unary();
+    }
+    if (take('+')) {
+      return unary();
+    }
+    return power();
+  };
+
+  const product = () => {
+    let value = unary();
+    for (;;) {
+      if (take('*')) {
+        value *= unary();
+      } else if (take('/')) {
+        value /= unary();
+      } else if (take('%')) {
+        value %= unary();
+      } else {
+        return value;
+      }
+    }
+  };
+
+  const sum = () => {
+    let value = product();
+    for (;;) {
+      if (take('+')) {
+        value += product();
+      } else if (take('-')) {
+        value -= product();
+      } else {
+        return value;
+      }
+    }
+  };
+
+  const value = sum();
+  if (peek()) {
+    throw new ToolError(`Unexpected "${peek().value}" after the expression`);
+  }
+  return value;
+};
+
+export const calculatorTool = {
+  name: 'calculator',
+  description:
+    'Evaluates an arithmetic expression exactly as written. Supports + - * / % ^, parentheses, ' +
+    'the constants pi and e, and sqrt, abs, round, floor, ceil, sin, cos, tan, ln, log10, min and max.',
+  parameters: {
+    type: 'object',
+    properties: {
+      expression: { type: 'string', description: 'For example "(2 + 3) * sqrt(16)"', maxLength: 200 },
+    },
+    required: ['expression'],
+    additionalProperties: false,
+  },
+  // What the mock provider calls the tool with.
+  example: { expression: '(2 + 3) * sqrt(16)' },
+
+  async run({ expression }) {
+    const value = evaluate(expression);
+    if (!Number.isFinite(value)) {
+      throw new ToolError(`The expression does not evaluate to a finite number (got ${value})`);
+    }
+    return { expression, value };
+  },
+};
@@ -0,0 +1,26 @@
+import { ToolError } from './errors.js';
+
+export const clockTool = {
+  name: 'current_time',
+  description: 'Returns the current date and time, in UTC and optionally in an IANA time zone.',
+  parameters: {
+    type: 'object',
+    properties: {
+      timeZone: { type: 'string', description: 'IANA time zone such as "Europe/Paris"; defaults to UTC', maxLength: 64 },
+    },
+    additionalProperties: false,
+  },
+  example: { timeZone: 'Europe/Paris' },
+
+  async run({ timeZone = 'UTC' }) {
+    const now = new Date();
+    let local;
+    try {
+      local = new Intl.DateTimeFormat('en-US', { timeZone, dateStyle: 'full', timeStyle: 'long' }).format(now);
+    } catch {
+      throw new ToolError(`Unknown time zone "${timeZone}"`);
+    }
+
+    return { iso: now.toISOString(), timeZone, local };
+  },
+};
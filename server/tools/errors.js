@@ -0,0 +1,6 @@
+// Thrown by tool handlers for failures the model should hear about (bad input, no such
+// file). Its message becomes the tool result; any other error is logged and reported
+// to the model only as a generic failure, so server internals stay private.
+export class ToolError extends Error {
+  name = 'ToolError';
+}
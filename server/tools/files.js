@@ -0,0 +1,57 @@
+import { readdir, readFile } from 'node:fs/promises';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { ToolError } from './errors.js';
+
+// The only directory the tool can read; defaults to the sample documents next to this file.
+const FILES_DIR = path.resolve(process.env.TOOL_FILES_DIR || fileURLToPath(new URL('./files', import.meta.url)));
+
+// Long files are cut so one lookup cannot fill the model's context.
+const MAX_FILE_CHARS = 8000;
+
+const listFiles = async () => {
+  const entries = await readdir(FILES_DIR, { withFileTypes: true });
+  return entries
+    .filter((entry) => entry.isFile() && !entry.name.startsWith('.'))
+    .map((entry) => entry.name)
+    .sort();
+};
+
+export const fileLookupTool = {
+  name: 'lookup_file',
+  description:
+    'Reads a text file from the server\'s reference documents. Call it without a path to list the available files.',
+  parameters: {
+    type: 'object',
+    properties: {
+      path: { type: 'string', description: 'File name as listed, e.g. "limits.md"', maxLength: 200 },
+    },
+    additionalProperties: false,
+  },
+  example: { path: 'limits.md' },
+
+  async run({ path: requested }) {
+    if (!requested) {
+      return { files: await listFiles() };
+    }
+
+    // Resolved against the directory and checked, so `../` cannot escape it.
+    const resolved = path.resolve(FILES_DIR, requested);
+    if (path.dirname(resolved) !== FILES_DIR) {
+      throw new ToolError(`"${requested}" is not one of the files; call lookup_file without a path to list them`);
+    }
+
+    let content;
+    try {
+      content = await readFile(resolved, 'utf8');
+    } catch (error) {
+      if (error.code === 'ENOENT' || error.code === 'EISDIR') {
+        throw new ToolError(`No file named "${requested}"; available: ${(await listFiles()).join(', ')}`);
+      }
+      throw error;
+    }
+
+    const truncated = content.length > MAX_FILE_CHARS;
+    return { path: requested, content: truncated ? content.slice(0, MAX_FILE_CHARS) : content, truncated };
+  },
+};
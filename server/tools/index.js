@@ -0,0 +1,144 @@
+import { readInt } from '../lib/env.js';
+import { logger } from '../lib/logger.js';
+import { metrics } from '../lib/metrics.js';
+import { calculatorTool } from './calculator.js';
+import { clockTool } from './clock.js';
+import { ToolError } from './errors.js';
+import { fileLookupTool } from './files.js';
+
+/*
+ * Tools the model may call while streaming. Requests opt in by name (`tools` in
+ * lib/chatRequest.js); their definitions go to the provider, and the generation loop in
+ * lib/chatGeneration.js runs each call here and feeds the result back to the model.
+ *
+ * A tool is an object with:
+ *   name         - what the model calls it; [a-z_] so every provider accepts it
+ *   description  - tells the model when to use it
+ *   parameters   - JSON schema of the arguments object (the subset validateArguments checks)
+ *   example      - arguments the mock provider calls it with
+ *   run(args, { signal }) - resolves to a JSON-serializable result; throws ToolError
+ *                  for failures the model should be told about
+ *
+ * Register new tools below.
+ */
+export const TOOL_LIMITS = {
+  // Model turns that may end in tool calls before the generation is stopped.
+  maxRounds: readInt('MAX_TOOL_ROUNDS', 5, { min: 1 }),
+  // Longest a single call may take.
+  timeoutMs: readInt('TOOL_TIMEOUT_MS', 10000, { min: 1 }),
+};
+
+const tools = new Map([calculatorTool, clockTool, fileLookupTool].map((tool) => [tool.name, tool]));
+
+export const toolNames = [...tools.keys()];
+
+export const getTool = (name) => tools.get(name) ?? null;
+
+// What providers and GET /api/models see of a tool.
+export const describeTool = ({ name, description, parameters }) => ({ name, description, parameters });
+
+const TYPE_CHECKS = {
+  object: (value) => typeof value === 'object' && value !== null && !Array.isArray(value),
+  string: (value) => typeof value === 'string',
+  number: (value) => typeof value === 'number' && Number.isFinite(value),
+  integer: (value) => Number.isInteger(value),
+  boolean: (value) => typeof value === 'boolean',
+};
+
+// Checks `value` against the schema keywords the tools use: type, properties, required,
+// additionalProperties: false, enum and maxLength. Returns a problem such as
+// `expression must be a string`, or null when the value fits.
+export const validateArguments = (schema, value, field = 'arguments') => {
+  if (schema.type && !TYPE_CHECKS[schema.type](value)) {
+    return `${field} must be ${schema.type === 'object' || schema.type === 'integer' ? 'an' : 'a'} ${schema.type}`;
+  }
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    return `${field} must be one of ${schema.enum.map((option) => JSON.stringify(option)).join(', ')}`;
+  }
+
+  if (schema.maxLength !== undefined && typeof value === 'string' && value.length > schema.maxLength) {
+    return `${field} must be at most ${schema.maxLength} characters`;
+  }
+
+  if (schema.type === 'object') {
+    const properties = schema.properties ?? {};
+    for (const name of schema.required ?? []) {
+      if (value[name] === undefined) {
+        return `${name} is required`;
+      }
+    }
+
+    for (const [name, property] of Object.entries(value)) {
+      if (!properties[name]) {
+        if (schema.additionalProperties === false) {
+          return `${name} is not a recognized argument`;
+        }
+        continue;
+      }
+
+      const problem = validateArguments(properties[name], property, name);
+      if (problem) {
+        return problem;
+      }
+    }
+  }
+
+  return null;
+};
+
+const withTimeout = (promise, ms) =>
+  new Promise((resolve, reject) => {
+    const timer = setTimeout(() => reject(new ToolError(`The tool did not finish within ${ms} ms`)), ms);
+    promise.then(resolve, reject).finally(() => clearTimeout(timer));
+  });
+
+/*
+ * Runs one call the model made, `{ id, name, arguments }` with arguments as the JSON
+ * text the model streamed. Never throws: resolves to `{ result }`, or `{ error }` with a
+ * message to hand back to the model, which can then correct itself.
+ * `context` only labels logs.
+ */
+export const runToolCall = async (call, { signal, context }) => {
+  const tool = getTool(call.name);
+  if (!tool) {
+    metrics.toolCalls.inc({ tool: 'unknown', outcome: 'rejected' });
+    return { error: `There is no tool named "${call.name}"` };
+  }
+
+  let args;
+  try {
+    args = call.arguments.trim() ? JSON.parse(call.arguments) : {};
+  } catch {
+    metrics.toolCalls.inc({ tool: tool.name, outcome: 'rejected' });
+    return { error: 'The arguments are not valid JSON' };
+  }
+
+  const problem = validateArguments(tool.parameters, args);
+  if (problem) {
+    metrics.toolCalls.inc({ tool: tool.name, outcome: 'rejected' });
+    return { error: `Invalid arguments: ${problem}` };
+  }
+
+  const startedAt = performance.now();
+  try {
+    const result = await withTimeout(tool.run(args, { signal }), TOOL_LIMITS.timeoutMs);
+    metrics.toolCalls.inc({ tool: tool.name, outcome: 'completed' });
+    logger.info('tool_call_finished', {
+      ...context,
+      tool: call.name,
+      durationMs: Math.round(performance.now() - startedAt),
+    });
+    return { result };
+  } catch (error) {
+    if (error instanceof ToolError) {
+      metrics.toolCalls.inc({ tool: tool.name, outcome: 'failed' });
+      logger.info('tool_call_failed', { ...context, tool: call.name, message: error.message });
+      return { error: error.message };
+    }
+
+    metrics.toolCalls.inc({ tool: tool.name, outcome: 'error' });
+    logger.error('tool_call_crashed', { ...context, tool: call.name, error });
+    return { error: 'The tool failed unexpectedly' };
+  }
+};
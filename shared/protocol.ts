@@ -0,0 +1,300 @@
+/*
+ * Streaming wire protocol, version 1.
+ *
+ * Shared by the Express server (server/lib/protocol.js builds these frames) and the
+ * React client (client/src/lib/protocol.ts parses them). The SSE endpoints,
+ * `GET /api/events`, `POST /api/stream` and `GET /api/generations/:id/events`, speak it.
+ *
+ * Every frame is a named SSE event with a JSON `data` payload and an
+ * `id: <generationId>:<seq>` used for Last-Event-ID resume:
+ *
+ *   event: meta             first frame of a generation
+ *   event: delta            a piece of generated text; append in order (per `candidate`
+ *                           when the request asked for n > 1 candidates)
+ *   event: tool_call        the model started calling a tool (requests with `tools`)
+ *   event: tool_call_delta  more of that call's JSON arguments; append in order
+ *   event: tool_result      the server ran the call; the model continues with the result,
+ *                           so more deltas (and calls) may follow
+ *   event: candidate_done   one candidate finished (n > 1 only); the others may go on
+ *   event: usage            token counts and estimated cost, sent once near the end when
+ *                           the provider reports them
+ *   event: done             the generation finished; `finishReason` says why. Always last
+ *                           on success.
+ *   event: error            the generation failed; no `done` follows. `retryable` tells the
+ *                           client whether sending the same request again may succeed.
+ *   event: snapshot         only for viewers (`GET /api/generations/:id/events`) joining
+ *                           after the server stopped keeping the first frames: stands in
+ *                           for everything up to its id, meta included; replace, not append
+ *
+ * Requests refused before a generation starts (auth, model allowlist, quotas, rate
+ * limits) get a JSON error on the POST endpoints: `{ error: <StreamErrorCode>,
+ * message, retryAfterMs? }` with status 401/403/429 and, when retrying can help,
+ * Retry-After. The GET endpoints cannot surface those to EventSource, so they answer
+ * with a stream holding a single error frame, without an id, instead.
+ *
+ * Comment lines (`: ...`) and `retry:` fields may appear anywhere and carry no payload.
+ * While a connection is open the server writes a heartbeat every `meta.heartbeatMs`
+ * (0 = disabled): a `: heartbeat` comment on `POST /api/stream`, and an
+ * `event: heartbeat` frame without an id on the GET endpoints, because native
+ * EventSource never exposes comments. Heartbeats are per connection and are not replayed.
+ * Clients must ignore unknown event names and unknown payload fields, so fields and
+ * events can be added without a version bump; removing or changing one bumps
+ * PROTOCOL_VERSION.
+ */
+
+export const PROTOCOL_VERSION = 1;
+
+export type FinishReason = 'stop' | 'length' | 'tool_calls' | 'content_filter' | 'cancelled';
+
+export type StreamErrorCode =
+  // The provider call failed (network, 5xx, rate limit on their side).
+  | 'upstream_error'
+  // The request was rejected by the provider (bad model, context too long).
+  | 'upstream_rejected'
+  // The provider produced nothing for longer than the upstream idle timeout.
+  | 'upstream_timeout'
+  // The generation ran past the maximum stream duration.
+  | 'stream_timeout'
+  // The client is over its request-rate or concurrent-stream limit; see `retryAfterMs`.
+  | 'rate_limited'
+  // The request failed validation; `fields` says which fields and why.
+  | 'invalid_request'
+  // Missing, invalid or expired API key or stream ticket.
+  | 'unauthorized'
+  // The API key may not use the requested model.
+  | 'model_not_allowed'
+  // The API key used up its request or token quota; see `retryAfterMs`.
+  | 'quota_exceeded'
+  // The client read the stream too slowly and was disconnected; the generation goes on,
+  // so resuming with Last-Event-ID may still work.
+  | 'slow_consumer'
+  // The generation to watch is unknown, or finished too long ago to be kept.
+  | 'generation_not_found'
+  // Something broke on our side.
+  | 'internal_error';
+
+export type MetaPayload = {
+  v: typeof PROTOCOL_VERSION;
+  generationId: string;
+  // Id of the HTTP request that started the generation, also sent as X-Request-Id;
+  // quote it when reporting a problem so it can be found in the server logs.
+  requestId: string;
+  provider: string;
+  model: string;
+  // Expected interval between heartbeats on this stream; 0 when they are disabled.
+  heartbeatMs: number;
+  // How many candidate replies are being written; only sent when more than one.
+  candidates?: number;
+};
+
+export type DeltaPayload = {
+  text: string;
+  // Which candidate the text belongs to (0-based); only sent when there are several.
+  candidate?: number;
+};
+
+export type CandidateDonePayload = {
+  candidate: number;
+  finishReason: FinishReason;
+};
+
+export type ToolCallPayload = {
+  // Unique within the generation; tool_call_delta and tool_result refer to it.
+  id: string;
+  name: string;
+};
+
+export type ToolCallDeltaPayload = {
+  id: string;
+  // A piece of the arguments' JSON text; only the concatenation is valid JSON.
+  argumentsDelta: string;
+};
+
+// Exactly one of `result` (whatever the tool returned) and `error` (what went wrong,
+// as the model was told) is set.
+export type ToolResultPayload = {
+  id: string;
+  name: string;
+  result?: unknown;
+  error?: string;
+};
+
+export type UsagePayload = {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  // Estimated from the server's per-model price table; null for unpriced models.
+  costUsd: number | null;
+};
+
+// With several candidates, `finishReason` is the first candidate's; usage covers them all.
+export type DonePayload = {
+  finishReason: FinishReason;
+};
+
+export type ErrorPayload = {
+  code: StreamErrorCode;
+  message: string;
+  retryable: boolean;
+  // Set with `rate_limited` and `quota_exceeded`: how long to wait before trying again.
+  retryAfterMs?: number;
+  // Set with `invalid_request`: field path (e.g. `messages[1].role`) -> problem.
+  fields?: Record<string, string>;
+};
+
+// The stream so far, for a viewer who joined late. Tool calls are not included.
+export type SnapshotPayload = {
+  meta: MetaPayload;
+  // The first candidate's text.
+  text: string;
+  // Every candidate's text, by index; only sent when there are several.
+  candidates?: string[];
+};
+
+export type HeartbeatPayload = {
+  ts: number;
+};
+
+export type StreamEventMap = {
+  meta: MetaPayload;
+  delta: DeltaPayload;
+  tool_call: ToolCallPayload;
+  tool_call_delta: ToolCallDeltaPayload;
+  tool_result: ToolResultPayload;
+  candidate_done: CandidateDonePayload;
+  usage: UsagePayload;
+  done: DonePayload;
+  error: ErrorPayload;
+  snapshot: SnapshotPayload;
+  heartbeat: HeartbeatPayload;
+};
+
+export type StreamEventName = keyof StreamEventMap;
+
+// Discriminated union of every frame, e.g. { event: 'delta', data: { text } }.
+export type StreamEvent = {
+  [Name in StreamEventName]: { event: Name; data: StreamEventMap[Name]; id: string };
+}[StreamEventName];
+
+/*
+ * WebSocket transport, `GET /api/ws`. One socket carries many generations; the client
+ * tags each `start` and `steer` with its own `ref`, and every frame for that generation
+ * comes back with the same `ref`. Frames are the events above with `data` already
+ * parsed. Refusals (validation, limits, unknown ids) are `error` frames without an id;
+ * `heartbeat` frames have no ref. Closing the socket cancels its generations, except
+ * those somebody is watching through `GET /api/generations/:id/events`.
+ */
+export type WsClientMessage =
+  // `request` is the same body POST /api/stream takes.
+  | { type: 'start'; ref: string; request: Record<string, unknown> }
+  | { type: 'cancel'; generationId: string }
+  // Stops `generationId` if still running and continues its conversation with its
+  // reply so far plus `content` as the next user turn, as a new generation.
+  | { type: 'steer'; ref: string; generationId: string; content: string };
+
+export type WsServerMessage = {
+  [Name in StreamEventName]: { ref: string | null; event: Name; data: StreamEventMap[Name]; id?: string };
+}[StreamEventName];
+
+// JSON body of the non-streaming `POST /api/chat`.
+export type ChatResponse = {
+  v: typeof PROTOCOL_VERSION;
+  requestId: string;
+  response: string;
+  finishReason: FinishReason;
+  usage: UsagePayload | null;
+};
+
+// Asks for JSON output, as in the OpenAI API. Providers with structured output enforce
+// the schema; the others are instructed to follow it, so clients should validate.
+export type ResponseFormat =
+  | { type: 'text' | 'json_object' }
+  | { type: 'json_schema'; json_schema: { name: string; schema: Record<string, unknown>; strict?: boolean } };
+
+// Optional sampling controls accepted by every chat endpoint, next to `provider`,
+// `model` and the messages. Which ones a provider supports, and their bounds, are
+// listed by GET /api/models.
+export type GenerationParams = {
+  temperature?: number;
+  top_p?: number;
+  max_tokens?: number;
+  stop?: string | string[];
+  seed?: number;
+  // JSON-encoded on the query string of GET /api/events.
+  response_format?: ResponseFormat;
+};
+
+export type ParamBounds = {
+  min?: number;
+  max?: number;
+  maxSequences?: number;
+};
+
+export type ModelInfo = {
+  id: string;
+  // USD per million tokens; null when the server has no price for the model.
+  price: { input: number; output: number } | null;
+};
+
+export type ProviderInfo = {
+  name: string;
+  defaultModel: string;
+  models: ModelInfo[];
+  params: Partial<Record<keyof GenerationParams, ParamBounds>>;
+};
+
+// A tool requests may enable by name with `tools: [name, ...]` (streaming endpoints only).
+export type ToolInfo = {
+  name: string;
+  description: string;
+  // JSON schema of the call's arguments.
+  parameters: Record<string, unknown>;
+};
+
+// GET /api/models
+export type ModelsResponse = {
+  defaultProvider: string;
+  providers: ProviderInfo[];
+  tools: ToolInfo[];
+  // Largest `n` the streaming endpoints accept: candidate replies written side by side,
+  // each streamed with its index. Not together with `tools`.
+  maxCandidates: number;
+};
+
+/*
+ * Saved conversations: `/api/conversations` (list, create, get, rename, delete) and
+ * `/api/conversations/:id/messages`. Passing `conversationId` to a chat endpoint saves
+ * the request's final user message and the assistant reply into that conversation.
+ * Timestamps are ISO 8601 strings.
+ */
+export type ConversationSummary = {
+  id: string;
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+  messageCount: number;
+};
+
+// Assistant replies also record how they ended: `cancelled` and `error` replies hold
+// whatever text was generated before the stream stopped.
+export type ConversationMessage = {
+  id: string;
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+  createdAt: string;
+  status?: 'complete' | 'cancelled' | 'error';
+  finishReason?: FinishReason | null;
+  provider?: string;
+  model?: string;
+  usage?: UsagePayload | null;
+};
+
+// GET /api/conversations/:id
+export type Conversation = Omit<ConversationSummary, 'messageCount'> & {
+  messages: ConversationMessage[];
+};
+
+// GET /api/conversations
+export type ConversationListResponse = {
+  conversations: ConversationSummary[];
+};
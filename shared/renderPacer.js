@@ -0,0 +1,317 @@
+// Paces streamed text onto the screen. Text arrives in bursts of whatever size the
+// network delivers; the pacer reveals it once per animation frame in whole graphemes
+// or words (never half an emoji or surrogate pair), speeding up as its queue grows so
+// the text on screen stays at most about `targetLagMs` behind what has arrived.
+//
+// Plain JavaScript with JSDoc types, so html-client (no build step) loads this very
+// module while the React client imports it through client/src/lib/renderPacer.ts.
+
+/** @typedef {'instant' | 'word' | 'character' | 'typewriter'} PacingMode */
+
+/** @type {{ value: PacingMode; label: string }[]} */
+export const PACING_MODES = [
+  { value: 'word', label: 'Word by word' },
+  { value: 'character', label: 'Character by character' },
+  { value: 'typewriter', label: 'Typewriter' },
+  { value: 'instant', label: 'Instant' },
+];
+
+/**
+ * @typedef {object} RenderPacerOptions
+ * @property {PacingMode} mode
+ * @property {(parts: string[]) => void} onReveal Called at most once per animation frame
+ *   with the text revealed in it: `parts[i]` for lane i (e.g. candidate i), '' for lanes
+ *   with nothing new.
+ * @property {number} [targetLagMs] How far behind the arrived text the screen may fall
+ *   before the pacer speeds up.
+ */
+
+/**
+ * @typedef {object} RenderPacer
+ * @property {(text: string, lane?: number) => void} push
+ * @property {() => void} flush Reveals everything queued right away, e.g. when the stream
+ *   ends or is stopped.
+ * @property {() => void} reset Drops everything queued without revealing it; also what to
+ *   call on unmount.
+ * @property {(mode: PacingMode) => void} setMode
+ * @property {(onReveal: (parts: string[]) => void) => void} setOnReveal
+ * @property {(lane?: number) => number} queuedLength Characters of `lane` received but not
+ *   revealed yet.
+ */
+
+const PACING = {
+  // Units revealed per second while the queue is short: words in word mode, graphemes
+  // otherwise. Longer queues are drained faster, within `targetLagMs`.
+  baseRate: { word: 18, character: 90, typewriter: 40 },
+  // Typewriter mode pauses after these, unless it is behind.
+  typewriterPauseMs: { sentence: 260, newline: 180 },
+  targetLagMs: 500,
+  // A held-back tail is shown anyway once nothing else arrived for this long, e.g. the
+  // last word before a tool call runs.
+  tailHoldMs: 150,
+  // A frame after a long gap (a janky frame, or the first one after the tab was shown
+  // again) spends at most this much time, so the text does not jump.
+  maxFrameMs: 100,
+};
+
+// A segment of text and what revealing it costs against the frame's budget: word mode
+// only charges for words, so spaces and punctuation come along for free.
+/** @typedef {{ text: string; cost: number }} Unit */
+
+/**
+ * @typedef {object} Lane
+ * @property {Unit[]} units
+ * @property {string} tail Text received after the last complete segment: the next chunk
+ *   may still extend it (a combining mark, the rest of an emoji or a word), so it is
+ *   held back.
+ * @property {number} length Characters queued, units and tail together.
+ * @property {number} credit Reveal budget carried over between frames, in units.
+ * @property {number} pauseMs Typewriter pause left before the next unit.
+ * @property {number} tailHeldMs How long the tail has been all that is left.
+ */
+
+/** @returns {Lane} */
+const emptyLane = () => ({ units: [], tail: '', length: 0, credit: 0, pauseMs: 0, tailHeldMs: 0 });
+
+const SENTENCE_END = /[.!?…]\s*$/;
+
+/** @typedef {{ segment: string; isWordLike?: boolean }} Segment */
+
+// Intl.Segmenter where available; older browsers fall back to code points and a
+// whitespace split, which still never cut a surrogate pair.
+/**
+ * @param {'grapheme' | 'word'} granularity
+ * @returns {(text: string) => Segment[]}
+ */
+const createSegmenter = (granularity) => {
+  if (typeof Intl.Segmenter === 'function') {
+    const segmenter = new Intl.Segmenter(undefined, { granularity });
+    return (text) => Array.from(segmenter.segment(text));
+  }
+  return granularity === 'grapheme'
+    ? (text) => Array.from(text, (segment) => ({ segment }))
+    : (text) =>
+        text
+          .split(/(\s+)/)
+          .filter(Boolean)
+          .map((segment) => ({ segment, isWordLike: /\S/.test(segment) }));
+};
+
+/**
+ * @param {RenderPacerOptions} options
+ * @returns {RenderPacer}
+ */
+export const createRenderPacer = ({
+  mode: initialMode,
+  onReveal: initialOnReveal,
+  targetLagMs = PACING.targetLagMs,
+}) => {
+  let mode = initialMode;
+  let onReveal = initialOnReveal;
+  /** @type {Lane[]} */
+  let lanes = [];
+  /** @type {number | null} */
+  let frameId = null;
+  /** @type {number | null} */
+  let lastFrameAt = null;
+  let watchingVisibility = false;
+  const segmenters = { grapheme: createSegmenter('grapheme'), word: createSegmenter('word') };
+
+  // Moves every complete segment of `text` (appended to the held-back tail) into units.
+  /** @type {(lane: Lane, text: string, final: boolean) => void} */
+  const segment = (lane, text, final) => {
+    const segments = (mode === 'word' ? segmenters.word : segmenters.grapheme)(lane.tail + text);
+    const complete = final ? segments : segments.slice(0, -1);
+    lane.tail = final ? '' : (segments.at(-1)?.segment ?? '');
+    for (const { segment: unit, isWordLike } of complete) {
+      lane.units.push({ text: unit, cost: mode === 'word' && !isWordLike ? 0 : 1 });
+    }
+  };
+
+  /** @type {(lane: Lane, text: string) => void} */
+  const enqueue = (lane, text) => {
+    lane.length += text.length;
+    lane.tailHeldMs = 0;
+    if (mode === 'instant') {
+      // Still batched per frame, so a burst of deltas costs one render.
+      lane.units.push({ text, cost: 0 });
+    } else {
+      segment(lane, text, false);
+    }
+  };
+
+  /** @type {(lane: Lane) => string} */
+  const queuedText = (lane) => lane.units.map((unit) => unit.text).join('') + lane.tail;
+
+  /** @type {(lane: Lane) => string} */
+  const drain = (lane) => {
+    const text = lane.units.map((unit) => unit.text).join('');
+    lane.units = [];
+    lane.credit = 0;
+    lane.length -= text.length;
+    return text;
+  };
+
+  // Reveals what `elapsedMs` of this lane's pace allows.
+  /** @type {(lane: Lane, elapsedMs: number) => string} */
+  const take = (lane, elapsedMs) => {
+    if (lane.units.length === 0 && lane.tail) {
+      lane.tailHeldMs += elapsedMs;
+      if (lane.tailHeldMs >= PACING.tailHoldMs) {
+        segment(lane, '', true);
+      }
+    }
+
+    // Instant mode, or only free units (spaces) left.
+    const queued = lane.units.reduce((sum, unit) => sum + unit.cost, 0);
+    if (queued === 0) {
+      return drain(lane);
+    }
+
+    const baseRate = PACING.baseRate[mode === 'instant' ? 'character' : mode];
+    const rate = Math.max(baseRate, (queued * 1000) / targetLagMs);
+    const behind = rate > baseRate;
+
+    if (mode === 'typewriter' && lane.pauseMs > 0 && !behind) {
+      lane.pauseMs = Math.max(0, lane.pauseMs - elapsedMs);
+      return '';
+    }
+
+    lane.credit += (rate * elapsedMs) / 1000;
+    let text = '';
+    let taken = 0;
+    while (taken < lane.units.length && (lane.units[taken].cost === 0 || lane.credit >= 1)) {
+      const unit = lane.units[taken];
+      taken += 1;
+      lane.credit -= unit.cost;
+      text += unit.text;
+
+      if (mode === 'typewriter' && !behind) {
+        const pause = unit.text.includes('\n')
+          ? PACING.typewriterPauseMs.newline
+          : SENTENCE_END.test(text)
+            ? PACING.typewriterPauseMs.sentence
+            : 0;
+        if (pause > 0) {
+          lane.pauseMs = pause;
+          break;
+        }
+      }
+    }
+
+    lane.units = lane.units.slice(taken);
+    lane.length -= text.length;
+    return text;
+  };
+
+  const isHidden = () => document.visibilityState === 'hidden';
+
+  const hasQueued = () => lanes.some((lane) => lane.units.length > 0 || lane.tail);
+
+  const stop = () => {
+    if (frameId !== null) {
+      cancelAnimationFrame(frameId);
+      frameId = null;
+    }
+    lastFrameAt = null;
+  };
+
+  /** @type {(now: number) => void} */
+  const tick = (now) => {
+    frameId = null;
+    const elapsedMs = Math.min(now - (lastFrameAt ?? now - 1000 / 60), PACING.maxFrameMs);
+    lastFrameAt = now;
+
+    const parts = lanes.map((lane) => take(lane, elapsedMs));
+    if (parts.some(Boolean)) {
+      onReveal(parts);
+    }
+    schedule();
+  };
+
+  const onVisibilityChange = () => {
+    if (isHidden()) {
+      stop();
+    } else {
+      schedule();
+    }
+  };
+
+  // Listens only while something is queued, so an idle pacer holds no listener.
+  /** @type {(watch: boolean) => void} */
+  const watchVisibility = (watch) => {
+    if (watch === watchingVisibility) {
+      return;
+    }
+    watchingVisibility = watch;
+    if (watch) {
+      document.addEventListener('visibilitychange', onVisibilityChange);
+    } else {
+      document.removeEventListener('visibilitychange', onVisibilityChange);
+    }
+  };
+
+  // The loop only runs while there is something to reveal and the tab is visible; a
+  // hidden tab keeps queueing and catches up, within `targetLagMs`, once shown.
+  const schedule = () => {
+    if (!hasQueued()) {
+      stop();
+      watchVisibility(false);
+      return;
+    }
+    watchVisibility(true);
+    if (frameId === null && !isHidden()) {
+      frameId = requestAnimationFrame(tick);
+    }
+  };
+
+  /** @type {(index: number) => Lane} */
+  const laneAt = (index) => {
+    while (lanes.length <= index) {
+      lanes.push(emptyLane());
+    }
+    return lanes[index];
+  };
+
+  const flush = () => {
+    const parts = lanes.map(queuedText);
+    lanes = lanes.map(() => emptyLane());
+    schedule();
+    if (parts.some(Boolean)) {
+      onReveal(parts);
+    }
+  };
+
+  return {
+    push: (text, lane = 0) => {
+      if (!text) {
+        return;
+      }
+      enqueue(laneAt(lane), text);
+      schedule();
+    },
+    flush,
+    reset: () => {
+      lanes = [];
+      schedule();
+    },
+    setMode: (next) => {
+      if (next === mode) {
+        return;
+      }
+      // Queued text is re-segmented for the new mode.
+      const queued = lanes.map(queuedText);
+      mode = next;
+      lanes = queued.map((text) => {
+        const lane = emptyLane();
+        enqueue(lane, text);
+        return lane;
+      });
+      schedule();
+    },
+    setOnReveal: (next) => {
+      onReveal = next;
+    },
+    queuedLength: (lane = 0) => lanes[lane]?.length ?? 0,
+  };
+};
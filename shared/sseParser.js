@@ -0,0 +1,204 @@
+// Incremental parser for `text/event-stream`, following the WHATWG
+// "event stream interpretation" rules so every fetch-based client frames events the
+// same way native EventSource does.
+//
+// Shared by the React client (through client/src/lib/sseParser.ts), the load test and
+// html-client, which imports the file as is.
+
+/**
+ * @typedef {object} SseMessage
+ * @property {string} event `event:` field, or 'message' when absent.
+ * @property {string} data Joined `data:` lines without the trailing newline.
+ * @property {string} id Last event id seen on the stream so far (ids persist across
+ *   events, per spec).
+ */
+
+/**
+ * @typedef {object} SseParserCallbacks
+ * @property {(message: SseMessage) => void} onMessage
+ * @property {(comment: string) => void} [onComment] Comment lines (`: heartbeat`),
+ *   without the leading colon.
+ * @property {(retryMs: number) => void} [onRetry] `retry:` reconnection time in
+ *   milliseconds.
+ */
+
+/**
+ * @typedef {object} SseParser
+ * @property {(chunk: string) => void} feed Feed decoded text; chunks may split lines,
+ *   fields or CRLF pairs anywhere.
+ * @property {() => void} reset Drops any partially received event and the last event id.
+ */
+
+const BOM = '\uFEFF';
+
+/**
+ * @param {SseParserCallbacks} callbacks
+ * @returns {SseParser}
+ */
+export function createSseParser({ onMessage, onComment, onRetry }) {
+  let buffer = '';
+  let isFirstChunk = true;
+  // A chunk ending in '\r' may be the first half of '\r\n'.
+  let pendingCarriageReturn = false;
+
+  /** @type {string[]} */
+  let dataLines = [];
+  let eventType = '';
+  let lastEventId = '';
+
+  const dispatch = () => {
+    if (dataLines.length === 0) {
+      eventType = '';
+      return;
+    }
+
+    /** @type {SseMessage} */
+    const message = { event: eventType || 'message', data: dataLines.join('\n'), id: lastEventId };
+    dataLines = [];
+    eventType = '';
+    onMessage(message);
+  };
+
+  /** @param {string} line */
+  const processLine = (line) => {
+    if (line === '') {
+      dispatch();
+      return;
+    }
+
+    if (line.startsWith(':')) {
+      onComment?.(line.slice(1).replace(/^ /, ''));
+      return;
+    }
+
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? '' : line.slice(colon + 1);
+    if (value.startsWith(' ')) {
+      value = value.slice(1);
+    }
+
+    switch (field) {
+      case 'event':
+        eventType = value;
+        break;
+      case 'data':
+        dataLines.push(value);
+        break;
+      case 'id':
+        if (!value.includes('\0')) {
+          lastEventId = value;
+        }
+        break;
+      case 'retry':
+        if (/^\d+$/.test(value)) {
+          onRetry?.(Number(value));
+        }
+        break;
+      default:
+        // Unknown fields are ignored.
+        break;
+    }
+  };
+
+  /** @param {string} chunk */
+  const feed = (chunk) => {
+    let text = chunk;
+    if (isFirstChunk && text.length > 0) {
+      isFirstChunk = false;
+      if (text.startsWith(BOM)) {
+        text = text.slice(1);
+      }
+    }
+
+    // An empty chunk says nothing about whether the CR was followed by an LF.
+    if (pendingCarriageReturn && text.length > 0) {
+      pendingCarriageReturn = false;
+      if (text.startsWith('\n')) {
+        text = text.slice(1);
+      }
+    }
+
+    buffer += text;
+
+    let start = 0;
+    for (let i = 0; i < buffer.length; i += 1) {
+      const char = buffer[i];
+      if (char !== '\n' && char !== '\r') {
+        continue;
+      }
+
+      processLine(buffer.slice(start, i));
+
+      if (char === '\r') {
+        if (i + 1 === buffer.length) {
+          pendingCarriageReturn = true;
+        } else if (buffer[i + 1] === '\n') {
+          i += 1;
+        }
+      }
+
+      start = i + 1;
+    }
+
+    buffer = buffer.slice(start);
+  };
+
+  const reset = () => {
+    buffer = '';
+    isFirstChunk = true;
+    pendingCarriageReturn = false;
+    dataLines = [];
+    eventType = '';
+    lastEventId = '';
+  };
+
+  return { feed, reset };
+}
+
+/**
+ * @typedef {Omit<SseParserCallbacks, 'onMessage'> & {
+ *   onBytes?: (byteLength: number) => void;
+ * }} ReadSseOptions `onBytes` gets the size of every chunk read from the body, before
+ *   decoding.
+ */
+
+// Async-iterates the events of a fetch response body:
+//   for await (const message of readSseStream(res.body)) { ... }
+// An event still incomplete when the stream ends is discarded, as the spec requires.
+/**
+ * @param {ReadableStream<Uint8Array>} stream
+ * @param {ReadSseOptions} [options]
+ * @returns {AsyncGenerator<SseMessage>}
+ */
+export async function* readSseStream(stream, options = {}) {
+  const reader = stream.getReader();
+  // TextDecoder strips a leading BOM and keeps multi-byte characters split across
+  // chunks intact.
+  const decoder = new TextDecoder('utf-8');
+  /** @type {SseMessage[]} */
+  const queue = [];
+  const { onBytes, ...callbacks } = options;
+  const parser = createSseParser({ ...callbacks, onMessage: (message) => queue.push(message) });
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (value) {
+        onBytes?.(value.byteLength);
+      }
+      parser.feed(done ? decoder.decode() : decoder.decode(value, { stream: true }));
+
+      while (queue.length > 0) {
+        yield /** @type {SseMessage} */ (queue.shift());
+      }
+
+      if (done) {
+        return;
+      }
+    }
+  } finally {
+    // Runs on early `break`/`return` from the consumer too, releasing the connection.
+    reader.cancel().catch(() => {});
+  }
+}